@@ -1,46 +1,362 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { UploadZone } from './components/UploadZone';
 import { AnalysisView } from './components/AnalysisView';
-import { analyzeDocument } from './services/geminiService';
-import { AppState, DocumentAnalysis, UploadedFile } from './types';
-import { ScanLine, FileText, ChevronRight, Github, RotateCcw } from 'lucide-react';
+import { DocumentPreview } from './components/DocumentPreview';
+import { QueuePanel } from './components/QueuePanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { TemplateManager } from './components/TemplateManager';
+import { RuleManager } from './components/RuleManager';
+import { CompareSource, CompareView } from './components/CompareView';
+import { PreprocessView } from './components/PreprocessView';
+import { CameraScanner } from './components/CameraScanner';
+import { AnalysisErrorView } from './components/AnalysisErrorView';
+import { SettingsPanel } from './components/SettingsPanel';
+import { getAnalysisProvider } from './services/analysisProvider';
+import { createAnalysisQueue, DEFAULT_ANALYSIS_TIMEOUT_MS, DEFAULT_QUEUE_CONCURRENCY } from './services/analysisQueue';
+import { DEFAULT_RETRY_POLICY } from './services/retryService';
+import { historyEntryToFile, saveAnalysisToHistory, updateHistoryConversation, updateHistoryFields, updateHistoryLocale, updateHistoryTables } from './services/historyService';
+import { tableCellFields } from './services/tableService';
+import { isPreprocessable } from './services/preprocessService';
+import { maxUploadBytes, toAcceptAttribute, validateUploadFile } from './services/uploadService';
+import { listTemplates } from './services/templateService';
+import { normalizeAnalysis } from './services/normalizeAnalysis';
+import { downloadText, ExportDocument, toCsv, toXml } from './services/exportService';
+import { getDefaultRedactions, maskRedactedAuditLog, maskRedactedConversation, maskRedactedFields, maskRedactedFindings, maskRedactedTables } from './services/redactionService';
+import { restoreOriginalValues, withOriginalValues } from './services/auditService';
+import { getDefaultLocale, withNormalizedValues } from './services/localeService';
+import { listRules, rulesForDocument } from './services/ruleService';
+import { getSettings } from './services/settingsService';
+import { ExportFormat } from './components/ExportMenu';
+import { ActiveField, AppSettings, AppState, BusinessRule, ChatMessage, DocumentAnalysis, DocumentTable, DocumentTemplate, FieldData, FieldEdit, HistoryEntry, PartialAnalysis, QueueItem } from './types';
+import { ScanLine, ChevronRight, Github, RotateCcw, History, LayoutTemplate, GitCompare, ListChecks, Settings } from 'lucide-react';
+
+const analysisProvider = getAnalysisProvider();
+// Set at build time via ANALYSIS_TIMEOUT_MS (see vite.config.ts)
+const analysisTimeoutMs = Number(process.env.ANALYSIS_TIMEOUT_MS) || DEFAULT_ANALYSIS_TIMEOUT_MS;
+
+// Templates and settings are read fresh for every document so edits apply to the next upload
+const analyzeWithTemplates = async (file: File, onProgress: (partial: PartialAnalysis) => void, signal: AbortSignal) => {
+  let templates: DocumentTemplate[] = [];
+  try {
+    templates = await listTemplates();
+  } catch (err) {
+    console.error("Failed to load templates", err);
+  }
+  const analysis = await analysisProvider.analyze(file, { templates, settings: getSettings().extraction, onProgress, signal });
+  return { ...analysis, fields: withOriginalValues(analysis.fields) };
+};
+
+// Shows a streamed analysis in the review layout until the complete result arrives
+const toStreamingAnalysis = (partial: PartialAnalysis): DocumentAnalysis => ({
+  documentType: partial.documentType ?? '',
+  summary: partial.summary ?? '',
+  fields: partial.fields,
+  missingFields: [],
+  securityRisks: [],
+  actionableInsights: [],
+});
+
+// Delay before edits are written to IndexedDB, so typing doesn't hit the database on every keystroke
+const AUTOSAVE_DELAY_MS = 800;
 
 export default function App() {
-  const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [currentFile, setCurrentFile] = useState<UploadedFile | null>(null);
-  const [analysisData, setAnalysisData] = useState<DocumentAnalysis | null>(null);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(DEFAULT_QUEUE_CONCURRENCY);
+  // Edited fields per queue item, so switching documents keeps the edits made in AnalysisView
+  const [editedFields, setEditedFields] = useState<Record<string, FieldData[]>>({});
+  const [auditLogs, setAuditLogs] = useState<Record<string, FieldEdit[]>>({});
+  const [conversations, setConversations] = useState<Record<string, ChatMessage[]>>({});
+  const [editedTables, setEditedTables] = useState<Record<string, DocumentTable[]>>({});
+  const [documentLocales, setDocumentLocales] = useState<Record<string, string>>({});
+  const [activeField, setActiveField] = useState<ActiveField | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [rules, setRules] = useState<BusinessRule[]>([]);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(() => getSettings());
+  // Photos waiting to be straightened and cropped before they join the queue
+  const [pendingImages, setPendingImages] = useState<File[]>([]);
+  const [showScanner, setShowScanner] = useState(false);
+  // Names of saved templates, to label analyses that were matched to one
+  const [templateNames, setTemplateNames] = useState<Record<string, string>>({});
+  // PII findings of the open document currently selected for redaction (owned by AnalysisView)
+  const [redactedIds, setRedactedIds] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileSelect = async (file: File) => {
-    // Create preview URL
-    const url = URL.createObjectURL(file);
-    setCurrentFile({
-      name: file.name,
-      type: file.type,
-      url,
-      base64: "" // handled in service
+  // Queue items already persisted to history, and pending autosave timers per item
+  const savedIdsRef = useRef<Set<string>>(new Set());
+  const autosaveTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  const queueRef = useRef<ReturnType<typeof createAnalysisQueue> | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createAnalysisQueue({
+      analyze: analyzeWithTemplates,
+      onChange: setQueueItems,
+      concurrency: DEFAULT_QUEUE_CONCURRENCY,
+      timeoutMs: analysisTimeoutMs,
+      retryPolicy: DEFAULT_RETRY_POLICY,
+    });
+  }
+  const queue = queueRef.current;
+
+  const selectedItem = queueItems.find(item => item.id === selectedId) ?? null;
+  const currentFile = selectedItem?.file ?? null;
+  const partialData = selectedItem?.status === 'analyzing' ? selectedItem.partial : undefined;
+  const isExtracting = !!partialData;
+  const analysisData = partialData ? toStreamingAnalysis(partialData) : selectedItem?.result ?? null;
+  const reviewFields = (selectedId && editedFields[selectedId]) || analysisData?.fields || [];
+  const reviewAuditLog = (selectedId && auditLogs[selectedId]) || [];
+  const reviewConversation = (selectedId && conversations[selectedId]) || [];
+  const reviewTables = (selectedId && editedTables[selectedId]) || analysisData?.tables || [];
+  // Table cells with a bounding box are outlined in the preview next to the fields
+  const previewFields = useMemo(() => [...reviewFields, ...tableCellFields(reviewTables)], [reviewFields, reviewTables]);
+
+  // Finished documents in the queue, with their current edits, for version comparison
+  const compareSources: CompareSource[] = queueItems
+    .filter(item => item.status === 'done' && item.result)
+    .map(item => {
+      const analysis = item.result as DocumentAnalysis;
+      return {
+        id: item.id,
+        name: item.file.name,
+        origin: 'queue',
+        analysis: { ...analysis, fields: editedFields[item.id] ?? analysis.fields },
+        file: item.source,
+        fileType: item.file.type,
+      };
+    });
+
+  // The screen shown follows the status of the selected queue item
+  const appState = useMemo(() => {
+    if (!selectedItem) return AppState.IDLE;
+    switch (selectedItem.status) {
+      case 'done': return AppState.REVIEW;
+      case 'failed':
+      case 'cancelled': return AppState.ERROR;
+      default: return AppState.ANALYZING;
+    }
+  }, [selectedItem]);
+
+  // Persist every finished analysis so it survives a reset or page refresh
+  useEffect(() => {
+    for (const item of queueItems) {
+      if (item.status !== 'done' || !item.result || savedIdsRef.current.has(item.id)) continue;
+      savedIdsRef.current.add(item.id);
+      saveAnalysisToHistory(item.id, item.source, item.result).catch(err => {
+        console.error("Failed to save analysis to history", err);
+        savedIdsRef.current.delete(item.id);
+      });
+    }
+  }, [queueItems]);
+
+  // Refresh template names when a new analysis arrives or the manager closes
+  const doneCount = queueItems.filter(item => item.status === 'done').length;
+  useEffect(() => {
+    if (showTemplates) return;
+    listTemplates()
+      .then(templates => setTemplateNames(Object.fromEntries(templates.map(t => [t.id, t.name]))))
+      .catch(err => console.error("Failed to load templates", err));
+  }, [doneCount, showTemplates]);
+
+  // Rules are reloaded when the editor closes, so edits apply to the open document right away
+  useEffect(() => {
+    if (showRules) return;
+    listRules()
+      .then(setRules)
+      .catch(err => console.error("Failed to load rules", err));
+  }, [showRules]);
+
+  const enqueueFiles = (files: File[]) => {
+    const added = queue.enqueue(files);
+    // Open the first new document unless the user is already looking at one
+    if (added.length > 0 && !selectedItem) {
+      setSelectedId(added[0].id);
+      setActiveField(null);
+    }
+  };
+
+  // Images go through preprocessing first; PDFs are queued right away
+  const handleFilesSelect = (files: File[]) => {
+    const images = files.filter(isPreprocessable);
+    const others = files.filter(file => !isPreprocessable(file));
+    if (others.length > 0) enqueueFiles(others);
+    if (images.length > 0) setPendingImages(prev => [...prev, ...images]);
+  };
+
+  // Scanned pages are already flattened and cropped, so they skip preprocessing
+  const handleScanComplete = (file: File) => {
+    setShowScanner(false);
+    enqueueFiles([file]);
+  };
+
+  const handleScanFallback = (files: File[]) => {
+    setShowScanner(false);
+    handleFilesSelect(files);
+  };
+
+  const handlePreprocessConfirm = (files: File[]) => {
+    setPendingImages([]);
+    enqueueFiles(files);
+  };
+
+  const handleSelectItem = (id: string) => {
+    setSelectedId(id);
+    setActiveField(null);
+  };
+
+  const handleRemoveItem = (id: string) => {
+    queue.remove(id);
+    setEditedFields(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setAuditLogs(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setConversations(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setEditedTables(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setDocumentLocales(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    if (id === selectedId) setSelectedId(null);
+  };
+
+  // A photo that was too large goes back through preprocessing, which downscales it
+  const handleCompress = (item: QueueItem) => {
+    handleRemoveItem(item.id);
+    setPendingImages(prev => [...prev, item.source]);
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    queue.setConcurrency(value);
+  };
+
+  // One pending write per timer key; a newer change replaces the pending one
+  const scheduleAutosave = (timerKey: string, save: () => Promise<void>) => {
+    clearTimeout(autosaveTimersRef.current[timerKey]);
+    autosaveTimersRef.current[timerKey] = setTimeout(() => {
+      delete autosaveTimersRef.current[timerKey];
+      save().catch(err => console.error("Autosave failed", err));
+    }, AUTOSAVE_DELAY_MS);
+  };
+
+  const handleFieldsChange = (fields: FieldData[], auditLog: FieldEdit[]) => {
+    if (!selectedId) return;
+    const id = selectedId;
+    setEditedFields(prev => ({ ...prev, [id]: fields }));
+    setAuditLogs(prev => ({ ...prev, [id]: auditLog }));
+    scheduleAutosave(`${id}:fields`, () => updateHistoryFields(id, fields, auditLog));
+  };
+
+  const handleTablesChange = (tables: DocumentTable[]) => {
+    if (!selectedId) return;
+    const id = selectedId;
+    setEditedTables(prev => ({ ...prev, [id]: tables }));
+    scheduleAutosave(`${id}:tables`, () => updateHistoryTables(id, tables));
+  };
+
+  const handleLocaleChange = (locale: string) => {
+    if (!selectedId) return;
+    const id = selectedId;
+    setDocumentLocales(prev => ({ ...prev, [id]: locale }));
+    scheduleAutosave(`${id}:locale`, () => updateHistoryLocale(id, locale));
+  };
+
+  // Exports every finished document with its edits; redactions use the open document's selection or the defaults
+  const handleExportAll = (format: ExportFormat) => {
+    const documents: ExportDocument[] = queueItems
+      .filter(item => item.status === 'done' && item.result)
+      .map(item => {
+        const analysis = item.result as DocumentAnalysis;
+        const fields = editedFields[item.id] ?? analysis.fields;
+        const redacted = item.id === selectedId ? redactedIds : getDefaultRedactions(analysis.securityRisks);
+        const locale = documentLocales[item.id] ?? analysis.locale ?? getDefaultLocale();
+        return {
+          name: item.file.name,
+          analysis: {
+            ...analysis,
+            locale,
+            fields: withNormalizedValues(maskRedactedFields(fields, analysis.securityRisks, redacted), locale),
+            auditLog: maskRedactedAuditLog(auditLogs[item.id] ?? [], analysis.securityRisks, redacted),
+            conversation: maskRedactedConversation(conversations[item.id] ?? [], fields, analysis.securityRisks, redacted, auditLogs[item.id]),
+            securityRisks: maskRedactedFindings(analysis.securityRisks, fields, redacted, auditLogs[item.id]),
+            tables: maskRedactedTables(editedTables[item.id] ?? analysis.tables ?? [], fields, analysis.securityRisks, redacted, auditLogs[item.id])
+          }
+        };
+      });
+    const stamp = Date.now();
+
+    switch (format) {
+      case 'csv-document':
+      case 'csv-field':
+        downloadText(toCsv(documents, format === 'csv-document' ? 'document' : 'field'), "text/csv", `docusight_batch_${stamp}.csv`);
+        break;
+      case 'csv-item':
+        downloadText(toCsv(documents, 'item'), "text/csv", `docusight_batch_items_${stamp}.csv`);
+        break;
+      case 'xml':
+        downloadText(toXml(documents), "application/xml", `docusight_batch_${stamp}.xml`);
+        break;
+      case 'json':
+        downloadText(JSON.stringify(documents, null, 2), "application/json", `docusight_batch_${stamp}.json`);
+        break;
+    }
+  };
+
+  const handleConversationChange = (conversation: ChatMessage[]) => {
+    if (!selectedId) return;
+    const id = selectedId;
+    // Nothing to store for a document nobody has asked about yet
+    if (conversation.length === 0 && !conversations[id]) return;
+    setConversations(prev => ({ ...prev, [id]: conversation }));
+    updateHistoryConversation(id, conversation).catch(err => console.error("Failed to save conversation", err));
+  };
+
+  const handleAskQuestion = (question: string, fields: FieldData[], conversation: ChatMessage[]) => {
+    if (!selectedItem) return Promise.reject(new Error("No document selected"));
+    return analysisProvider.ask(selectedItem.source, { question, fields, conversation }, {
+      settings: getSettings().extraction,
+      signal: AbortSignal.timeout(analysisTimeoutMs),
     });
+  };
 
-    setAppState(AppState.ANALYZING);
-    setErrorMsg(null);
-
-    try {
-      const result = await analyzeDocument(file);
-      setAnalysisData(result);
-      setAppState(AppState.REVIEW);
-    } catch (err) {
-      console.error(err);
-      setErrorMsg("Failed to analyze document. Please try again or check your API key.");
-      setAppState(AppState.ERROR);
+  const handleOpenHistoryEntry = (entry: HistoryEntry) => {
+    const alreadyOpen = queue.getItems().some(item => item.id === entry.id);
+    savedIdsRef.current.add(entry.id);
+    // Entries saved by older versions may predate the current schema
+    const analysis = normalizeAnalysis(entry.analysis).analysis;
+    const extracted = withOriginalValues(analysis.fields);
+    queue.restore(entry.id, historyEntryToFile(entry), { ...analysis, fields: extracted });
+    // In-memory edits of an open document are newer than what was stored
+    if (!alreadyOpen) {
+      setEditedFields(prev => ({ ...prev, [entry.id]: restoreOriginalValues(entry.fields, extracted) }));
+      setAuditLogs(prev => ({ ...prev, [entry.id]: entry.auditLog ?? [] }));
+      setConversations(prev => ({ ...prev, [entry.id]: entry.conversation ?? [] }));
+      const { tables } = entry;
+      if (tables) setEditedTables(prev => ({ ...prev, [entry.id]: tables }));
+      const { locale } = entry;
+      if (locale) setDocumentLocales(prev => ({ ...prev, [entry.id]: locale }));
     }
+    setSelectedId(entry.id);
+    setActiveField(null);
+    setShowHistory(false);
   };
 
   const handleReset = () => {
-    setAppState(AppState.IDLE);
-    setCurrentFile(null);
-    setAnalysisData(null);
-    setErrorMsg(null);
+    setSelectedId(null);
+    setActiveField(null);
   };
 
   const handleSidebarClick = () => {
@@ -52,20 +368,17 @@ export default function App() {
   };
 
   const handleHiddenFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    if (files.length === 0) return;
 
-    // Basic validation to match UploadZone logic
-    if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
-      alert("Please upload an image (JPG, PNG) or PDF.");
-      return;
-    }
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
-      alert("File size exceeds 10MB.");
-      return;
-    }
+    // Same validation as UploadZone
+    const valid = files.filter(file => {
+      const error = validateUploadFile(file, settings.upload);
+      if (error) alert(error);
+      return !error;
+    });
 
-    handleFileSelect(file);
+    if (valid.length > 0) handleFilesSelect(valid);
     
     // Reset the input so the same file can be selected again if needed
     e.target.value = '';
@@ -78,7 +391,8 @@ export default function App() {
         type="file" 
         ref={fileInputRef} 
         className="hidden" 
-        accept="image/*,application/pdf"
+        accept={toAcceptAttribute(settings.upload)}
+        multiple
         onChange={handleHiddenFileInputChange}
       />
 
@@ -98,7 +412,41 @@ export default function App() {
         </button>
         
         <div className="flex-1 flex flex-col items-center gap-4 mt-4">
-           {/* Additional nav items could go here */}
+           <button 
+             onClick={() => { setShowHistory(!showHistory); setShowTemplates(false); setShowRules(false); setShowCompare(false); setShowSettings(false); }} 
+             className={`p-2 rounded-lg transition-colors ${showHistory ? 'text-white bg-slate-800' : 'text-slate-500 hover:text-white'}`} 
+             title="History"
+           >
+             <History size={20} />
+           </button>
+           <button 
+             onClick={() => { setShowTemplates(!showTemplates); setShowHistory(false); setShowRules(false); setShowCompare(false); setShowSettings(false); }} 
+             className={`p-2 rounded-lg transition-colors ${showTemplates ? 'text-white bg-slate-800' : 'text-slate-500 hover:text-white'}`} 
+             title="Templates"
+           >
+             <LayoutTemplate size={20} />
+           </button>
+           <button 
+             onClick={() => { setShowRules(!showRules); setShowHistory(false); setShowTemplates(false); setShowCompare(false); setShowSettings(false); }} 
+             className={`p-2 rounded-lg transition-colors ${showRules ? 'text-white bg-slate-800' : 'text-slate-500 hover:text-white'}`} 
+             title="Business Rules"
+           >
+             <ListChecks size={20} />
+           </button>
+           <button 
+             onClick={() => { setShowCompare(!showCompare); setShowHistory(false); setShowTemplates(false); setShowRules(false); setShowSettings(false); }} 
+             className={`p-2 rounded-lg transition-colors ${showCompare ? 'text-white bg-slate-800' : 'text-slate-500 hover:text-white'}`} 
+             title="Compare Versions"
+           >
+             <GitCompare size={20} />
+           </button>
+           <button 
+             onClick={() => { setShowSettings(!showSettings); setShowHistory(false); setShowTemplates(false); setShowRules(false); setShowCompare(false); }} 
+             className={`p-2 rounded-lg transition-colors ${showSettings ? 'text-white bg-slate-800' : 'text-slate-500 hover:text-white'}`} 
+             title="Settings"
+           >
+             <Settings size={20} />
+           </button>
            {appState === AppState.REVIEW && (
              <button onClick={handleReset} className="p-2 text-slate-500 hover:text-white transition-colors" title="Reset">
                <RotateCcw size={20} />
@@ -111,6 +459,22 @@ export default function App() {
         </a>
       </div>
 
+      {/* Batch Queue */}
+      {queueItems.length > 0 && (
+        <QueuePanel
+          items={queueItems}
+          selectedId={selectedId}
+          concurrency={concurrency}
+          onSelect={handleSelectItem}
+          onRetry={queue.retry}
+          onCancel={queue.cancel}
+          onRemove={handleRemoveItem}
+          onConcurrencyChange={handleConcurrencyChange}
+          onAddFiles={() => fileInputRef.current?.click()}
+          onExportAll={handleExportAll}
+        />
+      )}
+
       {/* Main Content */}
       <div className="flex-1 flex flex-col h-screen overflow-hidden relative">
         
@@ -137,6 +501,47 @@ export default function App() {
                 style={{ backgroundImage: 'radial-gradient(#64748b 1px, transparent 1px)', backgroundSize: '24px 24px' }}>
            </div>
 
+           {showHistory && (
+             <HistoryPanel onOpen={handleOpenHistoryEntry} onClose={() => setShowHistory(false)} />
+           )}
+
+           {showTemplates && (
+             <TemplateManager onClose={() => setShowTemplates(false)} />
+           )}
+
+           {showRules && (
+             <RuleManager
+               onClose={() => setShowRules(false)}
+               documentTypes={[...new Set(queueItems.flatMap(item => item.result?.documentType ? [item.result.documentType] : []))]}
+             />
+           )}
+
+           {showSettings && (
+             <SettingsPanel settings={settings} onChange={setSettings} onClose={() => setShowSettings(false)} />
+           )}
+
+           {showScanner && (
+             <CameraScanner
+               onComplete={handleScanComplete}
+               onFallbackFiles={handleScanFallback}
+               onClose={() => setShowScanner(false)}
+               uploadLimits={settings.upload}
+             />
+           )}
+
+           {pendingImages.length > 0 && (
+             <PreprocessView
+               files={pendingImages}
+               onConfirm={handlePreprocessConfirm}
+               onCancel={() => setPendingImages([])}
+               maxUploadBytes={maxUploadBytes(settings.upload)}
+             />
+           )}
+
+           {showCompare && (
+             <CompareView queueSources={compareSources} onClose={() => setShowCompare(false)} />
+           )}
+
            {appState === AppState.IDLE && (
              <div className="h-full flex flex-col items-center justify-center z-10 relative px-4">
                 <div className="max-w-2xl text-center mb-10">
@@ -148,11 +553,11 @@ export default function App() {
                     DocuSight AI will extract fields, validate data, and explain the content in seconds.
                   </p>
                 </div>
-                <UploadZone onFileSelect={handleFileSelect} isProcessing={false} />
+                <UploadZone onFilesSelect={handleFilesSelect} onScanClick={() => setShowScanner(true)} isProcessing={false} limits={settings.upload} />
              </div>
            )}
 
-           {appState === AppState.ANALYZING && currentFile && (
+           {appState === AppState.ANALYZING && currentFile && !isExtracting && (
              <div className="h-full flex flex-col md:flex-row p-6 gap-6 items-center justify-center z-10 relative">
                <div className="flex flex-col items-center">
                   <div className="relative w-24 h-24 mb-6">
@@ -160,33 +565,46 @@ export default function App() {
                     <div className="absolute inset-0 border-4 border-brand-500 rounded-full border-t-transparent animate-spin"></div>
                     <ScanLine className="absolute inset-0 m-auto text-brand-600 animate-pulse" size={32} />
                   </div>
-                  <h3 className="text-xl font-semibold text-slate-800 mb-2">Analyzing Document...</h3>
+                  <h3 className="text-xl font-semibold text-slate-800 mb-2">
+                    {selectedItem?.status === 'queued' ? 'Waiting in Queue...' : 'Analyzing Document...'}
+                  </h3>
+                  <p className="text-sm font-medium text-slate-600 mb-1">{currentFile.name}</p>
                   <p className="text-slate-500 max-w-sm text-center">
                     Your assistant is reading the layout, extracting fields, and checking for missing information.
                   </p>
+                  {selectedItem?.error ? (
+                    <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mt-4 max-w-sm text-center">
+                      {selectedItem.error} Retrying automatically (attempt {(selectedItem.attempt ?? 1) + 1} of {DEFAULT_RETRY_POLICY.maxAttempts})…
+                    </p>
+                  ) : selectedItem?.attempt && selectedItem.attempt > 1 && (
+                    <p className="text-sm text-slate-500 mt-4">Attempt {selectedItem.attempt} of {DEFAULT_RETRY_POLICY.maxAttempts}</p>
+                  )}
+                  <button
+                    onClick={() => selectedItem && queue.cancel(selectedItem.id)}
+                    className="mt-6 py-2 px-4 bg-white text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
                </div>
              </div>
            )}
 
            {appState === AppState.ERROR && (
              <div className="h-full flex flex-col items-center justify-center z-10 relative px-4">
-               <div className="bg-white p-8 rounded-2xl shadow-neon border border-red-100 max-w-md text-center">
-                 <div className="w-16 h-16 bg-red-50 text-red-500 rounded-full flex items-center justify-center mx-auto mb-4">
-                   <FileText size={32} />
-                 </div>
-                 <h3 className="text-xl font-bold text-slate-900 mb-2">Analysis Failed</h3>
-                 <p className="text-slate-600 mb-6">{errorMsg || "Something went wrong."}</p>
-                 <button 
-                   onClick={handleReset}
-                   className="w-full py-2 px-4 bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors"
-                 >
-                   Try Again
-                 </button>
-               </div>
+               {selectedItem && (
+                 <AnalysisErrorView
+                   item={selectedItem}
+                   provider={analysisProvider.id}
+                   onRetry={() => queue.retry(selectedItem.id)}
+                   onReset={handleReset}
+                   onCompress={isPreprocessable(selectedItem.source) ? () => handleCompress(selectedItem) : undefined}
+                   onOpenSettings={() => { setShowSettings(true); setShowHistory(false); setShowTemplates(false); setShowRules(false); setShowCompare(false); }}
+                 />
+               )}
              </div>
            )}
 
-           {appState === AppState.REVIEW && currentFile && analysisData && (
+           {(appState === AppState.REVIEW || isExtracting) && currentFile && analysisData && (
              <div className="h-full p-4 md:p-6 grid grid-cols-1 lg:grid-cols-2 gap-6 z-10 relative">
                
                {/* Left: Document Preview */}
@@ -194,26 +612,52 @@ export default function App() {
                   <div className="absolute top-4 left-4 bg-black/75 text-white text-xs px-3 py-1 rounded-full backdrop-blur-md z-10">
                     Original Document
                   </div>
-                  <div className="flex-1 overflow-auto flex items-center justify-center p-8">
-                     {currentFile.type === 'application/pdf' ? (
-                        <div className="text-center">
-                          <FileText size={64} className="text-slate-400 mx-auto mb-4" />
-                          <p className="text-slate-500 font-medium">{currentFile.name}</p>
-                          <p className="text-xs text-slate-400 mt-1">PDF Preview not available in demo mode</p>
-                        </div>
-                     ) : (
-                        <img 
-                          src={currentFile.url} 
-                          alt="Doc Preview" 
-                          className="max-w-full max-h-full object-contain shadow-2xl rounded-sm ring-1 ring-black/10 transition-transform duration-300 group-hover:scale-[1.01]" 
-                        />
-                     )}
+                  <div className="flex-1 overflow-auto flex justify-center p-8">
+                     <DocumentPreview 
+                       file={currentFile} 
+                       fields={previewFields} 
+                       activeField={activeField}
+                       onFieldSelect={(key) => setActiveField({ key, source: 'preview' })}
+                       piiFindings={analysisData.securityRisks}
+                       redactedIds={redactedIds}
+                     />
                   </div>
                </div>
 
                {/* Right: Analysis Dashboard */}
                <div className="h-full min-h-0">
-                 <AnalysisView data={analysisData} imageUrl={currentFile.url} onReset={handleReset} />
+                 {isExtracting ? (
+                   // Remounted once the result arrives, so the streamed fields never reach the edit state
+                   <AnalysisView
+                     key={`${selectedId}:extracting`}
+                     data={analysisData}
+                     fileUrl={currentFile.url}
+                     fileType={currentFile.type}
+                     onReset={handleReset}
+                     activeField={activeField}
+                     onActiveFieldChange={(key) => setActiveField({ key, source: 'form' })}
+                     isExtracting
+                     onCancel={() => selectedItem && queue.cancel(selectedItem.id)}
+                   />
+                 ) : (
+                   <AnalysisView 
+                     key={selectedId}
+                     data={{ ...analysisData, fields: reviewFields, auditLog: reviewAuditLog, conversation: reviewConversation, tables: reviewTables, locale: (selectedId && documentLocales[selectedId]) || analysisData.locale }} 
+                     fileUrl={currentFile.url} 
+                     fileType={currentFile.type} 
+                     onReset={handleReset} 
+                     activeField={activeField}
+                     onActiveFieldChange={(key) => setActiveField({ key, source: 'form' })}
+                     onFieldsChange={handleFieldsChange}
+                     onRedactionsChange={setRedactedIds}
+                     onConversationChange={handleConversationChange}
+                     onTablesChange={handleTablesChange}
+                     onLocaleChange={handleLocaleChange}
+                     rules={rulesForDocument(rules, analysisData.documentType)}
+                     onAskQuestion={handleAskQuestion}
+                     templateName={analysisData.templateId ? templateNames[analysisData.templateId] : undefined}
+                   />
+                 )}
                </div>
 
              </div>
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Ban, Check, CloudOff, Copy, FileQuestion, FileWarning, FileX, Gauge, KeyRound, Settings, ShieldAlert, Timer, WifiOff } from 'lucide-react';
+import { AnalysisErrorKind, QueueItem } from '../types';
+import { buildDiagnostic } from '../services/analysisErrors';
+
+interface AnalysisErrorViewProps {
+  item: QueueItem; // A failed or cancelled queue item
+  provider: string; // Id of the analysis provider, for the diagnostic
+  onRetry: () => void;
+  onReset: () => void;
+  onCompress?: () => void; // Sends the photo back through preprocessing to shrink it
+  onOpenSettings?: () => void;
+}
+
+type NextStep = 'retry' | 'compress' | 'settings' | 'upload';
+
+const guidance: Record<AnalysisErrorKind, { title: string; explanation: string; nextStep: NextStep; icon: React.ReactNode }> = {
+  invalid_api_key: {
+    title: 'Analysis Service Not Configured',
+    explanation: "The server's Gemini API key is missing or was rejected. Whoever runs the server needs to set a valid GEMINI_API_KEY in .env.local and restart it.",
+    nextStep: 'retry',
+    icon: <KeyRound size={32} />,
+  },
+  quota_exceeded: {
+    title: 'Usage Limit Reached',
+    explanation: 'Too many documents were analyzed in a short time, or the service quota is used up. Wait a minute, then try again.',
+    nextStep: 'retry',
+    icon: <Gauge size={32} />,
+  },
+  service_unavailable: {
+    title: 'Analysis Service Busy',
+    explanation: 'The analysis service is overloaded or briefly down. This usually passes within a few minutes.',
+    nextStep: 'retry',
+    icon: <CloudOff size={32} />,
+  },
+  safety_blocked: {
+    title: 'Document Declined',
+    explanation: "The analysis service's safety filters blocked this document, so trying again won't help. Upload a different scan of it instead.",
+    nextStep: 'upload',
+    icon: <ShieldAlert size={32} />,
+  },
+  unsupported_file: {
+    title: 'Unsupported File',
+    explanation: 'Only JPG, PNG, WebP and PDF documents can be analyzed. Convert the file to one of these formats and upload it again.',
+    nextStep: 'upload',
+    icon: <FileX size={32} />,
+  },
+  file_too_large: {
+    title: 'File Too Large',
+    explanation: 'The document is too large to analyze. Reduce its resolution or compress it; split long PDFs into smaller parts.',
+    nextStep: 'compress',
+    icon: <FileWarning size={32} />,
+  },
+  malformed_output: {
+    title: 'Unreadable Result',
+    explanation: "The analysis service returned a result that couldn't be read. This is usually a one-off, so trying again normally works.",
+    nextStep: 'retry',
+    icon: <FileQuestion size={32} />,
+  },
+  invalid_settings: {
+    title: 'Settings Not Accepted',
+    explanation: 'The server refused the model or prompt settings, e.g. a thinking budget the chosen model does not support. Check them in Settings, save, then try again.',
+    nextStep: 'settings',
+    icon: <Settings size={32} />,
+  },
+  network: {
+    title: 'Connection Problem',
+    explanation: 'The analysis server could not be reached. Check your internet connection and that the server is running, then try again.',
+    nextStep: 'retry',
+    icon: <WifiOff size={32} />,
+  },
+  timeout: {
+    title: 'Analysis Timed Out',
+    explanation: 'The document took too long to analyze. Try again; very long documents may need to be split into parts.',
+    nextStep: 'retry',
+    icon: <Timer size={32} />,
+  },
+  unknown: {
+    title: 'Analysis Failed',
+    explanation: 'Something unexpected went wrong while analyzing the document.',
+    nextStep: 'retry',
+    icon: <AlertTriangle size={32} />,
+  },
+};
+
+const primaryButton = 'flex-1 py-2 px-4 bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors';
+const secondaryButton = 'flex-1 py-2 px-4 bg-white text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors';
+
+export const AnalysisErrorView: React.FC<AnalysisErrorViewProps> = ({ item, provider, onRetry, onReset, onCompress, onOpenSettings }) => {
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'error'>('idle');
+
+  if (item.status === 'cancelled') {
+    return (
+      <div className="bg-white p-8 rounded-2xl shadow-neon border border-slate-200 max-w-md text-center">
+        <div className="w-16 h-16 bg-slate-100 text-slate-500 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Ban size={32} />
+        </div>
+        <h3 className="text-xl font-bold text-slate-900 mb-2">Analysis Cancelled</h3>
+        <p className="text-slate-600 mb-6">The analysis of {item.file.name} was stopped before it finished.</p>
+        <div className="flex gap-3">
+          <button onClick={onReset} className={secondaryButton}>Upload Another</button>
+          <button onClick={onRetry} className={primaryButton}>Analyze Again</button>
+        </div>
+      </div>
+    );
+  }
+
+  const failure = item.failure;
+  const { title, explanation, nextStep, icon } = guidance[failure?.kind ?? 'unknown'];
+  // Retrying is pointless when the same file is bound to fail the same way
+  const canRetry = nextStep === 'retry' || nextStep === 'settings';
+
+  const copyDiagnostic = async () => {
+    if (!failure) return;
+    try {
+      await navigator.clipboard.writeText(buildDiagnostic(failure, { provider, fileType: item.source.type, fileSize: item.source.size }));
+      setCopyStatus('copied');
+    } catch {
+      setCopyStatus('error');
+    }
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-neon border border-red-100 max-w-md text-center">
+      <div className="w-16 h-16 bg-red-50 text-red-500 rounded-full flex items-center justify-center mx-auto mb-4">
+        {icon}
+      </div>
+      <h3 className="text-xl font-bold text-slate-900 mb-2">{title}</h3>
+      <p className="text-slate-600 mb-3">{explanation}</p>
+      {failure && <p className="text-xs text-slate-400 mb-6 break-words">{failure.message}</p>}
+      <div className="flex gap-3">
+        {nextStep === 'compress' && onCompress ? (
+          <>
+            <button onClick={onReset} className={secondaryButton}>Upload Another</button>
+            <button onClick={onCompress} className={primaryButton}>Shrink Photo</button>
+          </>
+        ) : nextStep === 'settings' && onOpenSettings ? (
+          <>
+            <button onClick={onOpenSettings} className={secondaryButton}>Open Settings</button>
+            <button onClick={onRetry} className={primaryButton}>Try Again</button>
+          </>
+        ) : canRetry ? (
+          <>
+            <button onClick={onReset} className={secondaryButton}>Upload Another</button>
+            <button onClick={onRetry} className={primaryButton}>Try Again</button>
+          </>
+        ) : (
+          <button onClick={onReset} className={primaryButton}>Upload Another</button>
+        )}
+      </div>
+      {failure && (
+        <button
+          onClick={copyDiagnostic}
+          className="mt-4 inline-flex items-center gap-1.5 text-xs text-slate-500 hover:text-slate-700"
+          title="Copy technical details for a support request; no file contents or keys are included"
+        >
+          {copyStatus === 'copied' ? <Check size={12} /> : <Copy size={12} />}
+          {copyStatus === 'copied' ? 'Diagnostic copied' : copyStatus === 'error' ? 'Copy failed' : 'Copy diagnostic'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,10 @@
-import React, { useState, useRef } from 'react';
-import { DocumentAnalysis, FieldData } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ActiveField, BusinessRule, ChatMessage, DocumentAnalysis, DocumentTable, FieldData, FieldEdit, FieldEditAction, PiiSeverity } from '../types';
 import { 
   CheckCircle, 
   AlertTriangle, 
   ShieldAlert, 
   Edit3, 
-  Download,
   Eye,
   Layout,
   Code,
@@ -17,30 +16,302 @@ import {
   XCircle,
   FileDown,
   Trash2,
-  Check
+  Check,
+  EyeOff,
+  LayoutTemplate,
+  PenLine,
+  Undo2,
+  Redo2,
+  RotateCcw,
+  MessageSquare,
+  Globe,
+  ListChecks,
+  Loader2,
+  HelpCircle
 } from 'lucide-react';
 import { Button } from './Button';
-import { jsPDF } from 'jspdf';
+import { ExportMenu, ExportFormat } from './ExportMenu';
+import { SignaturePad } from './SignaturePad';
+import { AuditTrail } from './AuditTrail';
+import { ReviewBar } from './ReviewBar';
+import { DocumentChat } from './DocumentChat';
+import { TableEditor } from './TableEditor';
+import { loadDocumentPages } from '../services/pdfService';
+import { isCheckedValue, validateFields } from '../services/validationService';
+import { createTemplateFromFields, saveTemplate } from '../services/templateService';
+import { buildFillablePdf, buildImagePdf, downloadText, downloadUrl, ExportDocument, PdfPage, toCsv, toXml } from '../services/exportService';
+import { drawRedactions, getDefaultRedactions, getRedactionRegions, maskRedactedAuditLog, maskRedactedConversation, maskRedactedFields, maskRedactedFindings, maskRedactedTables } from '../services/redactionService';
+import { DEFAULT_REVIEW_THRESHOLD, formatConfidence, getFieldConfidences } from '../services/confidenceService';
+import { createChatMessage } from '../services/chatService';
+import type { DocumentAnswer } from '../services/analysisProvider';
+import { appendToAuditLog, diffFields, EDIT_COALESCE_MS, isFieldModified } from '../services/auditService';
+import { evaluateRules, unknownFieldKeys } from '../services/ruleService';
+import { DOCUMENT_LOCALES, formatNormalizedValue, getDefaultLocale, normalizeFieldValue, withNormalizedValues } from '../services/localeService';
 
 interface AnalysisViewProps {
   data: DocumentAnalysis;
-  imageUrl?: string;
+  fileUrl?: string;
+  fileType?: string;
   onReset: () => void;
+  activeField?: ActiveField | null;
+  onActiveFieldChange?: (key: string) => void;
+  onFieldsChange?: (fields: FieldData[], auditLog: FieldEdit[]) => void;
+  onRedactionsChange?: (redactedIds: string[]) => void;
+  onConversationChange?: (conversation: ChatMessage[]) => void;
+  onTablesChange?: (tables: DocumentTable[]) => void;
+  onLocaleChange?: (locale: string) => void;
+  rules?: BusinessRule[]; // Business rules that apply to this document type
+  onAskQuestion?: (question: string, fields: FieldData[], conversation: ChatMessage[]) => Promise<DocumentAnswer>;
+  templateName?: string; // Name of the saved template this analysis was matched to
+  isExtracting?: boolean; // Fields are still streaming in; editing and exports wait for the complete result
+  onCancel?: () => void; // Stops the extraction in progress
 }
 
-export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onReset }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'form' | 'json'>('overview');
+const severityStyles: Record<PiiSeverity, string> = {
+  low: 'bg-slate-100 text-slate-600',
+  medium: 'bg-amber-100 text-amber-700',
+  high: 'bg-red-100 text-red-700',
+  critical: 'bg-red-600 text-white',
+};
+
+// Render scale for PDF pages when building the filled download (higher than the preview for print quality)
+const EXPORT_PDF_SCALE = 2;
+// Undo history is capped so long review sessions do not hold every snapshot
+const MAX_UNDO_STEPS = 100;
+
+// Draws field values into their bounding boxes on an already painted page
+const drawFieldsOnCanvas = async (ctx: CanvasRenderingContext2D, pageFields: FieldData[], width: number, height: number) => {
+  for (const field of pageFields) {
+    if (!field.boundingBox || !field.value || field.status === 'skipped') continue;
+
+    const [ymin, xmin, ymax, xmax] = field.boundingBox;
+    const x = xmin * width;
+    const y = ymin * height;
+    const w = (xmax - xmin) * width;
+    const h = (ymax - ymin) * height;
+
+    if (field.type === 'image' || field.type === 'signature') {
+      // Draw Image/Signature
+      const fieldImg = new Image();
+      fieldImg.src = field.value;
+      await new Promise<void>((resolve) => {
+         fieldImg.onload = () => resolve();
+         fieldImg.onerror = () => resolve(); // Gracefully fail for individual fields
+      });
+      // Preserve aspect ratio fit within box
+      const scale = Math.min(w / fieldImg.naturalWidth, h / fieldImg.naturalHeight);
+      const drawW = fieldImg.naturalWidth * scale;
+      const drawH = fieldImg.naturalHeight * scale;
+      // Center in box
+      const drawX = x + (w - drawW) / 2;
+      const drawY = y + (h - drawH) / 2;
+      
+      ctx.drawImage(fieldImg, drawX, drawY, drawW, drawH);
+
+    } else {
+      // Draw Text
+      // Estimate font size based on box height (approx 60% of height)
+      let fontSize = Math.floor(h * 0.6);
+      // Clamp font size to reasonable limits
+      if (fontSize < 12) fontSize = 12; 
+      if (fontSize > 60) fontSize = 60;
+
+      ctx.fillStyle = "#000000"; // Black text
+      // Use a monospace-ish font for form filling look
+      ctx.font = `${fontSize}px "Courier New", monospace`;
+      ctx.textBaseline = 'middle';
+      
+      // Adjust y to center vertically
+      const textY = y + h / 2;
+      // Add small padding x
+      const textX = x + 5; 
+
+      if (field.type === 'checkbox') {
+         const isChecked = isCheckedValue(field.value);
+         if (isChecked) {
+            // Draw a checkmark
+            ctx.fillText("✓", textX, textY, w - 10);
+         }
+      } else {
+         ctx.fillText(field.value, textX, textY, w - 10);
+      }
+    }
+  }
+};
+
+export const AnalysisView: React.FC<AnalysisViewProps> = ({ 
+  data, 
+  fileUrl, 
+  fileType, 
+  onReset, 
+  activeField, 
+  onActiveFieldChange, 
+  onFieldsChange,
+  onRedactionsChange,
+  onConversationChange,
+  onTablesChange,
+  onLocaleChange,
+  rules = [],
+  onAskQuestion,
+  templateName,
+  isExtracting = false,
+  onCancel
+}) => {
+  const [activeTab, setActiveTab] = useState<'overview' | 'form' | 'ask' | 'json'>('overview');
   const [fields, setFields] = useState<FieldData[]>(data.fields);
+  const [auditLog, setAuditLog] = useState<FieldEdit[]>(data.auditLog ?? []);
+  // Field snapshots for undo/redo; the audit log keeps the full record regardless
+  const [undoStack, setUndoStack] = useState<FieldData[][]>([]);
+  const [redoStack, setRedoStack] = useState<FieldData[][]>([]);
+  // Latest fields for callbacks that outlive a render (e.g. FileReader)
+  const fieldsRef = useRef(fields);
+  fieldsRef.current = fields;
+  const lastEditRef = useRef<{ key: string; time: number } | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [conversation, setConversation] = useState<ChatMessage[]>(data.conversation ?? []);
+  const [tables, setTables] = useState<DocumentTable[]>(data.tables ?? []);
+  // Decides how dates, amounts and phone numbers are read; defaults to the detected locale
+  const [locale, setLocale] = useState(data.locale ?? getDefaultLocale());
   const [truthLens, setTruthLens] = useState(false);
   
   // Save/Validation State
-  const [isSaving, setIsSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState<{type: 'success' | 'error', text: string} | null>(null);
+  // Errors are shown for fields the user has edited, and for every field after a save attempt
+  const [touchedKeys, setTouchedKeys] = useState<Set<string>>(() => new Set());
+  const [showAllErrors, setShowAllErrors] = useState(false);
+  const fieldErrors = useMemo(() => validateFields(fields, locale), [fields, locale]);
+  const ruleViolations = useMemo(() => evaluateRules(rules, fields, locale), [rules, fields, locale]);
+  const ruleErrorCount = ruleViolations.filter(v => v.severity === 'error').length;
+  // Rules naming a field this document doesn't have, e.g. after a typo in a key
+  const uncheckedRules = useMemo(() => rules
+    .map(rule => ({ rule, keys: unknownFieldKeys(rule, fields) }))
+    .filter(({ keys }) => keys.length > 0), [rules, fields]);
+  // A rule can be both violated and unchecked, e.g. when one part fails and another names a missing field
+  const passingRuleCount = useMemo(() => {
+    const violatedIds = new Set(ruleViolations.map(v => v.ruleId));
+    const uncheckedIds = new Set(uncheckedRules.map(({ rule }) => rule.id));
+    return rules.filter(r => !violatedIds.has(r.id) && !uncheckedIds.has(r.id)).length;
+  }, [rules, ruleViolations, uncheckedRules]);
+  // From the current fields, so filling one in clears it; data.missingFields is the model's snapshot
+  const missingFields = useMemo(() => fields.filter(f => f.required && f.status === 'empty'), [fields]);
+
+  // Low-confidence review: fields confirmed by the reviewer, and the fixed list being stepped through
+  const [reviewThreshold, setReviewThreshold] = useState(DEFAULT_REVIEW_THRESHOLD);
+  const [reviewedKeys, setReviewedKeys] = useState<Set<string>>(() => new Set());
+  const [reviewSession, setReviewSession] = useState<{ keys: string[]; index: number } | null>(null);
+  const confidences = useMemo(() => getFieldConfidences(fields, fieldErrors), [fields, fieldErrors]);
+  // Edited fields count as reviewed; skipped ones need no review
+  const pendingReviewKeys = fields
+    .filter(f => f.status !== 'skipped' && !reviewedKeys.has(f.key) && !isFieldModified(f) && confidences[f.key].score < reviewThreshold)
+    .map(f => f.key);
 
   // Download Generation State
   const [isGeneratingDownload, setIsGeneratingDownload] = useState(false);
+
+  // Signature field currently open in the draw-to-sign pad
+  const [signingKey, setSigningKey] = useState<string | null>(null);
+
+  // PII findings selected for redaction in previews and exports
+  const [redactedIds, setRedactedIds] = useState<string[]>(() => getDefaultRedactions(data.securityRisks));
+  const [redactionError, setRedactionError] = useState<string | null>(null);
+
+  const [templateStatus, setTemplateStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
+  // Form rows by field key, used to jump to a field selected in the preview
+  const fieldRowRefs = useRef<Record<string, HTMLElement | null>>({});
+
+  // Fields keep arriving until the stream completes; nothing can be edited until then
+  useEffect(() => {
+    if (isExtracting) setFields(data.fields);
+  }, [isExtracting, data.fields]);
+
+  useEffect(() => {
+    onFieldsChange?.(fields, auditLog);
+  }, [fields, auditLog]);
+
+  useEffect(() => {
+    onRedactionsChange?.(redactedIds);
+  }, [redactedIds]);
+
+  useEffect(() => {
+    onConversationChange?.(conversation);
+  }, [conversation]);
+
+  useEffect(() => {
+    onTablesChange?.(tables);
+  }, [tables]);
+
+  useEffect(() => {
+    onLocaleChange?.(locale);
+  }, [locale]);
+
+  // A box clicked in the preview opens the form and focuses the matching input
+  useEffect(() => {
+    if (activeField?.source !== 'preview') return;
+    setActiveTab('form');
+  }, [activeField]);
+
+  useEffect(() => {
+    if (activeField?.source !== 'preview' || activeTab !== 'form') return;
+    const row = fieldRowRefs.current[activeField.key];
+    if (!row) return;
+    row.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const input = row.querySelector<HTMLElement>('input:not([type="file"]), textarea, [tabindex]');
+    input?.focus({ preventScroll: true });
+  }, [activeField, activeTab]);
+
+  const currentReviewKey = reviewSession ? reviewSession.keys[reviewSession.index] : null;
+
+  // Bring the field under review into view and focus its input
+  useEffect(() => {
+    if (!currentReviewKey || activeTab !== 'form') return;
+    const row = fieldRowRefs.current[currentReviewKey];
+    if (!row) return;
+    row.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const input = row.querySelector<HTMLElement>('input:not([type="file"]), textarea, [tabindex]');
+    input?.focus({ preventScroll: true });
+    onActiveFieldChange?.(currentReviewKey);
+  }, [currentReviewKey, activeTab]);
+
+  const startReview = () => {
+    if (pendingReviewKeys.length === 0) return;
+    setActiveTab('form');
+    setReviewSession({ keys: pendingReviewKeys, index: 0 });
+  };
+
+  const moveReview = (delta: number) => {
+    setReviewSession(prev => prev && {
+      ...prev,
+      index: Math.min(prev.keys.length - 1, Math.max(0, prev.index + delta))
+    });
+  };
+
+  const confirmReviewedField = () => {
+    if (!reviewSession || !currentReviewKey) return;
+    setReviewedKeys(prev => new Set(prev).add(currentReviewKey));
+    if (reviewSession.index >= reviewSession.keys.length - 1) {
+      setReviewSession(null);
+      setSaveMessage({ type: 'success', text: 'All flagged fields have been reviewed.' });
+    } else {
+      moveReview(1);
+    }
+  };
+
+  // Answers are grounded in the current, edited field values
+  const handleAsk = async (question: string) => {
+    if (!onAskQuestion) return;
+    const history = conversation;
+    setConversation(prev => [...prev, createChatMessage('user', question)]);
+    try {
+      const { answer, citations } = await onAskQuestion(question, fieldsRef.current, history);
+      setConversation(prev => [...prev, createChatMessage('assistant', answer, { citations })]);
+    } catch (err) {
+      console.error("Question failed", err);
+      setConversation(prev => [...prev, createChatMessage('assistant', 'Sorry, that question could not be answered. Please try again.', { error: true })]);
+    }
+  };
+
   // Calculate stats
   const requiredFields = fields.filter(f => f.required);
   const filledRequired = requiredFields.filter(f => f.status === 'filled' || f.status === 'skipped').length;
@@ -48,22 +319,95 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
     ? Math.round((filledRequired / requiredFields.length) * 100) 
     : 100;
 
+  // Every change to field values goes through here so it can be undone and lands in the audit log
+  const commitFields = (next: FieldData[], action: FieldEditAction) => {
+    const current = fieldsRef.current;
+    const edits = diffFields(current, next, action);
+    if (edits.length === 0) return;
+
+    // Continued typing in one field is a single undo step
+    const now = edits[0].timestamp;
+    const editedKey = action === 'edit' && edits.length === 1 ? edits[0].fieldKey : null;
+    const last = lastEditRef.current;
+    const continuesTyping = editedKey !== null && last?.key === editedKey && now - last.time < EDIT_COALESCE_MS;
+    if (!continuesTyping) setUndoStack(prev => [...prev.slice(-(MAX_UNDO_STEPS - 1)), current]);
+    lastEditRef.current = editedKey ? { key: editedKey, time: now } : null;
+
+    setRedoStack([]);
+    setAuditLog(prev => appendToAuditLog(prev, edits));
+    fieldsRef.current = next;
+    setFields(next);
+  };
+
   const handleFieldChange = (key: string, newValue: string) => {
-    setFields(prev => prev.map(f => 
+    commitFields(fieldsRef.current.map(f => 
       f.key === key ? { ...f, value: newValue, status: newValue ? 'filled' : 'empty' } : f
-    ));
+    ), 'edit');
+    setTouchedKeys(prev => prev.has(key) ? prev : new Set(prev).add(key));
     if (saveMessage) setSaveMessage(null);
   };
 
   const handleSkipField = (key: string) => {
-    setFields(prev => prev.map(f => 
+    const field = fieldsRef.current.find(f => f.key === key);
+    if (!field) return;
+    const isSkipped = field.status === 'skipped';
+    commitFields(fieldsRef.current.map(f => 
        f.key === key ? { 
          ...f, 
-         status: f.status === 'skipped' ? (f.value ? 'filled' : 'empty') : 'skipped' 
+         status: isSkipped ? (f.value ? 'filled' : 'empty') : 'skipped' 
        } : f
-    ));
+    ), isSkipped ? 'unskip' : 'skip');
+  };
+
+  const handleRevertField = (key: string) => {
+    commitFields(fieldsRef.current.map(f =>
+      f.key === key && f.original ? { ...f, value: f.original.value, status: f.original.status } : f
+    ), 'revert');
+  };
+
+  const restoreSnapshot = (snapshot: FieldData[], action: 'undo' | 'redo') => {
+    setAuditLog(prev => appendToAuditLog(prev, diffFields(fieldsRef.current, snapshot, action)));
+    lastEditRef.current = null;
+    fieldsRef.current = snapshot;
+    setFields(snapshot);
+    if (saveMessage) setSaveMessage(null);
+  };
+
+  const handleUndo = () => {
+    if (undoStack.length === 0) return;
+    setRedoStack(prev => [fieldsRef.current, ...prev]);
+    setUndoStack(prev => prev.slice(0, -1));
+    restoreSnapshot(undoStack[undoStack.length - 1], 'undo');
   };
 
+  const handleRedo = () => {
+    if (redoStack.length === 0) return;
+    setUndoStack(prev => [...prev, fieldsRef.current]);
+    setRedoStack(prev => prev.slice(1));
+    restoreSnapshot(redoStack[0], 'redo');
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Inputs in other panels keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      const isEditable = target?.closest('input, textarea, select, [contenteditable="true"]');
+      if (isEditable && !rootRef.current?.contains(target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleImageUpload = (key: string, file: File) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -76,139 +420,131 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
     handleFieldChange(key, "");
   };
 
-  const handleSave = async () => {
-    setIsSaving(true);
-    setSaveMessage(null);
-
-    // Simulate validation process
-    await new Promise(resolve => setTimeout(resolve, 800));
-
-    // Validation logic: Check for REQUIRED fields that are EMPTY and NOT SKIPPED
-    const stillMissing = fields.filter(f => f.required && f.status === 'empty');
+  const handleSave = () => {
+    setShowAllErrors(true);
 
-    if (stillMissing.length > 0) {
+    // Saving is blocked while any field fails its type or constraint checks, or an error-level rule fails
+    const errorCount = Object.keys(fieldErrors).length;
+    if (errorCount > 0 || ruleErrorCount > 0) {
+      const problems = [
+        errorCount > 0 ? `${errorCount} field(s) need attention` : '',
+        ruleErrorCount > 0 ? `${ruleErrorCount} business rule(s) failed` : ''
+      ].filter(Boolean);
       setSaveMessage({
         type: 'error',
-        text: `Validation Failed: ${stillMissing.length} required field(s) are empty.`
-      });
-    } else {
-      setSaveMessage({
-        type: 'success',
-        text: 'Form validated and saved successfully!'
+        text: `Validation Failed: ${problems.join(', ')}.`
       });
+      return;
     }
-    setIsSaving(false);
+
+    setSaveMessage({
+      type: 'success',
+      text: 'Form validated and saved successfully!'
+    });
   };
 
-  const exportJSON = () => {
-    const jsonString = JSON.stringify({ ...data, fields }, null, 2);
-    const blob = new Blob([jsonString], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `docusight_export_${Date.now()}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Export payload with the values of redacted findings masked and the rest normalized
+  const exportData = useMemo(() => ({
+    ...data,
+    locale,
+    fields: withNormalizedValues(maskRedactedFields(fields, data.securityRisks, redactedIds), locale),
+    auditLog: maskRedactedAuditLog(auditLog, data.securityRisks, redactedIds),
+    conversation: maskRedactedConversation(conversation, fields, data.securityRisks, redactedIds, auditLog),
+    securityRisks: maskRedactedFindings(data.securityRisks, fields, redactedIds, auditLog),
+    tables: maskRedactedTables(tables, fields, data.securityRisks, redactedIds, auditLog)
+  }), [data, locale, fields, auditLog, conversation, tables, redactedIds]);
+
+  const handleExport = async (format: ExportFormat) => {
+    const stamp = Date.now();
+    const exportDoc: ExportDocument = { name: data.documentType || 'document', analysis: exportData };
+
+    switch (format) {
+      case 'json':
+        downloadText(JSON.stringify(exportData, null, 2), "application/json", `docusight_export_${stamp}.json`);
+        break;
+      case 'csv-document':
+      case 'csv-field':
+        downloadText(toCsv([exportDoc], format === 'csv-document' ? 'document' : 'field'), "text/csv", `docusight_export_${stamp}.csv`);
+        break;
+      case 'csv-item':
+        downloadText(toCsv([exportDoc], 'item'), "text/csv", `docusight_items_${stamp}.csv`);
+        break;
+      case 'xml':
+        downloadText(toXml([exportDoc]), "application/xml", `docusight_export_${stamp}.xml`);
+        break;
+      case 'pdf-fillable':
+        setIsGeneratingDownload(true);
+        try {
+          // Background pages are left unfilled; the values live in the form fields instead
+          const pages = await composePages(false, 'image/jpeg');
+          buildFillablePdf(pages, exportData.fields).save(`fillable_document_${stamp}.pdf`);
+        } catch (e) {
+          console.error("Fillable PDF generation failed", e);
+          setSaveMessage({ type: 'error', text: 'Failed to generate the fillable PDF. Please try again.' });
+        } finally {
+          setIsGeneratingDownload(false);
+        }
+        break;
+    }
   };
 
-  const handleDownloadFilledDoc = async () => {
-    if (!imageUrl) return;
-    setIsGeneratingDownload(true);
+  // Paints every page (plus filled values and selected redactions) onto the hidden canvas and encodes it
+  const composePages = async (fillFields: boolean, mimeType: 'image/jpeg' | 'image/png'): Promise<PdfPage[]> => {
+    if (!fileUrl || !fileType) throw new Error("No document loaded");
+    const canvas = canvasRef.current;
+    if (!canvas) throw new Error("Canvas not initialized");
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
 
-    try {
-      const canvas = canvasRef.current;
-      if (!canvas) throw new Error("Canvas not initialized");
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error("Could not get canvas context");
+    // Images yield a single page; PDFs are rasterized page by page
+    const pages = await loadDocumentPages(fileUrl, fileType, EXPORT_PDF_SCALE);
+    const regions = getRedactionRegions(data.securityRisks, fields, redactedIds);
+    const composed: PdfPage[] = [];
 
-      // Load original image
+    for (const page of pages) {
+      // Load page image
       const img = new Image();
-      img.src = imageUrl;
+      img.src = page.dataUrl;
       // Use a promise to handle load and error explicitly
       await new Promise<void>((resolve, reject) => {
         img.onload = () => resolve();
-        img.onerror = () => reject(new Error("Failed to load original image"));
+        img.onerror = () => reject(new Error(`Failed to load page ${page.pageNumber}`));
       });
 
-      // Set canvas size to match image
+      // Set canvas size to match page
       const width = img.naturalWidth;
       const height = img.naturalHeight;
       canvas.width = width;
       canvas.height = height;
 
-      // Draw original image
+      // Draw original page
       ctx.drawImage(img, 0, 0);
 
-      // Draw Fields
-      for (const field of fields) {
-        if (!field.boundingBox || !field.value || field.status === 'skipped') continue;
-
-        const [ymin, xmin, ymax, xmax] = field.boundingBox;
-        const x = xmin * canvas.width;
-        const y = ymin * canvas.height;
-        const w = (xmax - xmin) * canvas.width;
-        const h = (ymax - ymin) * canvas.height;
-
-        if (field.type === 'image' || field.type === 'signature') {
-          // Draw Image/Signature
-          const fieldImg = new Image();
-          fieldImg.src = field.value;
-          await new Promise<void>((resolve) => {
-             fieldImg.onload = () => resolve();
-             fieldImg.onerror = () => resolve(); // Gracefully fail for individual fields
-          });
-          // Preserve aspect ratio fit within box
-          const scale = Math.min(w / fieldImg.naturalWidth, h / fieldImg.naturalHeight);
-          const drawW = fieldImg.naturalWidth * scale;
-          const drawH = fieldImg.naturalHeight * scale;
-          // Center in box
-          const drawX = x + (w - drawW) / 2;
-          const drawY = y + (h - drawH) / 2;
-          
-          ctx.drawImage(fieldImg, drawX, drawY, drawW, drawH);
-
-        } else {
-          // Draw Text
-          // Estimate font size based on box height (approx 60% of height)
-          let fontSize = Math.floor(h * 0.6);
-          // Clamp font size to reasonable limits
-          if (fontSize < 12) fontSize = 12; 
-          if (fontSize > 60) fontSize = 60;
-
-          ctx.fillStyle = "#000000"; // Black text
-          // Use a monospace-ish font for form filling look
-          ctx.font = `${fontSize}px "Courier New", monospace`;
-          ctx.textBaseline = 'middle';
-          
-          // Adjust y to center vertically
-          const textY = y + h / 2;
-          // Add small padding x
-          const textX = x + 5; 
-
-          if (field.type === 'checkbox') {
-             const isChecked = field.value.toLowerCase() === 'true' || field.value.toLowerCase() === 'yes' || field.value.toLowerCase() === 'checked';
-             if (isChecked) {
-                // Draw a checkmark
-                ctx.fillText("✓", textX, textY, w - 10);
-             }
-          } else {
-             ctx.fillText(field.value, textX, textY, w - 10);
-          }
-        }
+      // Draw fields that belong to this page
+      if (fillFields) {
+        await drawFieldsOnCanvas(ctx, fields.filter(f => (f.page || 1) === page.pageNumber), width, height);
       }
 
-      // Generate PDF
-      const imgData = canvas.toDataURL('image/jpeg', 0.85); // Compress slightly
-      
-      // FIX: Use positional arguments for jsPDF constructor to avoid "Invalid argument passed to jsPDF.scale"
-      // new jsPDF(orientation, unit, format)
-      const orientation = width > height ? 'l' : 'p';
-      const pdf = new jsPDF(orientation, 'px', [width, height]);
+      // Redactions go last so they also cover any filled-in values
+      drawRedactions(ctx, regions.filter(r => r.page === page.pageNumber), width, height);
+
+      composed.push({
+        dataUrl: mimeType === 'image/jpeg' ? canvas.toDataURL(mimeType, 0.85) : canvas.toDataURL(mimeType), // Compress JPEG slightly
+        width,
+        height
+      });
+    }
+
+    return composed;
+  };
 
-      pdf.addImage(imgData, 'JPEG', 0, 0, width, height);
-      pdf.save(`filled_document_${Date.now()}.pdf`);
+  const handleDownloadFilledDoc = async () => {
+    if (!fileUrl) return;
+    setIsGeneratingDownload(true);
 
+    try {
+      const pages = await composePages(true, 'image/jpeg');
+      buildImagePdf(pages).save(`filled_document_${Date.now()}.pdf`);
     } catch (e) {
       console.error("Download generation failed", e);
       setSaveMessage({ type: 'error', text: 'Failed to generate PDF. Please try again.' });
@@ -217,6 +553,48 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
     }
   };
 
+  const handleDownloadRedacted = async (format: 'pdf' | 'png') => {
+    if (!fileUrl) return;
+    setIsGeneratingDownload(true);
+    setRedactionError(null);
+
+    try {
+      // PNG keeps the black boxes crisp; JPEG artifacts could hint at the covered text
+      const pages = await composePages(false, 'image/png');
+      const stamp = Date.now();
+      if (format === 'pdf') {
+        buildImagePdf(pages).save(`redacted_document_${stamp}.pdf`);
+      } else {
+        pages.forEach((page, idx) => {
+          const suffix = pages.length > 1 ? `_page${idx + 1}` : '';
+          downloadUrl(page.dataUrl, `redacted_document_${stamp}${suffix}.png`);
+        });
+      }
+    } catch (e) {
+      console.error("Redacted export failed", e);
+      setRedactionError('Failed to generate the redacted document. Please try again.');
+    } finally {
+      setIsGeneratingDownload(false);
+    }
+  };
+
+  const handleSaveAsTemplate = async () => {
+    const name = prompt("Template name", data.documentType || "Untitled template");
+    if (!name || !name.trim()) return;
+    setTemplateStatus('saving');
+    try {
+      await saveTemplate(createTemplateFromFields(name.trim(), data.documentType, fields));
+      setTemplateStatus('saved');
+    } catch (e) {
+      console.error("Saving template failed", e);
+      setTemplateStatus('error');
+    }
+  };
+
+  const toggleRedaction = (id: string) => {
+    setRedactedIds(prev => prev.includes(id) ? prev.filter(r => r !== id) : [...prev, id]);
+  };
+
   const getFieldIcon = (type: string) => {
     switch (type) {
       case 'email': return <Mail size={14} className="text-slate-400" />;
@@ -230,7 +608,7 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
   };
 
   return (
-    <div className="h-full flex flex-col bg-white rounded-xl shadow-neon border border-brand-100 overflow-hidden">
+    <div ref={rootRef} className="h-full flex flex-col bg-white rounded-xl shadow-neon border border-brand-100 overflow-hidden">
       {/* Hidden Canvas for Generation */}
       <canvas ref={canvasRef} className="hidden" />
 
@@ -239,19 +617,53 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
         <div>
           <h2 className="text-xl font-bold text-slate-900">{data.documentType || "Document Analysis"}</h2>
           <div className="flex items-center gap-2 mt-1">
-             <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${completionRate === 100 ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}>
-               {completionRate}% Complete
-             </span>
+             {isExtracting ? (
+               <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-brand-50 text-brand-700">
+                 <Loader2 size={12} className="animate-spin" /> Extracting
+               </span>
+             ) : (
+               <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${completionRate === 100 ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}>
+                 {completionRate}% Complete
+               </span>
+             )}
              {data.securityRisks.length > 0 && (
                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
                  {data.securityRisks.length} Security Risks
                </span>
              )}
+             {pendingReviewKeys.length > 0 && (
+               <button
+                 onClick={startReview}
+                 className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800 hover:bg-amber-200"
+                 title="Step through fields with low confidence"
+               >
+                 {pendingReviewKeys.length} Need Review
+               </button>
+             )}
+             {templateName && (
+               <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-800" title="Extraction was constrained by a saved template">
+                 <LayoutTemplate size={12} /> {templateName}
+               </span>
+             )}
           </div>
         </div>
         <div className="flex gap-2">
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            icon={<LayoutTemplate />} 
+            onClick={handleSaveAsTemplate} 
+            disabled={isExtracting || templateStatus === 'saving'}
+            title="Reuse this document's fields and layout for future uploads"
+          >
+            {templateStatus === 'saved' ? 'Template Saved' : templateStatus === 'error' ? 'Save Failed' : 'Save as Template'}
+          </Button>
           <Button variant="outline" size="sm" onClick={onReset}>New Scan</Button>
-          <Button variant="primary" size="sm" icon={<Download />} onClick={exportJSON}>Export Data</Button>
+          <ExportMenu 
+            onExport={handleExport} 
+            formats={fileUrl ? undefined : ['json', 'csv-document', 'csv-field', 'csv-item', 'xml']}
+            disabled={isExtracting || isGeneratingDownload}
+          />
         </div>
       </div>
 
@@ -273,6 +685,16 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
             <Edit3 size={16} /> Digital Form
           </div>
         </button>
+        {onAskQuestion && !isExtracting && (
+          <button
+            onClick={() => setActiveTab('ask')}
+            className={`flex-1 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'ask' ? 'border-brand-500 text-brand-700 bg-white' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+          >
+            <div className="flex items-center justify-center gap-2">
+              <MessageSquare size={16} /> Ask
+            </div>
+          </button>
+        )}
         <button
           onClick={() => setActiveTab('json')}
           className={`flex-1 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'json' ? 'border-brand-500 text-brand-700 bg-white' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
@@ -285,78 +707,269 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
 
       {/* Content Area */}
       <div className="flex-1 overflow-y-auto p-6 bg-slate-50/50">
+        {isExtracting && (
+          <div className="mb-6 flex items-center gap-3 bg-brand-50 border border-brand-100 text-brand-800 text-sm px-4 py-3 rounded-lg">
+            <Loader2 size={16} className="animate-spin flex-shrink-0" />
+            <span className="flex-1">
+              Still extracting… <span className="font-semibold">{fields.length} field{fields.length === 1 ? '' : 's'}</span> so far.
+              Editing, validation and exports become available once the analysis completes.
+            </span>
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="text-xs font-medium px-3 py-1.5 rounded-full border border-brand-200 bg-white text-brand-700 hover:bg-brand-100 transition-colors flex-shrink-0"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        )}
         
         {activeTab === 'overview' && (
           <div className="space-y-6 animate-fadeIn">
+            {/* Repairs made to malformed model output */}
+            {data.repairs && data.repairs.length > 0 && (
+              <details className="bg-slate-100 p-4 rounded-lg border border-slate-200 text-slate-700 text-sm">
+                <summary className="flex items-center gap-2 font-medium cursor-pointer">
+                  <AlertTriangle size={16} className="text-amber-500" />
+                  {data.repairs.length} issue(s) in the AI output were corrected automatically. Please double-check the affected fields.
+                </summary>
+                <ul className="mt-2 ml-6 list-disc space-y-1 text-xs text-slate-600">
+                  {data.repairs.map((repair, idx) => <li key={idx}>{repair}</li>)}
+                </ul>
+              </details>
+            )}
+
             <div className="bg-white p-5 rounded-lg border border-brand-100 shadow-neon">
               <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Executive Summary</h3>
-              <p className="text-slate-800 leading-relaxed">{data.summary}</p>
+              {data.summary ? (
+                <p className="text-slate-800 leading-relaxed">{data.summary}</p>
+              ) : (
+                <p className="text-sm text-slate-400 italic">The summary is still being written…</p>
+              )}
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-               {/* Action Items */}
-               <div className="bg-white p-5 rounded-lg border border-brand-100 shadow-neon">
-                 <h3 className="text-sm font-semibold text-blue-600 uppercase tracking-wider mb-3 flex items-center gap-2">
-                   <CheckCircle size={16} /> Action Items
-                 </h3>
-                 {data.actionableInsights.length > 0 ? (
-                   <ul className="space-y-2">
-                     {data.actionableInsights.map((item, idx) => (
-                       <li key={idx} className="flex items-start gap-2 text-sm text-slate-700">
-                         <span className="mt-1 w-1.5 h-1.5 rounded-full bg-blue-400 flex-shrink-0" />
-                         {item}
-                       </li>
-                     ))}
-                   </ul>
-                 ) : (
-                   <p className="text-sm text-slate-500 italic">No immediate actions detected.</p>
-                 )}
-               </div>
-
-               {/* Risks */}
-               <div className="bg-white p-5 rounded-lg border border-brand-100 shadow-neon">
-                 <h3 className="text-sm font-semibold text-red-600 uppercase tracking-wider mb-3 flex items-center gap-2">
-                   <ShieldAlert size={16} /> Security & PII
-                 </h3>
-                 {data.securityRisks.length > 0 ? (
-                   <ul className="space-y-2">
-                     {data.securityRisks.map((item, idx) => (
-                       <li key={idx} className="flex items-start gap-2 text-sm text-slate-700">
-                         <span className="mt-1 w-1.5 h-1.5 rounded-full bg-red-400 flex-shrink-0" />
-                         {item}
-                       </li>
-                     ))}
-                   </ul>
-                 ) : (
-                   <p className="text-sm text-slate-500 italic">No high-risk PII detected.</p>
-                 )}
-               </div>
-            </div>
+            {/* Action items, PII and checks need the complete analysis */}
+            {!isExtracting && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                   {/* Action Items */}
+                   <div className="bg-white p-5 rounded-lg border border-brand-100 shadow-neon">
+                     <h3 className="text-sm font-semibold text-blue-600 uppercase tracking-wider mb-3 flex items-center gap-2">
+                       <CheckCircle size={16} /> Action Items
+                     </h3>
+                     {data.actionableInsights.length > 0 ? (
+                       <ul className="space-y-2">
+                         {data.actionableInsights.map((item, idx) => (
+                           <li key={idx} className="flex items-start gap-2 text-sm text-slate-700">
+                             <span className="mt-1 w-1.5 h-1.5 rounded-full bg-blue-400 flex-shrink-0" />
+                             {item}
+                           </li>
+                         ))}
+                       </ul>
+                     ) : (
+                       <p className="text-sm text-slate-500 italic">No immediate actions detected.</p>
+                     )}
+                   </div>
 
-            {/* Missing Fields Summary */}
-            {data.missingFields.length > 0 && (
-              <div className="bg-amber-50 p-4 rounded-lg border border-amber-200 text-amber-900 shadow-sm">
-                <div className="flex items-center gap-2 font-medium mb-1">
-                  <AlertTriangle size={18} />
-                  Missing Information
+                   {/* Risks */}
+                   <div className="bg-white p-5 rounded-lg border border-brand-100 shadow-neon">
+                     <h3 className="text-sm font-semibold text-red-600 uppercase tracking-wider mb-3 flex items-center gap-2">
+                       <ShieldAlert size={16} /> Security & PII
+                     </h3>
+                     {data.securityRisks.length > 0 ? (
+                       <>
+                         <ul className="space-y-2">
+                           {data.securityRisks.map((finding) => {
+                             const linkedField = finding.fieldKey ? fields.find(f => f.key === finding.fieldKey) : undefined;
+                             return (
+                               <li key={finding.id} className="flex items-start gap-2 text-sm text-slate-700">
+                                 <input
+                                   type="checkbox"
+                                   checked={redactedIds.includes(finding.id)}
+                                   onChange={() => toggleRedaction(finding.id)}
+                                   className="mt-1 rounded border-slate-300 text-red-600 focus:ring-red-500"
+                                   title="Redact in exports"
+                                 />
+                                 <div className="flex-1 min-w-0">
+                                   <div className="flex items-center gap-1.5 flex-wrap">
+                                     <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${severityStyles[finding.severity]}`}>
+                                       {finding.severity}
+                                     </span>
+                                     <span className="text-[10px] uppercase tracking-wider text-slate-400">
+                                       {finding.category.replace(/_/g, ' ')}
+                                     </span>
+                                     {linkedField && (
+                                       <button
+                                         onClick={() => onActiveFieldChange?.(linkedField.key)}
+                                         className="text-[10px] text-brand-600 hover:underline"
+                                       >
+                                         {linkedField.label}
+                                       </button>
+                                     )}
+                                   </div>
+                                   <p className="mt-0.5">{finding.description}</p>
+                                 </div>
+                               </li>
+                             );
+                           })}
+                         </ul>
+                         {fileUrl && (
+                           <div className="mt-4 pt-3 border-t border-slate-100 flex items-center gap-2 flex-wrap">
+                             <span className="text-xs text-slate-500 mr-auto">{redactedIds.length} selected for redaction</span>
+                             <button
+                               onClick={() => handleDownloadRedacted('pdf')}
+                               disabled={isGeneratingDownload}
+                               className="text-xs flex items-center gap-1 px-2.5 py-1 rounded-full border border-red-200 bg-red-50 text-red-700 hover:bg-red-100 transition-colors disabled:opacity-50"
+                             >
+                               <EyeOff size={12} /> Redacted PDF
+                             </button>
+                             <button
+                               onClick={() => handleDownloadRedacted('png')}
+                               disabled={isGeneratingDownload}
+                               className="text-xs flex items-center gap-1 px-2.5 py-1 rounded-full border border-red-200 bg-red-50 text-red-700 hover:bg-red-100 transition-colors disabled:opacity-50"
+                             >
+                               <EyeOff size={12} /> Redacted PNG
+                             </button>
+                           </div>
+                         )}
+                         {redactionError && <p className="mt-2 text-xs text-red-600">{redactionError}</p>}
+                       </>
+                     ) : (
+                       <p className="text-sm text-slate-500 italic">No high-risk PII detected.</p>
+                     )}
+                   </div>
                 </div>
-                <p className="text-sm opacity-90">
-                  The following required fields appear to be empty: <span className="font-semibold">{data.missingFields.join(', ')}</span>.
-                  Please review the Digital Form tab to fill them.
-                </p>
-              </div>
+
+                {/* Cross-field business rules */}
+                {rules.length > 0 && (
+                  <div className="bg-white p-5 rounded-lg border border-brand-100 shadow-neon">
+                    <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+                      <ListChecks size={16} /> Business Rules
+                      <span className="ml-auto text-xs font-normal normal-case tracking-normal text-slate-400">
+                        {passingRuleCount} of {rules.length} passing
+                      </span>
+                    </h3>
+                    {uncheckedRules.length > 0 && (
+                      <ul className="space-y-2 mb-2">
+                        {uncheckedRules.map(({ rule, keys }) => (
+                          <li key={rule.id} className="flex items-start gap-2 text-sm text-slate-500">
+                            <HelpCircle size={16} className="mt-0.5 text-slate-400 flex-shrink-0" />
+                            <p className="flex-1 min-w-0">
+                              <span className="font-medium text-slate-700">{rule.name}</span> is not checked: this document has no field{' '}
+                              {keys.map((key, idx) => (
+                                <React.Fragment key={key}>
+                                  {idx > 0 && ', '}
+                                  <code className="px-1 rounded bg-slate-100 text-slate-700">{key}</code>
+                                </React.Fragment>
+                              ))}.
+                            </p>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {ruleViolations.length > 0 ? (
+                      <ul className="space-y-2">
+                        {ruleViolations.map(violation => (
+                          <li key={violation.ruleId} className="flex items-start gap-2 text-sm text-slate-700">
+                            {violation.severity === 'error'
+                              ? <XCircle size={16} className="mt-0.5 text-red-500 flex-shrink-0" />
+                              : <AlertTriangle size={16} className="mt-0.5 text-amber-500 flex-shrink-0" />}
+                            <div className="flex-1 min-w-0">
+                              <p>{violation.message}</p>
+                              <div className="flex items-center gap-1.5 flex-wrap">
+                                {violation.message !== violation.ruleName && (
+                                  <span className="text-[10px] uppercase tracking-wider text-slate-400">{violation.ruleName}</span>
+                                )}
+                                {violation.fieldKeys.map(key => (
+                                  <button
+                                    key={key}
+                                    onClick={() => onActiveFieldChange?.(key)}
+                                    className="text-[10px] text-brand-600 hover:underline"
+                                  >
+                                    {fields.find(f => f.key === key)?.label ?? key}
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : uncheckedRules.length === 0 && (
+                      <p className="text-sm text-slate-500 italic">All rules pass.</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Missing Fields Summary */}
+                {missingFields.length > 0 && (
+                  <div className="bg-amber-50 p-4 rounded-lg border border-amber-200 text-amber-900 shadow-sm">
+                    <div className="flex items-center gap-2 font-medium mb-1">
+                      <AlertTriangle size={18} />
+                      Missing Information
+                    </div>
+                    <p className="text-sm opacity-90">
+                      The following required fields appear to be empty: <span className="font-semibold">{missingFields.map(f => f.label).join(', ')}</span>.
+                      Please review the Digital Form tab to fill them.
+                    </p>
+                  </div>
+                )}
+
+                <AuditTrail log={auditLog} fields={fields} />
+              </>
             )}
           </div>
         )}
 
+        {activeTab === 'ask' && (
+          <DocumentChat
+            messages={conversation}
+            fields={fields}
+            activeKey={activeField?.key}
+            onAsk={handleAsk}
+            onCitationClick={(key) => onActiveFieldChange?.(key)}
+          />
+        )}
+
         {activeTab === 'form' && (
-          <div className="animate-fadeIn pb-10">
+          <fieldset disabled={isExtracting} className="animate-fadeIn pb-10 min-w-0">
             <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-2">
               <p className="text-sm text-slate-500">
                 Edit extracted values. Fields marked with <span className="text-red-500">*</span> are required.
               </p>
               <div className="flex gap-2">
-                 {imageUrl && (
+                 <label className="text-xs flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full border border-slate-200 bg-white text-slate-600" title="Locale used to read dates, amounts and phone numbers">
+                   <Globe size={14} />
+                   <select
+                     value={locale}
+                     onChange={(e) => setLocale(e.target.value)}
+                     className="bg-transparent text-xs py-1 pr-1 focus:outline-none cursor-pointer"
+                   >
+                     {!DOCUMENT_LOCALES.some(l => l.code === locale) && <option value={locale}>{locale}</option>}
+                     {DOCUMENT_LOCALES.map(l => (
+                       <option key={l.code} value={l.code}>{l.label}</option>
+                     ))}
+                   </select>
+                 </label>
+                 <div className="flex rounded-full border border-slate-200 bg-white overflow-hidden">
+                   <button
+                     onClick={handleUndo}
+                     disabled={undoStack.length === 0}
+                     className="px-2.5 py-1.5 text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:hover:bg-white"
+                     title="Undo (Ctrl+Z)"
+                   >
+                     <Undo2 size={14} />
+                   </button>
+                   <button
+                     onClick={handleRedo}
+                     disabled={redoStack.length === 0}
+                     className="px-2.5 py-1.5 text-slate-600 hover:bg-slate-50 border-l border-slate-200 disabled:opacity-40 disabled:hover:bg-white"
+                     title="Redo (Ctrl+Shift+Z)"
+                   >
+                     <Redo2 size={14} />
+                   </button>
+                 </div>
+                 {fileUrl && (
                    <button 
                      onClick={handleDownloadFilledDoc}
                      disabled={isGeneratingDownload}
@@ -378,23 +991,66 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
               </div>
             </div>
 
+            <ReviewBar
+              pendingCount={pendingReviewKeys.length}
+              threshold={reviewThreshold}
+              onThresholdChange={setReviewThreshold}
+              onStart={startReview}
+              session={reviewSession && currentReviewKey ? {
+                index: reviewSession.index,
+                total: reviewSession.keys.length,
+                label: fields.find(f => f.key === currentReviewKey)?.label ?? currentReviewKey,
+                onPrevious: () => moveReview(-1),
+                onNext: () => moveReview(1),
+                onConfirm: confirmReviewedField,
+                onExit: () => setReviewSession(null),
+              } : undefined}
+            />
+
             <div className="bg-white rounded-lg border border-brand-100 shadow-neon divide-y divide-slate-100">
-              {fields.map((field, idx) => {
+              {/* While reviewing, only the flagged fields are listed */}
+              {(reviewSession ? fields.filter(f => reviewSession.keys.includes(f.key)) : fields).map((field, idx) => {
                 const isMissing = field.required && field.status === 'empty';
                 const isSkipped = field.status === 'skipped';
+                const isActive = activeField?.key === field.key;
+                const error = (showAllErrors || touchedKeys.has(field.key)) ? fieldErrors[field.key] : undefined;
                 const Icon = getFieldIcon(field.type);
+                const isModified = isFieldModified(field);
+                const confidence = confidences[field.key];
+                const needsReview = pendingReviewKeys.includes(field.key);
+                const normalized = normalizeFieldValue(field, locale);
+                const violations = ruleViolations.filter(v => v.fieldKeys.includes(field.key));
                 
                 return (
-                  <div key={idx} className={`p-4 transition-colors ${isSkipped ? 'bg-slate-50 opacity-60' : 'hover:bg-slate-50'}`}>
+                  <div 
+                    key={idx} 
+                    ref={el => { fieldRowRefs.current[field.key] = el; }}
+                    onFocus={() => onActiveFieldChange?.(field.key)}
+                    className={`p-4 transition-colors ${isSkipped ? 'bg-slate-50 opacity-60' : 'hover:bg-slate-50'} ${isActive ? 'ring-2 ring-inset ring-brand-300 bg-brand-50/40' : ''}`}
+                  >
                     <div className="flex items-start justify-between mb-1.5">
                       <div className="flex items-center gap-1.5">
                          <label className="block text-xs font-semibold text-slate-600 uppercase tracking-wider">
                            {field.label} {field.required && <span className="text-red-500" title="Required">*</span>}
                          </label>
                          {Icon && <span className="text-slate-400">{Icon}</span>}
+                         {needsReview && !truthLens && (
+                           <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-amber-100 text-amber-700" title={confidence.reasons.join(' ') || 'Low AI confidence'}>
+                             Review
+                           </span>
+                         )}
                       </div>
 
                       <div className="flex items-center gap-2">
+                        {isModified && (
+                          <button
+                            onClick={() => handleRevertField(field.key)}
+                            className="text-[10px] uppercase font-bold px-2 py-0.5 rounded text-indigo-500 hover:bg-indigo-50 flex items-center gap-1 transition-colors"
+                            title="Revert to the value extracted by the AI"
+                          >
+                            <RotateCcw size={10} /> AI Value
+                          </button>
+                        )}
                         {/* Skip Button for Required Fields */}
                         {field.required && (
                           <button 
@@ -406,6 +1062,20 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
                           </button>
                         )}
                         
+                        {/* Confidence Badge */}
+                        {truthLens && (
+                           <span
+                             className={`text-[10px] px-1.5 py-0.5 rounded font-mono ${
+                               confidence.score >= reviewThreshold ? 'bg-green-100 text-green-700' :
+                               confidence.score >= 0.4 ? 'bg-amber-100 text-amber-700' :
+                               'bg-red-100 text-red-700'
+                             }`}
+                             title={confidence.reasons.length > 0 ? confidence.reasons.join(' ') : 'Confidence reported by the AI'}
+                           >
+                             {formatConfidence(confidence.score)}
+                           </span>
+                        )}
+
                         {/* Status Badge */}
                         {truthLens && (
                            <span className={`text-[10px] px-1.5 py-0.5 rounded ${
@@ -422,7 +1092,12 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
                     <div className="flex flex-col md:flex-row gap-3">
                        <div className="relative flex-1">
                          {/* Render specialized inputs based on type */}
-                         {(field.type === 'image' || field.type === 'signature') ? (
+                         {field.type === 'signature' && signingKey === field.key ? (
+                            <SignaturePad
+                              onApply={(dataUrl) => { handleFieldChange(field.key, dataUrl); setSigningKey(null); }}
+                              onCancel={() => setSigningKey(null)}
+                            />
+                         ) : (field.type === 'image' || field.type === 'signature') ? (
                             <div className={`mt-1 flex flex-col items-center justify-center p-4 border-2 border-dashed rounded-md transition-all 
                               ${field.value ? 'bg-white border-brand-300' : 'bg-slate-50 border-slate-300'}
                             `}>
@@ -440,7 +1115,18 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
                                ) : (
                                  <div className="space-y-1 text-center">
                                    <ImageIcon className="mx-auto h-8 w-8 text-slate-400" />
-                                   <div className="flex text-sm text-slate-600 justify-center">
+                                   <div className="flex items-center gap-3 text-sm text-slate-600 justify-center">
+                                     {field.type === 'signature' && (
+                                       <>
+                                         <button
+                                           onClick={() => setSigningKey(field.key)}
+                                           className="inline-flex items-center gap-1 font-medium text-brand-600 hover:text-brand-500"
+                                         >
+                                           <PenLine size={14} /> Draw signature
+                                         </button>
+                                         <span className="text-slate-300">or</span>
+                                       </>
+                                     )}
                                      <label className="relative cursor-pointer bg-white rounded-md font-medium text-brand-600 hover:text-brand-500 focus-within:outline-none">
                                        <span>Upload {field.type}</span>
                                        <input 
@@ -459,27 +1145,34 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
                             </div>
                          ) : field.type === 'checkbox' ? (
                             <div 
-                              className={`flex items-center gap-3 p-3 rounded-md border cursor-pointer transition-all
-                                ${field.value.toLowerCase() === 'true' || field.value.toLowerCase() === 'yes' || field.value.toLowerCase() === 'checked'
+                              tabIndex={0}
+                              className={`flex items-center gap-3 p-3 rounded-md border cursor-pointer transition-all focus:outline-none focus:ring-2 focus:ring-brand-500
+                                ${isCheckedValue(field.value)
                                   ? 'bg-brand-50 border-brand-200' 
                                   : 'bg-white border-slate-200 hover:bg-slate-50'}
                               `}
                               onClick={() => {
-                                const isChecked = field.value.toLowerCase() === 'true' || field.value.toLowerCase() === 'yes' || field.value.toLowerCase() === 'checked';
+                                const isChecked = isCheckedValue(field.value);
+                                handleFieldChange(field.key, isChecked ? 'false' : 'true');
+                              }}
+                              onKeyDown={(e) => {
+                                if (e.key !== ' ' && e.key !== 'Enter') return;
+                                e.preventDefault();
+                                const isChecked = isCheckedValue(field.value);
                                 handleFieldChange(field.key, isChecked ? 'false' : 'true');
                               }}
                             >
                                <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors 
-                                 ${(field.value.toLowerCase() === 'true' || field.value.toLowerCase() === 'yes' || field.value.toLowerCase() === 'checked')
+                                 ${isCheckedValue(field.value)
                                    ? 'bg-brand-500 border-brand-500' 
                                    : 'bg-white border-slate-300'}
                                `}>
-                                 {(field.value.toLowerCase() === 'true' || field.value.toLowerCase() === 'yes' || field.value.toLowerCase() === 'checked') && (
+                                 {isCheckedValue(field.value) && (
                                    <Check size={14} className="text-white" strokeWidth={3} />
                                  )}
                                </div>
                                <span className="text-sm font-medium text-slate-700 select-none">
-                                 {(field.value.toLowerCase() === 'true' || field.value.toLowerCase() === 'yes' || field.value.toLowerCase() === 'checked') ? 'Selected' : 'Unselected'}
+                                 {isCheckedValue(field.value) ? 'Selected' : 'Unselected'}
                                </span>
                             </div>
                          ) : field.type === 'text' && field.value.length > 60 ? (
@@ -490,7 +1183,9 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
                              placeholder={field.example ? `e.g. ${field.example}` : isMissing ? "Required" : ""}
                              disabled={isSkipped}
                              className={`block w-full rounded-md border shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm py-2 px-3 transition-all
-                               ${isMissing 
+                               ${error
+                                 ? 'border-red-300 bg-red-50 text-red-900 placeholder-red-300'
+                                 : isMissing 
                                  ? 'border-amber-300 bg-amber-50 text-amber-900 placeholder-amber-400' 
                                  : 'border-slate-200 bg-brand-50/30 focus:bg-white text-slate-800 placeholder-slate-400'
                                }
@@ -505,7 +1200,9 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
                              placeholder={field.example ? `e.g. ${field.example}` : isMissing ? "Required" : ""}
                              disabled={isSkipped}
                              className={`block w-full rounded-md border shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm py-2 px-3 transition-all
-                               ${isMissing 
+                               ${error
+                                 ? 'border-red-300 bg-red-50 text-red-900 placeholder-red-300'
+                                 : isMissing 
                                  ? 'border-amber-300 bg-amber-50 text-amber-900 placeholder-amber-400' 
                                  : 'border-slate-200 bg-brand-50/30 focus:bg-white text-slate-800 placeholder-slate-400'
                                }
@@ -517,13 +1214,43 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
                          {/* Validation Icon Overlay */}
                          {field.required && !isSkipped && field.type !== 'image' && field.type !== 'signature' && field.type !== 'checkbox' && (
                             <div className="absolute right-3 top-2.5 pointer-events-none">
-                               {field.status === 'filled' ? (
+                               {error ? (
+                                  <XCircle size={16} className="text-red-500" />
+                               ) : field.status === 'filled' ? (
                                   <CheckCircle size={16} className="text-green-500" />
                                ) : (
                                   <AlertTriangle size={16} className="text-amber-400" />
                                )}
                             </div>
                          )}
+
+                         {error && (
+                           <p className="mt-1 text-xs text-red-600 flex items-center gap-1 animate-fadeIn">
+                             <XCircle size={12} /> {error}
+                           </p>
+                         )}
+
+                         {violations.map(violation => (
+                           <p
+                             key={violation.ruleId}
+                             className={`mt-1 text-xs flex items-center gap-1 animate-fadeIn ${violation.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}
+                             title={`Business rule: ${violation.ruleName}`}
+                           >
+                             <ListChecks size={12} /> {violation.message}
+                           </p>
+                         ))}
+
+                         {normalized && formatNormalizedValue(normalized) !== field.value.trim() && (
+                           <p className="mt-1 text-xs text-slate-400 font-mono" title={`Normalized for export using ${locale}`}>
+                             → {formatNormalizedValue(normalized)}
+                           </p>
+                         )}
+
+                         {isModified && field.original && field.value !== field.original.value && !field.original.value.startsWith('data:') && (
+                           <p className="mt-1 text-xs text-slate-400 truncate" title={field.original.value}>
+                             AI extracted: {field.original.value || <span className="italic">empty</span>}
+                           </p>
+                         )}
                        </div>
 
                        {truthLens && field.explanation && (
@@ -536,6 +1263,20 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
                 );
               })}
             </div>
+
+            {/* Line-item tables; hidden while stepping through low-confidence fields */}
+            {!reviewSession && tables.map(table => (
+              <div key={table.id} className="mt-6">
+                <TableEditor
+                  table={table}
+                  locale={locale}
+                  onChange={(next) => setTables(prev => prev.map(t => t.id === next.id ? next : t))}
+                  activeKey={activeField?.key}
+                  onCellFocus={(key) => onActiveFieldChange?.(key)}
+                  registerCell={(key, el) => { fieldRowRefs.current[key] = el; }}
+                />
+              </div>
+            ))}
             
             <div className="mt-6 flex items-center justify-end gap-4 border-t border-slate-100 pt-4 bg-white p-4 sticky bottom-0 shadow-lg rounded-t-xl z-10">
               {saveMessage && (
@@ -550,18 +1291,17 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, imageUrl, onRe
               <Button 
                 variant="primary" 
                 onClick={handleSave} 
-                disabled={isSaving}
               >
-                {isSaving ? 'Validating...' : 'Save & Validate Form'}
+                Save & Validate Form
               </Button>
             </div>
-          </div>
+          </fieldset>
         )}
 
         {activeTab === 'json' && (
           <div className="relative h-full animate-fadeIn">
             <pre className="bg-slate-900 text-slate-200 p-4 rounded-lg text-xs font-mono overflow-auto h-[600px]">
-              {JSON.stringify({ ...data, fields }, null, 2)}
+              {JSON.stringify(exportData, null, 2)}
             </pre>
           </div>
         )}
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { History } from 'lucide-react';
+import { FieldData, FieldEdit, FieldEditAction } from '../types';
+
+interface AuditTrailProps {
+  log: FieldEdit[];
+  fields: FieldData[];
+}
+
+const actionLabels: Record<FieldEditAction, { label: string; className: string }> = {
+  edit: { label: 'Edited', className: 'bg-brand-100 text-brand-700' },
+  skip: { label: 'Skipped', className: 'bg-slate-200 text-slate-700' },
+  unskip: { label: 'Included', className: 'bg-slate-200 text-slate-700' },
+  revert: { label: 'Reverted', className: 'bg-indigo-100 text-indigo-700' },
+  undo: { label: 'Undo', className: 'bg-amber-100 text-amber-700' },
+  redo: { label: 'Redo', className: 'bg-amber-100 text-amber-700' },
+};
+
+// Entries shown before "Show all" is clicked
+const COLLAPSED_COUNT = 8;
+
+const displayValue = (value: string) => {
+  if (!value) return <span className="italic text-slate-400">empty</span>;
+  if (value.startsWith('data:')) return <span className="italic">image</span>;
+  return value;
+};
+
+export const AuditTrail: React.FC<AuditTrailProps> = ({ log, fields }) => {
+  const [showAll, setShowAll] = useState(false);
+  const entries = [...log].reverse();
+  const visible = showAll ? entries : entries.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="bg-white p-5 rounded-lg border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <History size={18} className="text-brand-600" /> Edit History
+        </h3>
+        <span className="text-xs text-slate-500">{log.length} change(s)</span>
+      </div>
+      {log.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">No changes yet. Every value shown is as extracted by the AI.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-slate-100">
+            {visible.map(entry => {
+              const action = actionLabels[entry.action];
+              const label = fields.find(f => f.key === entry.fieldKey)?.label ?? entry.fieldKey;
+              return (
+                <li key={entry.id} className="py-2 text-sm flex items-start gap-3">
+                  <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded shrink-0 ${action.className}`}>{action.label}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-slate-800 truncate">{label}</p>
+                    <p className="text-xs text-slate-500 break-words">
+                      {entry.previousValue !== entry.newValue ? (
+                        <>
+                          <span className="line-through">{displayValue(entry.previousValue)}</span>
+                          {' → '}
+                          <span className="text-slate-700">{displayValue(entry.newValue)}</span>
+                        </>
+                      ) : (
+                        <>Status {entry.previousStatus} → {entry.newStatus}</>
+                      )}
+                    </p>
+                  </div>
+                  <time className="text-[11px] text-slate-400 shrink-0" dateTime={new Date(entry.timestamp).toISOString()}>
+                    {new Date(entry.timestamp).toLocaleTimeString()}
+                  </time>
+                </li>
+              );
+            })}
+          </ul>
+          {entries.length > COLLAPSED_COUNT && (
+            <button onClick={() => setShowAll(!showAll)} className="mt-2 text-xs font-medium text-brand-600 hover:text-brand-700">
+              {showAll ? 'Show less' : `Show all ${entries.length}`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,312 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, X, Check, Trash2, Loader2, CameraOff, ImagePlus, Zap } from 'lucide-react';
+import { Button } from './Button';
+import { buildImagePdf, PdfPage } from '../services/exportService';
+import { createId } from '../services/id';
+import { detectDocumentQuad, isQuadSteady, Quad, warpPerspective } from '../services/scanService';
+import { validateUploadFile } from '../services/uploadService';
+import { UploadSettings } from '../types';
+
+interface CameraScannerProps {
+  onComplete: (file: File) => void;
+  // Used instead of the camera when none is available or access is denied
+  onFallbackFiles: (files: File[]) => void;
+  onClose: () => void;
+  uploadLimits: UploadSettings; // Applied to files chosen through the fallback
+}
+
+interface ScannedPage extends PdfPage {
+  id: string;
+}
+
+// Width of the downscaled frame used for edge detection
+const DETECTION_WIDTH = 320;
+const DETECTION_INTERVAL_MS = 150;
+// How long the page has to stay put before it is captured automatically
+const STEADY_DURATION_MS = 1200;
+const PAGE_MAX_DIMENSION = 2048;
+const PAGE_QUALITY = 0.85;
+const MAX_PAGES = 20;
+
+const cameraErrorMessage = (err: unknown) => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'Camera access was denied. Allow it in your browser settings, or choose photos instead.';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'No camera was found on this device.';
+  if (name === 'NotReadableError') return 'The camera is in use by another app.';
+  return 'The camera could not be started.';
+};
+
+export const CameraScanner: React.FC<CameraScannerProps> = ({ onComplete, onFallbackFiles, onClose, uploadLimits }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fallbackInputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<'starting' | 'ready' | 'unavailable'>('starting');
+  const [error, setError] = useState<string | null>(null);
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [isSteady, setIsSteady] = useState(false);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [pages, setPages] = useState<ScannedPage[]>([]);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isFinishing, setIsFinishing] = useState(false);
+  const [flash, setFlash] = useState(false);
+
+  // Detection runs outside React state, read by the loop on every tick
+  const quadRef = useRef<Quad | null>(null);
+  const steadySinceRef = useRef<number | null>(null);
+  // Cleared after a capture and set again once the page moves, so one page isn't captured twice
+  const armedRef = useRef(true);
+  const captureRef = useRef<() => void>(() => {});
+  const autoCaptureRef = useRef(autoCapture);
+  autoCaptureRef.current = autoCapture;
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setStatus('unavailable');
+      setError('This browser does not support camera access.');
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false,
+    })
+      .then(async media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = media;
+        await video.play();
+        setStatus('ready');
+      })
+      .catch(err => {
+        console.error("Failed to start camera", err);
+        if (cancelled) return;
+        setStatus('unavailable');
+        setError(cameraErrorMessage(err));
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  // Finds the page edges a few times per second on a downscaled frame
+  useEffect(() => {
+    if (status !== 'ready') return;
+    const video = videoRef.current;
+    if (!video) return;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+
+    const timer = window.setInterval(() => {
+      if (!video.videoWidth) return;
+      canvas.width = DETECTION_WIDTH;
+      canvas.height = Math.round((DETECTION_WIDTH * video.videoHeight) / video.videoWidth);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const detected = detectDocumentQuad(ctx.getImageData(0, 0, canvas.width, canvas.height));
+      const steady = isQuadSteady(quadRef.current, detected);
+      quadRef.current = detected;
+      setQuad(detected);
+
+      const now = Date.now();
+      if (!steady) {
+        steadySinceRef.current = detected ? now : null;
+        armedRef.current = true;
+        setIsSteady(false);
+        return;
+      }
+      const steadyFor = now - (steadySinceRef.current ?? now);
+      setIsSteady(steadyFor >= STEADY_DURATION_MS);
+      if (steadyFor >= STEADY_DURATION_MS && autoCaptureRef.current && armedRef.current) {
+        armedRef.current = false;
+        captureRef.current();
+      }
+    }, DETECTION_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [status]);
+
+  // Grabs a full resolution frame and flattens the detected page, or keeps the whole frame if none was found
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth || isCapturing || pages.length >= MAX_PAGES) return;
+    setIsCapturing(true);
+    setFlash(true);
+    window.setTimeout(() => setFlash(false), 150);
+    try {
+      const frame = document.createElement('canvas');
+      frame.width = video.videoWidth;
+      frame.height = video.videoHeight;
+      const ctx = frame.getContext('2d');
+      if (!ctx) throw new Error("Canvas 2D context is not available");
+      ctx.drawImage(video, 0, 0);
+      const detected = quadRef.current;
+      const page = detected ? warpPerspective(frame, detected, PAGE_MAX_DIMENSION) : frame;
+      setPages(prev => [...prev, {
+        id: createId(),
+        dataUrl: page.toDataURL('image/jpeg', PAGE_QUALITY),
+        width: page.width,
+        height: page.height,
+      }]);
+    } catch (err) {
+      console.error("Failed to capture page", err);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+  captureRef.current = capture;
+
+  // A single page is sent as an image, several pages as one PDF
+  const handleDone = async () => {
+    if (pages.length === 0) return;
+    setIsFinishing(true);
+    setError(null);
+    try {
+      const stamp = Date.now();
+      if (pages.length === 1) {
+        const blob = await (await fetch(pages[0].dataUrl)).blob();
+        onComplete(new File([blob], `scan_${stamp}.jpg`, { type: 'image/jpeg' }));
+      } else {
+        const blob = buildImagePdf(pages).output('blob');
+        onComplete(new File([blob], `scan_${stamp}.pdf`, { type: 'application/pdf' }));
+      }
+    } catch (err) {
+      console.error("Failed to assemble scanned pages", err);
+      setError('The scanned pages could not be combined. Please try again.');
+    } finally {
+      setIsFinishing(false);
+    }
+  };
+
+  const handleFallbackChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const valid = files.filter(file => validateUploadFile(file, uploadLimits) === null);
+    if (valid.length > 0) onFallbackFiles(valid);
+  };
+
+  const hint = !quad
+    ? 'Looking for page edges...'
+    : isSteady
+    ? (autoCapture && !armedRef.current ? 'Captured. Turn the page or move to the next one.' : 'Hold still...')
+    : 'Hold steady to capture';
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-950 flex flex-col animate-fadeIn">
+      <input
+        ref={fallbackInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        multiple
+        className="hidden"
+        onChange={handleFallbackChange}
+      />
+
+      <div className="px-4 py-3 flex items-center gap-3 text-white">
+        <Camera size={18} className="text-brand-400" />
+        <h2 className="font-semibold">Scan Document</h2>
+        <div className="flex-1" />
+        {status === 'ready' && (
+          <button
+            onClick={() => setAutoCapture(!autoCapture)}
+            className={`text-xs flex items-center gap-1 px-2.5 py-1 rounded-full border transition-colors
+              ${autoCapture ? 'border-brand-400 bg-brand-500/20 text-brand-200' : 'border-slate-600 text-slate-400'}
+            `}
+            title="Capture automatically when the page is steady"
+          >
+            <Zap size={12} /> Auto {autoCapture ? 'On' : 'Off'}
+          </button>
+        )}
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white transition-colors" title="Close">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center px-4">
+        {status === 'unavailable' ? (
+          <div className="max-w-sm text-center text-slate-300">
+            <CameraOff size={40} className="mx-auto mb-4 text-slate-500" />
+            <p className="mb-6">{error}</p>
+            <Button variant="primary" icon={<ImagePlus size={16} />} onClick={() => fallbackInputRef.current?.click()}>
+              Choose Photos Instead
+            </Button>
+          </div>
+        ) : (
+          // The wrapper hugs the video, so the outline's 0-1 coordinates line up with the frame
+          <div className="relative inline-block">
+            <video ref={videoRef} playsInline muted className="block max-w-full max-h-[calc(100dvh-10rem)] rounded-lg bg-slate-900" />
+            {status === 'starting' && (
+              <div className="absolute inset-0 flex items-center justify-center text-slate-400">
+                <Loader2 size={28} className="animate-spin" />
+              </div>
+            )}
+            {quad && (
+              <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                <polygon
+                  points={quad.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill={isSteady ? 'rgba(34, 197, 94, 0.18)' : 'rgba(56, 189, 248, 0.15)'}
+                  stroke={isSteady ? '#22c55e' : '#38bdf8'}
+                  strokeWidth={3}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </svg>
+            )}
+            {flash && <div className="absolute inset-0 bg-white/70 rounded-lg pointer-events-none" />}
+            {status === 'ready' && (
+              <div className="absolute bottom-3 left-1/2 -translate-x-1/2 bg-black/60 text-white text-xs px-3 py-1 rounded-full backdrop-blur-md whitespace-nowrap">
+                {hint}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {status !== 'unavailable' && error && (
+        <p className="px-4 text-center text-sm text-red-400">{error}</p>
+      )}
+
+      <div className="px-4 py-4 flex items-center gap-4">
+        <div className="flex-1 min-w-0 flex gap-2 overflow-x-auto">
+          {pages.map((page, idx) => (
+            <div key={page.id} className="relative shrink-0 group">
+              <img src={page.dataUrl} alt={`Page ${idx + 1}`} className="h-16 w-auto rounded border border-slate-700 bg-white" />
+              <span className="absolute bottom-0.5 left-0.5 text-[10px] px-1 rounded bg-black/70 text-white">{idx + 1}</span>
+              <button
+                onClick={() => setPages(prev => prev.filter(p => p.id !== page.id))}
+                className="absolute -top-1.5 -right-1.5 p-1 rounded-full bg-slate-800 text-slate-300 hover:text-red-400"
+                title="Remove page"
+              >
+                <Trash2 size={10} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {status === 'ready' && (
+          <button
+            onClick={capture}
+            disabled={isCapturing || pages.length >= MAX_PAGES}
+            className="w-16 h-16 shrink-0 rounded-full border-4 border-white bg-white/20 hover:bg-white/40 disabled:opacity-50 transition-colors"
+            title="Capture page"
+          />
+        )}
+
+        <div className="flex-1 flex justify-end">
+          <Button
+            variant="primary"
+            icon={isFinishing ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}
+            onClick={handleDone}
+            disabled={pages.length === 0 || isFinishing}
+          >
+            Analyze {pages.length > 0 ? `${pages.length} Page${pages.length === 1 ? '' : 's'}` : ''}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitCompare, X, ArrowLeftRight, Download, Loader2, ShieldAlert, AlertTriangle } from 'lucide-react';
+import { DocumentAnalysis, FieldChange, FieldDiff, UploadedFile } from '../types';
+import { listHistory } from '../services/historyService';
+import { diffAnalyses } from '../services/compareService';
+import { downloadText } from '../services/exportService';
+import { getDefaultRedactions, maskRedactedFields } from '../services/redactionService';
+import { DocumentPreview } from './DocumentPreview';
+import { Button } from './Button';
+
+// An analysis that can be picked for comparison, from the open queue or from history
+export interface CompareSource {
+  id: string;
+  name: string;
+  origin: 'queue' | 'history';
+  analysis: DocumentAnalysis; // With the current (edited) field values
+  file: Blob;
+  fileType: string;
+}
+
+interface CompareViewProps {
+  queueSources: CompareSource[];
+  onClose: () => void;
+}
+
+const changeStyles: Record<FieldChange, { label: string; badge: string; row: string }> = {
+  added: { label: 'Added', badge: 'bg-green-100 text-green-700', row: 'bg-green-50/60' },
+  removed: { label: 'Removed', badge: 'bg-red-100 text-red-700', row: 'bg-red-50/60' },
+  changed: { label: 'Changed', badge: 'bg-amber-100 text-amber-800', row: 'bg-amber-50/60' },
+  unchanged: { label: 'Same', badge: 'bg-slate-100 text-slate-500', row: '' },
+};
+
+const displayValue = (value?: string) => {
+  if (value === undefined) return <span className="text-slate-300">—</span>;
+  if (!value) return <span className="italic text-slate-400">empty</span>;
+  if (value.startsWith('data:')) return <span className="italic">image</span>;
+  return value;
+};
+
+// Object URL for a source's file, released when the selection changes
+const usePreviewFile = (source?: CompareSource): UploadedFile | null => {
+  const [file, setFile] = useState<UploadedFile | null>(null);
+  useEffect(() => {
+    if (!source) {
+      setFile(null);
+      return;
+    }
+    const url = URL.createObjectURL(source.file);
+    setFile({ name: source.name, type: source.fileType, url, base64: '' });
+    return () => URL.revokeObjectURL(url);
+  }, [source?.id, source?.origin]);
+  return file;
+};
+
+const sourceValue = (source: CompareSource) => `${source.origin}:${source.id}`;
+
+export const CompareView: React.FC<CompareViewProps> = ({ queueSources, onClose }) => {
+  const [historySources, setHistorySources] = useState<CompareSource[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [beforeValue, setBeforeValue] = useState('');
+  const [afterValue, setAfterValue] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    listHistory()
+      .then(entries => setHistorySources(entries.map(entry => ({
+        id: entry.id,
+        name: entry.name,
+        origin: 'history' as const,
+        analysis: { ...entry.analysis, fields: entry.fields },
+        file: entry.file,
+        fileType: entry.fileType,
+      }))))
+      .catch(err => console.error("Failed to load history", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Documents open in the queue are listed once, with their in-memory edits
+  const sources = useMemo(() => {
+    const queueIds = new Set(queueSources.map(s => s.id));
+    return [...queueSources, ...historySources.filter(s => !queueIds.has(s.id))];
+  }, [queueSources, historySources]);
+
+  const before = sources.find(s => sourceValue(s) === beforeValue);
+  const after = sources.find(s => sourceValue(s) === afterValue);
+  const beforeFile = usePreviewFile(before);
+  const afterFile = usePreviewFile(after);
+
+  const diff = useMemo(
+    () => before && after ? diffAnalyses(before.analysis, after.analysis) : null,
+    [before, after]
+  );
+  const counts = useMemo(() => {
+    const result: Record<FieldChange, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+    diff?.fields.forEach(f => { result[f.change]++; });
+    return result;
+  }, [diff]);
+
+  const selectedDiff = diff?.fields.find(f => f.key === selectedKey);
+  // Previews only outline fields that differ, so the changes stand out
+  const changedFields = (side: 'before' | 'after') =>
+    (diff?.fields ?? [])
+      .filter(f => f.change !== 'unchanged' || f.key === selectedKey)
+      .map(f => f[side])
+      .filter((f): f is NonNullable<FieldDiff['before']> => !!f);
+
+  const handleSwap = () => {
+    setBeforeValue(afterValue);
+    setAfterValue(beforeValue);
+  };
+
+  // Values of findings that are redacted by default are masked in the exported diff
+  const handleExport = () => {
+    if (!before || !after) return;
+    const masked = (analysis: DocumentAnalysis): DocumentAnalysis => ({
+      ...analysis,
+      fields: maskRedactedFields(analysis.fields, analysis.securityRisks, getDefaultRedactions(analysis.securityRisks))
+    });
+    const report = {
+      generatedAt: new Date().toISOString(),
+      before: { name: before.name, documentType: before.analysis.documentType },
+      after: { name: after.name, documentType: after.analysis.documentType },
+      summary: counts,
+      ...diffAnalyses(masked(before.analysis), masked(after.analysis)),
+    };
+    downloadText(JSON.stringify(report, null, 2), "application/json", `docusight_diff_${Date.now()}.json`);
+  };
+
+  const renderSelect = (value: string, onChange: (value: string) => void, label: string) => (
+    <label className="flex-1 min-w-0 text-xs font-semibold text-slate-500 uppercase tracking-wider">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => { onChange(e.target.value); setSelectedKey(null); }}
+        className="mt-1 block w-full rounded-md border border-slate-200 text-sm py-1.5 px-2 normal-case tracking-normal font-normal text-slate-800 focus:border-brand-500 focus:ring-brand-500"
+      >
+        <option value="">Select a document…</option>
+        {queueSources.length > 0 && (
+          <optgroup label="Open documents">
+            {queueSources.map(s => <option key={sourceValue(s)} value={sourceValue(s)}>{s.name} · {s.analysis.documentType}</option>)}
+          </optgroup>
+        )}
+        {sources.some(s => s.origin === 'history') && (
+          <optgroup label="History">
+            {sources.filter(s => s.origin === 'history').map(s => (
+              <option key={sourceValue(s)} value={sourceValue(s)}>{s.name} · {s.analysis.documentType}</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-50 flex flex-col animate-fadeIn">
+      <div className="px-6 py-4 bg-white border-b border-slate-200 flex items-end gap-4">
+        <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2 self-center shrink-0">
+          <GitCompare size={18} className="text-brand-600" /> Compare Versions
+        </h2>
+        {renderSelect(beforeValue, setBeforeValue, 'Original')}
+        <button onClick={handleSwap} className="p-2 mb-0.5 text-slate-400 hover:text-slate-700" title="Swap">
+          <ArrowLeftRight size={16} />
+        </button>
+        {renderSelect(afterValue, setAfterValue, 'Revised')}
+        <Button variant="primary" size="sm" icon={<Download />} onClick={handleExport} disabled={!diff}>Export Diff</Button>
+        <button onClick={onClose} className="p-1.5 mb-0.5 text-slate-400 hover:text-slate-700 transition-colors" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center text-slate-400">
+          <Loader2 size={24} className="animate-spin" />
+        </div>
+      ) : !diff || !before || !after ? (
+        <p className="p-8 text-sm text-slate-500 italic text-center">
+          {sources.length < 2
+            ? 'Analyze or open at least two documents to compare them.'
+            : 'Pick the original and the revised document to see what changed.'}
+        </p>
+      ) : (
+        <div className="flex-1 min-h-0 grid grid-rows-2 lg:grid-rows-1 lg:grid-cols-2">
+          {/* Side-by-side previews */}
+          <div className="min-h-0 grid grid-cols-2 border-r border-slate-200 bg-slate-100">
+            {[{ file: beforeFile, side: 'before' as const }, { file: afterFile, side: 'after' as const }].map(({ file, side }) => (
+              <div key={side} className="min-h-0 overflow-auto p-4 flex justify-center border-r border-slate-200 last:border-r-0">
+                {file && (
+                  <DocumentPreview
+                    file={file}
+                    fields={changedFields(side)}
+                    activeField={selectedDiff?.[side] ? { key: selectedDiff[side]!.key, source: 'form' } : null}
+                    onFieldSelect={(key) => {
+                      const match = diff.fields.find(f => f[side]?.key === key);
+                      if (match) setSelectedKey(match.key);
+                    }}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Field diff */}
+          <div className="min-h-0 overflow-y-auto p-6 space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {(['changed', 'added', 'removed'] as FieldChange[]).map(change => (
+                <span key={change} className={`px-2 py-0.5 rounded font-medium ${changeStyles[change].badge}`}>
+                  {counts[change]} {changeStyles[change].label}
+                </span>
+              ))}
+              {diff.documentTypeChanged && (
+                <span className="px-2 py-0.5 rounded font-medium bg-indigo-100 text-indigo-700">
+                  Type: {before.analysis.documentType} → {after.analysis.documentType}
+                </span>
+              )}
+              <label className="ml-auto flex items-center gap-1.5 text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={showUnchanged}
+                  onChange={(e) => setShowUnchanged(e.target.checked)}
+                  className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                />
+                Show unchanged ({counts.unchanged})
+              </label>
+            </div>
+
+            {(diff.missingFields.added.length > 0 || diff.missingFields.removed.length > 0) && (
+              <div className="bg-amber-50 p-3 rounded-lg border border-amber-200 text-sm text-amber-900">
+                <p className="font-medium flex items-center gap-2 mb-1"><AlertTriangle size={16} /> Missing Fields</p>
+                {diff.missingFields.added.length > 0 && <p>Now missing: <span className="font-semibold">{diff.missingFields.added.join(', ')}</span></p>}
+                {diff.missingFields.removed.length > 0 && <p>No longer missing: <span className="font-semibold">{diff.missingFields.removed.join(', ')}</span></p>}
+              </div>
+            )}
+
+            {(diff.securityRisks.added.length > 0 || diff.securityRisks.removed.length > 0) && (
+              <div className="bg-red-50 p-3 rounded-lg border border-red-200 text-sm text-red-900">
+                <p className="font-medium flex items-center gap-2 mb-1"><ShieldAlert size={16} /> Security Risks</p>
+                <ul className="space-y-0.5">
+                  {diff.securityRisks.added.map(r => <li key={`a-${r.id}`}><span className="font-semibold">+ New:</span> {r.description}</li>)}
+                  {diff.securityRisks.removed.map(r => <li key={`r-${r.id}`}><span className="font-semibold">− Resolved:</span> {r.description}</li>)}
+                </ul>
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+              <table className="w-full text-sm table-fixed">
+                <thead className="bg-slate-50 text-xs text-slate-500 uppercase tracking-wider">
+                  <tr>
+                    <th className="text-left font-semibold px-3 py-2 w-1/4">Field</th>
+                    <th className="text-left font-semibold px-3 py-2">Original</th>
+                    <th className="text-left font-semibold px-3 py-2">Revised</th>
+                    <th className="px-3 py-2 w-24"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {diff.fields.filter(f => showUnchanged || f.change !== 'unchanged').map(f => (
+                    <tr
+                      key={`${f.change}-${f.key}`}
+                      onClick={() => setSelectedKey(f.key)}
+                      className={`cursor-pointer align-top ${changeStyles[f.change].row} ${selectedKey === f.key ? 'ring-2 ring-inset ring-brand-300' : 'hover:bg-slate-50'}`}
+                    >
+                      <td className="px-3 py-2 font-medium text-slate-800 break-words">{f.label}</td>
+                      <td className={`px-3 py-2 break-words ${f.changedProperties.includes('value') ? 'text-red-700 line-through decoration-red-300' : 'text-slate-600'}`}>
+                        {displayValue(f.before?.value)}
+                      </td>
+                      <td className={`px-3 py-2 break-words ${f.changedProperties.includes('value') ? 'text-green-700 font-medium' : 'text-slate-600'}`}>
+                        {displayValue(f.after?.value)}
+                        {f.changedProperties.filter(p => p !== 'value').map(prop => (
+                          <span key={prop} className="block text-[11px] text-slate-500 font-normal">
+                            {prop}: {String(f.before?.[prop])} → {String(f.after?.[prop])}
+                          </span>
+                        ))}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${changeStyles[f.change].badge}`}>
+                          {changeStyles[f.change].label}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {counts.changed + counts.added + counts.removed === 0 && !showUnchanged && (
+                <p className="p-4 text-sm text-slate-500 italic">No field differences between these versions.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, Loader2, MessageSquare, Sparkles } from 'lucide-react';
+import { ChatMessage, FieldData } from '../types';
+import { splitCitations } from '../services/chatService';
+
+interface DocumentChatProps {
+  messages: ChatMessage[];
+  fields: FieldData[];
+  activeKey?: string;
+  onAsk: (question: string) => Promise<void>;
+  onCitationClick: (key: string) => void;
+}
+
+const SUGGESTED_QUESTIONS = ['What is this document for?', 'What still needs to be filled in?', 'Who are the parties involved?'];
+
+export const DocumentChat: React.FC<DocumentChatProps> = ({ messages, fields, activeKey, onAsk, onCitationClick }) => {
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [messages.length, isAsking]);
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isAsking) return;
+    setQuestion('');
+    setIsAsking(true);
+    try {
+      await onAsk(trimmed);
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const renderCitation = (key: string, idx: number) => {
+    const field = fields.find(f => f.key === key);
+    if (!field) return <React.Fragment key={idx}>[{key}]</React.Fragment>;
+    return (
+      <button
+        key={idx}
+        onClick={() => onCitationClick(key)}
+        className={`inline-flex items-center mx-0.5 px-1.5 py-px rounded text-[11px] font-medium align-baseline transition-colors
+          ${activeKey === key ? 'bg-brand-600 text-white' : 'bg-brand-100 text-brand-700 hover:bg-brand-200'}
+        `}
+        title={`Show "${field.label}" on the document`}
+      >
+        {field.label}
+      </button>
+    );
+  };
+
+  const renderText = (text: string) =>
+    splitCitations(text).map((part, idx) => idx % 2 === 1 ? renderCitation(part, idx) : <React.Fragment key={idx}>{part}</React.Fragment>);
+
+  return (
+    <div className="flex flex-col h-full min-h-[24rem] bg-white rounded-lg border border-slate-200 shadow-sm animate-fadeIn">
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {messages.length === 0 && (
+          <div className="text-center py-8">
+            <MessageSquare size={28} className="mx-auto text-slate-300 mb-2" />
+            <p className="text-sm text-slate-500 mb-4">Ask anything about this document. Answers link to the fields they come from.</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {SUGGESTED_QUESTIONS.map(q => (
+                <button
+                  key={q}
+                  onClick={() => ask(q)}
+                  className="text-xs px-3 py-1.5 rounded-full border border-slate-200 text-slate-600 hover:bg-slate-50 hover:border-brand-200"
+                >
+                  {q}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map(message => (
+          <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm leading-relaxed
+              ${message.role === 'user'
+                ? 'bg-brand-600 text-white'
+                : message.error
+                ? 'bg-red-50 text-red-700 border border-red-100'
+                : 'bg-slate-100 text-slate-800'}
+            `}>
+              {message.role === 'assistant' && !message.error && (
+                <Sparkles size={12} className="inline mr-1 -mt-0.5 text-brand-500" />
+              )}
+              {message.role === 'assistant' ? renderText(message.text) : message.text}
+              {message.role === 'assistant' && message.citations && message.citations.length > 0 && (
+                <div className="mt-1.5 pt-1.5 border-t border-slate-200 text-[11px] text-slate-500">
+                  Sources: {message.citations.map((key, idx) => renderCitation(key, idx))}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {isAsking && (
+          <div className="flex justify-start">
+            <div className="rounded-lg px-3 py-2 bg-slate-100 text-slate-500 text-sm flex items-center gap-2">
+              <Loader2 size={14} className="animate-spin" /> Thinking...
+            </div>
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); ask(question); }}
+        className="border-t border-slate-100 p-3 flex items-center gap-2"
+      >
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="e.g. What's the due date?"
+          className="flex-1 rounded-md border border-slate-200 text-sm py-2 px-3 focus:border-brand-500 focus:ring-brand-500"
+          disabled={isAsking}
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || isAsking}
+          className="p-2 rounded-md bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-50 transition-colors"
+          title="Ask"
+        >
+          <Send size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
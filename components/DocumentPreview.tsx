@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { ActiveField, FieldData, PiiFinding, UploadedFile } from '../types';
+import { loadDocumentPages, RenderedPage } from '../services/pdfService';
+import { getRedactionRegions } from '../services/redactionService';
+
+interface DocumentPreviewProps {
+  file: UploadedFile;
+  fields: FieldData[];
+  activeField?: ActiveField | null;
+  onFieldSelect?: (key: string) => void;
+  piiFindings?: PiiFinding[];
+  redactedIds?: string[];
+}
+
+const statusStyles: Record<FieldData['status'], string> = {
+  filled: 'border-green-500 bg-green-500/10 hover:bg-green-500/20',
+  uncertain: 'border-amber-500 bg-amber-400/15 hover:bg-amber-400/25',
+  empty: 'border-red-500 bg-red-500/10 hover:bg-red-500/20',
+  skipped: 'border-slate-400 border-dashed bg-slate-400/10 hover:bg-slate-400/20',
+};
+
+export const DocumentPreview: React.FC<DocumentPreviewProps> = ({ 
+  file, 
+  fields, 
+  activeField, 
+  onFieldSelect, 
+  piiFindings = [], 
+  redactedIds = [] 
+}) => {
+  const [pages, setPages] = useState<RenderedPage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const boxRefs = useRef<Record<string, HTMLButtonElement | null>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    loadDocumentPages(file.url, file.type)
+      .then(result => {
+        if (!cancelled) setPages(result);
+      })
+      .catch(err => {
+        console.error("Preview rendering failed", err);
+        if (!cancelled) setError("Could not render a preview for this document.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [file.url, file.type]);
+
+  // Follow focus changes made in the form so the matching box is visible
+  useEffect(() => {
+    if (activeField?.source !== 'form') return;
+    boxRefs.current[activeField.key]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeField]);
+
+  // Every finding is located; only the selected ones are drawn as redacted
+  const piiRegions = getRedactionRegions(piiFindings, fields, piiFindings.map(f => f.id));
+
+  if (isLoading) {
+    return (
+      <div className="text-center text-slate-500">
+        <Loader2 size={32} className="animate-spin mx-auto mb-3 text-brand-500" />
+        <p className="text-sm font-medium">Rendering preview...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center">
+        <FileText size={64} className="text-slate-400 mx-auto mb-4" />
+        <p className="text-slate-500 font-medium">{file.name}</p>
+        <p className="text-xs text-slate-400 mt-1">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full flex flex-col items-center gap-6">
+      {pages.map(page => (
+        <div key={page.pageNumber} className="w-full flex flex-col items-center">
+          {pages.length > 1 && (
+            <span className="text-[10px] uppercase tracking-wider font-semibold text-slate-400 mb-2">
+              Page {page.pageNumber} of {pages.length}
+            </span>
+          )}
+          <div className="relative inline-block max-w-full shadow-2xl rounded-sm ring-1 ring-black/10">
+            <img
+              src={page.dataUrl}
+              alt={`Page ${page.pageNumber}`}
+              className="block max-w-full h-auto"
+            />
+            {/* Field overlays, positioned in percentages so they scale with the image */}
+            {fields
+              .filter(f => f.boundingBox && f.page === page.pageNumber)
+              .map(field => {
+                const [ymin, xmin, ymax, xmax] = field.boundingBox!;
+                const isActive = activeField?.key === field.key;
+                return (
+                  <button
+                    key={field.key}
+                    ref={el => { boxRefs.current[field.key] = el; }}
+                    type="button"
+                    onClick={() => onFieldSelect?.(field.key)}
+                    className={`absolute border-2 rounded-sm transition-all cursor-pointer focus:outline-none
+                      ${statusStyles[field.status]}
+                      ${isActive ? 'ring-4 ring-brand-400/60 z-10 scale-[1.03]' : ''}
+                    `}
+                    style={{
+                      top: `${ymin * 100}%`,
+                      left: `${xmin * 100}%`,
+                      height: `${(ymax - ymin) * 100}%`,
+                      width: `${(xmax - xmin) * 100}%`,
+                    }}
+                    title={`${field.label} (${field.status})`}
+                  />
+                );
+              })}
+            {/* PII markers: redacted regions are blacked out, the rest are outlined */}
+            {piiRegions
+              .filter(region => region.page === page.pageNumber)
+              .map(region => {
+                const [ymin, xmin, ymax, xmax] = region.boundingBox;
+                const isRedacted = redactedIds.includes(region.findingId);
+                return (
+                  <div
+                    key={region.findingId}
+                    className={`absolute z-20 pointer-events-none rounded-sm ${isRedacted ? 'bg-black/85' : 'border-2 border-dashed border-red-600 bg-red-600/10'}`}
+                    style={{
+                      top: `${ymin * 100}%`,
+                      left: `${xmin * 100}%`,
+                      height: `${(ymax - ymin) * 100}%`,
+                      width: `${(xmax - xmin) * 100}%`,
+                    }}
+                  />
+                );
+              })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
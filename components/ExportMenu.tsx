@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, ChevronDown, FileBraces, FileSpreadsheet, FileCode, FileInput, Sheet } from 'lucide-react';
+import { Button } from './Button';
+
+export type ExportFormat = 'json' | 'csv-document' | 'csv-field' | 'csv-item' | 'xml' | 'pdf-fillable';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  // Formats that need the original file (e.g. PDFs) are hidden when it is unavailable
+  formats?: ExportFormat[];
+  disabled?: boolean;
+  label?: string;
+  variant?: 'primary' | 'outline';
+  align?: 'left' | 'right';
+}
+
+const OPTIONS: { format: ExportFormat; label: string; description: string; icon: React.ReactNode }[] = [
+  { format: 'json', label: 'JSON', description: 'Full analysis data', icon: <FileBraces size={16} /> },
+  { format: 'csv-document', label: 'CSV (one row per document)', description: 'A column per field', icon: <FileSpreadsheet size={16} /> },
+  { format: 'csv-field', label: 'CSV (one row per field)', description: 'Key, label, value, status', icon: <FileSpreadsheet size={16} /> },
+  { format: 'csv-item', label: 'CSV (one row per line item)', description: 'Rows of extracted tables', icon: <Sheet size={16} /> },
+  { format: 'xml', label: 'XML', description: 'Structured document export', icon: <FileCode size={16} /> },
+  { format: 'pdf-fillable', label: 'Fillable PDF', description: 'Editable form fields in any PDF reader', icon: <FileInput size={16} /> },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  onExport,
+  formats = OPTIONS.map(o => o.format),
+  disabled,
+  label = 'Export',
+  variant = 'primary',
+  align = 'right'
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        variant={variant}
+        size="sm"
+        icon={<Download />}
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        {label} <ChevronDown size={14} className="ml-1" />
+      </Button>
+
+      {isOpen && (
+        <div role="menu" className={`absolute ${align === 'left' ? 'left-0' : 'right-0'} mt-2 w-64 bg-white rounded-lg shadow-lg border border-slate-200 py-1 z-30 animate-fadeIn`}>
+          {OPTIONS.filter(o => formats.includes(o.format)).map(option => (
+            <button
+              key={option.format}
+              role="menuitem"
+              onClick={() => { setIsOpen(false); onExport(option.format); }}
+              className="w-full flex items-start gap-3 px-3 py-2 text-left hover:bg-slate-50 transition-colors"
+            >
+              <span className="mt-0.5 text-brand-600">{option.icon}</span>
+              <span>
+                <span className="block text-sm font-medium text-slate-800">{option.label}</span>
+                <span className="block text-xs text-slate-500">{option.description}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
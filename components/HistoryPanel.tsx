@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Search, X, Pencil, Trash2, FolderOpen, Check, Loader2 } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { deleteHistoryEntry, listHistory, renameHistoryEntry } from '../services/historyService';
+
+interface HistoryPanelProps {
+  onOpen: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ onOpen, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = async () => {
+    try {
+      setEntries(await listHistory());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load history", err);
+      setError("Could not load saved documents from this browser.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return entries;
+    return entries.filter(entry =>
+      entry.name.toLowerCase().includes(q) ||
+      entry.fileName.toLowerCase().includes(q) ||
+      entry.analysis.documentType.toLowerCase().includes(q) ||
+      entry.analysis.summary.toLowerCase().includes(q)
+    );
+  }, [entries, query]);
+
+  const startRename = (entry: HistoryEntry) => {
+    setRenamingId(entry.id);
+    setRenameValue(entry.name);
+  };
+
+  const commitRename = async () => {
+    if (!renamingId) return;
+    const name = renameValue.trim();
+    if (name) {
+      await renameHistoryEntry(renamingId, name);
+      await refresh();
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!confirm(`Delete "${entry.name}" from history? This cannot be undone.`)) return;
+    await deleteHistoryEntry(entry.id);
+    await refresh();
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex">
+      <div className="w-full max-w-md h-full bg-white shadow-2xl border-r border-slate-200 flex flex-col animate-fadeIn">
+        <div className="px-5 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <History size={18} className="text-brand-600" /> History
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-5 py-3 border-b border-slate-100">
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, type or summary"
+              className="block w-full rounded-md border border-slate-200 bg-slate-50 focus:bg-white focus:border-brand-500 focus:ring-brand-500 text-sm py-2 pl-8 pr-3"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="p-8 text-center text-slate-400">
+              <Loader2 size={24} className="animate-spin mx-auto" />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-sm text-red-600">{error}</p>
+          ) : filtered.length === 0 ? (
+            <p className="p-6 text-sm text-slate-500 italic">
+              {entries.length === 0 ? "Analyzed documents will appear here." : "No documents match your search."}
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {filtered.map(entry => (
+                <li key={entry.id} className="px-5 py-3 hover:bg-slate-50 group">
+                  {renamingId === entry.id ? (
+                    <form
+                      onSubmit={(e) => { e.preventDefault(); commitRename(); }}
+                      className="flex items-center gap-2"
+                    >
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Escape') setRenamingId(null); }}
+                        className="flex-1 rounded-md border border-brand-300 text-sm py-1 px-2 focus:ring-brand-500 focus:border-brand-500"
+                      />
+                      <button type="submit" className="p-1 text-green-600 hover:text-green-700" title="Save name">
+                        <Check size={16} />
+                      </button>
+                    </form>
+                  ) : (
+                    <div className="flex items-start gap-3">
+                      <button onClick={() => onOpen(entry)} className="flex-1 min-w-0 text-left">
+                        <p className="text-sm font-medium text-slate-900 truncate">{entry.name}</p>
+                        <p className="text-xs text-slate-500 truncate">{entry.analysis.documentType}</p>
+                        <p className="text-[11px] text-slate-400 mt-0.5">
+                          Edited {new Date(entry.updatedAt).toLocaleString()}
+                        </p>
+                      </button>
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => onOpen(entry)} className="p-1 text-slate-400 hover:text-brand-600" title="Open">
+                          <FolderOpen size={14} />
+                        </button>
+                        <button onClick={() => startRename(entry)} className="p-1 text-slate-400 hover:text-slate-700" title="Rename">
+                          <Pencil size={14} />
+                        </button>
+                        <button onClick={() => handleDelete(entry)} className="p-1 text-slate-400 hover:text-red-600" title="Delete">
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+      <div className="flex-1 bg-slate-900/30 backdrop-blur-[1px]" onClick={onClose} />
+    </div>
+  );
+};
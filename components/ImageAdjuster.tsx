@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw, RotateCw, Crop, Wand2, Check, X, Loader2 } from 'lucide-react';
+import { Button } from './Button';
+import {
+  CropRect,
+  detectAdjustments,
+  ImageAdjustments,
+  loadImage,
+  PreprocessOptions,
+  renderAdjusted,
+  rotateCropRect
+} from '../services/preprocessService';
+
+interface ImageAdjusterProps {
+  file: File;
+  initial: ImageAdjustments;
+  options: PreprocessOptions;
+  onApply: (adjustments: ImageAdjustments) => void;
+  onCancel: () => void;
+}
+
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const PREVIEW_DIMENSION = 1000;
+const MIN_CROP = 0.05;
+const MAX_ANGLE = 15;
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+// Moves one corner (or the whole rectangle) by a normalized offset, keeping it inside the frame
+const dragCrop = (rect: CropRect, mode: DragMode, dx: number, dy: number): CropRect => {
+  if (mode === 'move') {
+    return { ...rect, x: clamp(rect.x + dx, 0, 1 - rect.width), y: clamp(rect.y + dy, 0, 1 - rect.height) };
+  }
+  let left = rect.x;
+  let top = rect.y;
+  let right = rect.x + rect.width;
+  let bottom = rect.y + rect.height;
+  if (mode === 'nw' || mode === 'sw') left = clamp(left + dx, 0, right - MIN_CROP);
+  if (mode === 'ne' || mode === 'se') right = clamp(right + dx, left + MIN_CROP, 1);
+  if (mode === 'nw' || mode === 'ne') top = clamp(top + dy, 0, bottom - MIN_CROP);
+  if (mode === 'sw' || mode === 'se') bottom = clamp(bottom + dy, top + MIN_CROP, 1);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const HANDLES: { mode: DragMode; className: string }[] = [
+  { mode: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { mode: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { mode: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { mode: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+];
+
+export const ImageAdjuster: React.FC<ImageAdjusterProps> = ({ file, initial, options, onApply, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; startX: number; startY: number; startRect: CropRect } | null>(null);
+  const [image, setImage] = useState<ImageBitmap | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(initial);
+
+  // The decoded image is kept while the editor is open so rotating doesn't decode it again
+  useEffect(() => {
+    let bitmap: ImageBitmap | null = null;
+    let cancelled = false;
+    loadImage(file)
+      .then(decoded => {
+        if (cancelled) return decoded.close();
+        bitmap = decoded;
+        setImage(decoded);
+      })
+      .catch(err => {
+        console.error("Failed to decode image", err);
+        setError("This image could not be opened for editing.");
+      });
+    return () => {
+      cancelled = true;
+      bitmap?.close();
+    };
+  }, [file]);
+
+  // The crop is drawn as an overlay, so the canvas always shows the whole rotated frame
+  useEffect(() => {
+    if (!image || !canvasRef.current) return;
+    renderAdjusted(image, { ...adjustments, crop: null }, PREVIEW_DIMENSION, '#ffffff', canvasRef.current);
+  }, [image, adjustments.quarterTurns, adjustments.angle]);
+
+  const rotate = (turns: number) => {
+    setAdjustments(prev => ({
+      ...prev,
+      quarterTurns: (((prev.quarterTurns + turns) % 4) + 4) % 4,
+      crop: rotateCropRect(prev.crop, turns)
+    }));
+  };
+
+  const handleAutoDetect = () => {
+    if (!image) return;
+    setAdjustments(detectAdjustments(image, { ...options, autoDeskew: true, autoCrop: true }, adjustments.quarterTurns));
+  };
+
+  const handlePointerDown = (mode: DragMode) => (e: React.PointerEvent) => {
+    if (e.button !== 0 || !adjustments.crop) return;
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startRect: adjustments.crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current?.getBoundingClientRect();
+    if (!drag || !frame) return;
+    const dx = (e.clientX - drag.startX) / frame.width;
+    const dy = (e.clientY - drag.startY) / frame.height;
+    setAdjustments(prev => ({ ...prev, crop: dragCrop(drag.startRect, drag.mode, dx, dy) }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const { crop } = adjustments;
+
+  return (
+    <div className="flex flex-col h-full min-h-0 animate-fadeIn">
+      <div className="flex flex-wrap items-center gap-2 pb-3">
+        <Button variant="outline" size="sm" icon={<RotateCcw size={14} />} onClick={() => rotate(-1)} disabled={!image}>Left</Button>
+        <Button variant="outline" size="sm" icon={<RotateCw size={14} />} onClick={() => rotate(1)} disabled={!image}>Right</Button>
+        <label className="flex items-center gap-2 text-xs text-slate-600 ml-2">
+          Straighten
+          <input
+            type="range"
+            min={-MAX_ANGLE}
+            max={MAX_ANGLE}
+            step={0.1}
+            value={adjustments.angle}
+            onChange={(e) => setAdjustments(prev => ({ ...prev, angle: Number(e.target.value) }))}
+            className="w-40 accent-brand-600"
+            disabled={!image}
+          />
+          <span className="w-12 font-mono text-right">{adjustments.angle.toFixed(1)}°</span>
+        </label>
+        <Button
+          variant="outline"
+          size="sm"
+          icon={<Crop size={14} />}
+          onClick={() => setAdjustments(prev => ({ ...prev, crop: prev.crop ? null : { x: 0.05, y: 0.05, width: 0.9, height: 0.9 } }))}
+          disabled={!image}
+        >
+          {crop ? 'Remove Crop' : 'Crop'}
+        </Button>
+        <Button variant="ghost" size="sm" icon={<Wand2 size={14} />} onClick={handleAutoDetect} disabled={!image}>Auto-detect</Button>
+        <div className="flex-1" />
+        <Button variant="outline" size="sm" icon={<X size={14} />} onClick={onCancel}>Cancel</Button>
+        <Button variant="primary" size="sm" icon={<Check size={14} />} onClick={() => onApply(adjustments)} disabled={!image}>Apply</Button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center bg-slate-200/60 rounded-lg p-4 overflow-hidden">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !image ? (
+          <Loader2 size={24} className="animate-spin text-slate-400" />
+        ) : (
+          <div
+            ref={frameRef}
+            className="relative inline-block select-none touch-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <canvas ref={canvasRef} className="block max-w-full max-h-[60vh] w-auto h-auto shadow-md" />
+            {crop && (
+              <div
+                className="absolute border-2 border-brand-500 cursor-move"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  // Dims everything outside the crop
+                  boxShadow: '0 0 0 9999px rgba(15, 23, 42, 0.45)'
+                }}
+                onPointerDown={handlePointerDown('move')}
+              >
+                {HANDLES.map(handle => (
+                  <div
+                    key={handle.mode}
+                    className={`absolute w-3 h-3 bg-white border-2 border-brand-600 rounded-sm ${handle.className}`}
+                    onPointerDown={handlePointerDown(handle.mode)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,296 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageIcon, X, Loader2, ScanLine, SlidersHorizontal, Check, AlertTriangle, Undo2 } from 'lucide-react';
+import { Button } from './Button';
+import { ImageAdjuster } from './ImageAdjuster';
+import { createId } from '../services/id';
+import {
+  getPreprocessOptions,
+  ImageAdjustments,
+  MAX_DIMENSION_OPTIONS,
+  PreprocessOptions,
+  PreprocessResult,
+  preprocessImage,
+  savePreprocessOptions
+} from '../services/preprocessService';
+import { formatBytes } from '../services/uploadService';
+
+interface PreprocessViewProps {
+  files: File[];
+  onConfirm: (files: File[]) => void;
+  onCancel: () => void;
+  maxUploadBytes: number; // Largest file that may be sent for analysis
+}
+
+interface PreprocessEntry {
+  id: string;
+  source: File;
+  originalUrl: string;
+  status: 'processing' | 'ready' | 'failed';
+  result?: PreprocessResult;
+  processedUrl?: string;
+  // Set once the user crops or rotates by hand; detection no longer overrides it
+  manual?: ImageAdjustments;
+  error?: string;
+}
+
+const OPTION_TOGGLES: { key: 'autoDeskew' | 'autoCrop' | 'enhanceContrast'; label: string }[] = [
+  { key: 'autoDeskew', label: 'Straighten' },
+  { key: 'autoCrop', label: 'Crop to page' },
+  { key: 'enhanceContrast', label: 'Boost contrast' },
+];
+
+/**
+ * Straightens, crops and downscales photos before they are queued for analysis,
+ * with a before/after comparison and manual crop and rotation per image.
+ */
+export const PreprocessView: React.FC<PreprocessViewProps> = ({ files, onConfirm, onCancel, maxUploadBytes }) => {
+  const [entries, setEntries] = useState<PreprocessEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [options, setOptions] = useState<PreprocessOptions>(() => getPreprocessOptions());
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
+
+  // Files can keep arriving while the view is open
+  useEffect(() => {
+    const known = new Set(entriesRef.current.map(entry => entry.source));
+    const added: PreprocessEntry[] = files.filter(file => !known.has(file)).map(source => ({
+      id: createId(),
+      source,
+      originalUrl: URL.createObjectURL(source),
+      status: 'processing',
+    }));
+    if (added.length === 0) return;
+    setEntries(prev => [...prev, ...added]);
+    setSelectedId(current => current ?? added[0].id);
+  }, [files]);
+
+  useEffect(() => () => {
+    for (const entry of entriesRef.current) {
+      URL.revokeObjectURL(entry.originalUrl);
+      if (entry.processedUrl) URL.revokeObjectURL(entry.processedUrl);
+    }
+  }, []);
+
+  // One image at a time, so a batch of large photos isn't decoded into memory all at once
+  const next = entries.find(entry => entry.status === 'processing');
+  useEffect(() => {
+    if (!next) return;
+    let cancelled = false;
+    const { id, source, manual } = next;
+    preprocessImage(source, options, manual)
+      .then(result => {
+        if (cancelled) return;
+        const processedUrl = URL.createObjectURL(result.file);
+        setEntries(prev => prev.map(e => {
+          if (e.id !== id) return e;
+          if (e.processedUrl) URL.revokeObjectURL(e.processedUrl);
+          return { ...e, status: 'ready', result, processedUrl, error: undefined };
+        }));
+      })
+      .catch(err => {
+        console.error(`Preprocessing failed for ${source.name}`, err);
+        if (cancelled) return;
+        setEntries(prev => prev.map(e => {
+          if (e.id !== id) return e;
+          if (e.processedUrl) URL.revokeObjectURL(e.processedUrl);
+          return { ...e, status: 'failed', result: undefined, processedUrl: undefined, error: 'Could not process this image; the original will be used.' };
+        }));
+      });
+    return () => { cancelled = true; };
+  }, [next?.id, next?.manual, options]);
+
+  const updateOptions = (patch: Partial<PreprocessOptions>) => {
+    const updated = { ...options, ...patch };
+    setOptions(updated);
+    savePreprocessOptions(updated);
+    setEntries(prev => prev.map(entry => ({ ...entry, status: 'processing' })));
+  };
+
+  const handleRemove = (id: string) => {
+    const entry = entries.find(e => e.id === id);
+    if (!entry) return;
+    URL.revokeObjectURL(entry.originalUrl);
+    if (entry.processedUrl) URL.revokeObjectURL(entry.processedUrl);
+    const remaining = entries.filter(e => e.id !== id);
+    if (remaining.length === 0) {
+      onCancel();
+      return;
+    }
+    setEntries(remaining);
+    if (selectedId === id) {
+      setSelectedId(remaining[0].id);
+      setIsAdjusting(false);
+    }
+  };
+
+  const handleApplyAdjustments = (adjustments: ImageAdjustments) => {
+    setEntries(prev => prev.map(e => e.id === selectedId ? { ...e, manual: adjustments, status: 'processing' } : e));
+    setIsAdjusting(false);
+  };
+
+  const handleResetAdjustments = () => {
+    setEntries(prev => prev.map(e => e.id === selectedId ? { ...e, manual: undefined, status: 'processing' } : e));
+  };
+
+  const isProcessing = entries.some(entry => entry.status === 'processing');
+  // Skipping preprocessing is only possible if every original is small enough to send as is
+  const canUseOriginals = entries.every(entry => entry.source.size <= maxUploadBytes);
+  const selected = entries.find(entry => entry.id === selectedId) ?? null;
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-50 flex flex-col animate-fadeIn">
+      <div className="px-6 py-4 bg-white border-b border-slate-200 flex flex-wrap items-center gap-4">
+        <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2 shrink-0">
+          <ImageIcon size={18} className="text-brand-600" /> Prepare Images
+        </h2>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+          {OPTION_TOGGLES.map(toggle => (
+            <label key={toggle.key} className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options[toggle.key]}
+                onChange={(e) => updateOptions({ [toggle.key]: e.target.checked })}
+                className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+              />
+              {toggle.label}
+            </label>
+          ))}
+          <label className="flex items-center gap-1.5">
+            Max size
+            <select
+              value={options.maxDimension}
+              onChange={(e) => updateOptions({ maxDimension: Number(e.target.value) })}
+              className="rounded-md border-slate-200 text-sm py-1 pl-2 pr-7 focus:border-brand-500 focus:ring-brand-500"
+            >
+              {MAX_DIMENSION_OPTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+            </select>
+          </label>
+        </div>
+        <div className="flex-1" />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onConfirm(entries.map(entry => entry.source))}
+          disabled={!canUseOriginals}
+          title={canUseOriginals ? 'Analyze the images without changes' : `Originals over ${formatBytes(maxUploadBytes)} must be downscaled`}
+        >
+          Use Originals
+        </Button>
+        <Button
+          variant="primary"
+          size="sm"
+          icon={isProcessing ? <Loader2 size={14} className="animate-spin" /> : <ScanLine size={14} />}
+          onClick={() => onConfirm(entries.map(entry => entry.result?.file ?? entry.source))}
+          disabled={isProcessing || isAdjusting}
+        >
+          Analyze {entries.length} Image{entries.length === 1 ? '' : 's'}
+        </Button>
+        <button onClick={onCancel} className="p-1.5 text-slate-400 hover:text-slate-700 transition-colors" title="Cancel">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        {entries.length > 1 && (
+          <div className="w-52 shrink-0 border-r border-slate-200 bg-white overflow-y-auto p-3 space-y-2">
+            {entries.map(entry => (
+              <div
+                key={entry.id}
+                onClick={() => { setSelectedId(entry.id); setIsAdjusting(false); }}
+                className={`group relative rounded-lg border p-1.5 cursor-pointer transition-colors
+                  ${entry.id === selectedId ? 'border-brand-400 bg-brand-50' : 'border-slate-200 hover:border-slate-300'}
+                `}
+              >
+                <img src={entry.processedUrl ?? entry.originalUrl} alt="" className="w-full h-24 object-contain bg-slate-100 rounded" />
+                <div className="mt-1 flex items-center gap-1 text-xs text-slate-600">
+                  {entry.status === 'processing' && <Loader2 size={12} className="animate-spin text-brand-500 shrink-0" />}
+                  {entry.status === 'failed' && <AlertTriangle size={12} className="text-amber-500 shrink-0" />}
+                  {entry.status === 'ready' && <Check size={12} className="text-green-600 shrink-0" />}
+                  <span className="truncate">{entry.source.name}</span>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleRemove(entry.id); }}
+                  className="absolute top-2 right-2 p-0.5 rounded bg-white/90 text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Remove"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 min-w-0 flex flex-col p-6">
+          {selected && isAdjusting ? (
+            <ImageAdjuster
+              key={selected.id}
+              file={selected.source}
+              initial={selected.manual ?? selected.result?.adjustments ?? { quarterTurns: 0, angle: 0, crop: null }}
+              options={options}
+              onApply={handleApplyAdjustments}
+              onCancel={() => setIsAdjusting(false)}
+            />
+          ) : selected && (
+            <>
+              <div className="flex-1 min-h-0 grid grid-cols-2 gap-4">
+                <div className="flex flex-col min-h-0">
+                  <div className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">
+                    Before <span className="font-normal normal-case tracking-normal text-slate-400">&middot; {formatBytes(selected.source.size)}</span>
+                  </div>
+                  <div className="flex-1 min-h-0 flex items-center justify-center bg-slate-200/60 rounded-lg p-3">
+                    <img src={selected.originalUrl} alt="Original" className="max-w-full max-h-full object-contain shadow-md" />
+                  </div>
+                </div>
+                <div className="flex flex-col min-h-0">
+                  <div className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">
+                    After
+                    {selected.result && (
+                      <span className="font-normal normal-case tracking-normal text-slate-400">
+                        {' '}&middot; {selected.result.width}×{selected.result.height} &middot; {formatBytes(selected.result.file.size)}
+                      </span>
+                    )}
+                  </div>
+                  <div className="relative flex-1 min-h-0 flex items-center justify-center bg-slate-200/60 rounded-lg p-3">
+                    {selected.processedUrl ? (
+                      <img src={selected.processedUrl} alt="Processed" className="max-w-full max-h-full object-contain shadow-md" />
+                    ) : selected.status === 'failed' ? (
+                      <p className="text-sm text-amber-700">{selected.error}</p>
+                    ) : null}
+                    {selected.status === 'processing' && (
+                      <div className="absolute inset-0 flex items-center justify-center bg-white/40">
+                        <Loader2 size={24} className="animate-spin text-brand-600" />
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div className="pt-4 flex flex-wrap items-center gap-2">
+                {selected.result?.steps.map(step => (
+                  <span key={step} className="text-xs px-2 py-0.5 rounded-full bg-brand-50 text-brand-700 border border-brand-100">{step}</span>
+                ))}
+                {selected.result && selected.result.steps.length === 0 && (
+                  <span className="text-xs text-slate-500">No changes were needed.</span>
+                )}
+                <div className="flex-1" />
+                {selected.manual && (
+                  <Button variant="ghost" size="sm" icon={<Undo2 size={14} />} onClick={handleResetAdjustments}>Use Automatic</Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={<SlidersHorizontal size={14} />}
+                  onClick={() => setIsAdjusting(true)}
+                  disabled={selected.status === 'processing'}
+                >
+                  Crop &amp; Rotate
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React from 'react';
+import { Ban, CheckCircle, CircleStop, Clock, Loader2, RotateCw, X, XCircle, FileText, Plus } from 'lucide-react';
+import { QueueItem, QueueItemStatus } from '../types';
+import { ExportMenu, ExportFormat } from './ExportMenu';
+
+interface QueuePanelProps {
+  items: QueueItem[];
+  selectedId: string | null;
+  concurrency: number;
+  onSelect: (id: string) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onConcurrencyChange: (value: number) => void;
+  onAddFiles: () => void;
+  onExportAll: (format: ExportFormat) => void;
+}
+
+const statusMeta: Record<QueueItemStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  queued: { label: 'Queued', className: 'text-slate-400', icon: <Clock size={14} /> },
+  analyzing: { label: 'Analyzing', className: 'text-brand-400', icon: <Loader2 size={14} className="animate-spin" /> },
+  done: { label: 'Done', className: 'text-green-400', icon: <CheckCircle size={14} /> },
+  failed: { label: 'Failed', className: 'text-red-400', icon: <XCircle size={14} /> },
+  cancelled: { label: 'Cancelled', className: 'text-slate-500', icon: <Ban size={14} /> },
+};
+
+export const QueuePanel: React.FC<QueuePanelProps> = ({
+  items,
+  selectedId,
+  concurrency,
+  onSelect,
+  onRetry,
+  onCancel,
+  onRemove,
+  onConcurrencyChange,
+  onAddFiles,
+  onExportAll
+}) => {
+  const doneCount = items.filter(i => i.status === 'done').length;
+
+  return (
+    <div className="hidden md:flex flex-col w-64 bg-slate-900/95 border-r border-slate-800 text-slate-300 z-10">
+      <div className="px-4 py-4 border-b border-slate-800">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400">Batch Queue</h2>
+          <button
+            onClick={onAddFiles}
+            className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Add documents"
+          >
+            <Plus size={16} />
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mt-1">{doneCount} of {items.length} analyzed</p>
+        <label className="flex items-center justify-between text-xs text-slate-500 mt-3">
+          Parallel analyses
+          <select
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+            className="bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 focus:outline-none focus:ring-1 focus:ring-brand-500"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        {doneCount > 1 && (
+          <div className="mt-3">
+            <ExportMenu
+              onExport={onExportAll}
+              formats={['csv-document', 'csv-field', 'csv-item', 'xml', 'json']}
+              label="Export All"
+              variant="outline"
+              align="left"
+            />
+          </div>
+        )}
+      </div>
+
+      <ul className="flex-1 overflow-y-auto py-2">
+        {items.map(item => {
+          const meta = statusMeta[item.status];
+          const isSelected = item.id === selectedId;
+          return (
+            <li key={item.id}>
+              <div
+                role="button"
+                tabIndex={0}
+                onClick={() => onSelect(item.id)}
+                onKeyDown={(e) => { if (e.key === 'Enter') onSelect(item.id); }}
+                className={`group flex items-start gap-2 px-4 py-2.5 cursor-pointer transition-colors focus:outline-none
+                  ${isSelected ? 'bg-slate-800 text-white' : 'hover:bg-slate-800/60'}
+                `}
+              >
+                <FileText size={16} className="mt-0.5 shrink-0 text-slate-500" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate" title={item.file.name}>{item.file.name}</p>
+                  <p className={`text-[11px] flex items-center gap-1 mt-0.5 ${meta.className}`}>
+                    {meta.icon}
+                    {item.status === 'done' && item.result
+                      ? item.result.documentType
+                      : item.status === 'analyzing' && item.partial
+                        ? `${meta.label} · ${item.partial.fields.length} fields`
+                        : item.status === 'analyzing' && item.attempt && item.attempt > 1
+                          ? `${meta.label} · attempt ${item.attempt}`
+                          : meta.label}
+                  </p>
+                  {item.status === 'failed' && item.error && (
+                    <p className="text-[11px] text-slate-500 truncate" title={item.error}>{item.error}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {(item.status === 'queued' || item.status === 'analyzing') && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onCancel(item.id); }}
+                      className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700"
+                      title="Cancel"
+                    >
+                      <CircleStop size={12} />
+                    </button>
+                  )}
+                  {(item.status === 'failed' || item.status === 'cancelled') && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onRetry(item.id); }}
+                      className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700"
+                      title="Retry"
+                    >
+                      <RotateCw size={12} />
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onRemove(item.id); }}
+                    className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700"
+                    title="Remove from queue"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
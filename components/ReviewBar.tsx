@@ -0,0 +1,92 @@
+import React from 'react';
+import { ScanEye, ChevronLeft, ChevronRight, Check, X } from 'lucide-react';
+import { formatConfidence, REVIEW_THRESHOLDS } from '../services/confidenceService';
+
+interface ReviewBarProps {
+  pendingCount: number; // Low-confidence fields not yet reviewed
+  threshold: number;
+  onThresholdChange: (value: number) => void;
+  onStart: () => void;
+  // Present while stepping through the review list
+  session?: {
+    index: number;
+    total: number;
+    label: string;
+    onPrevious: () => void;
+    onNext: () => void;
+    onConfirm: () => void;
+    onExit: () => void;
+  };
+}
+
+export const ReviewBar: React.FC<ReviewBarProps> = ({ pendingCount, threshold, onThresholdChange, onStart, session }) => {
+  if (session) {
+    return (
+      <div className="mb-4 flex flex-wrap items-center gap-3 px-4 py-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-900 animate-fadeIn">
+        <ScanEye size={18} className="shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs uppercase font-semibold tracking-wider text-amber-700">Reviewing {session.index + 1} of {session.total}</p>
+          <p className="text-sm font-medium truncate">{session.label}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={session.onPrevious}
+            disabled={session.index === 0}
+            className="p-1.5 rounded hover:bg-amber-100 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Previous field"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <button
+            onClick={session.onNext}
+            disabled={session.index === session.total - 1}
+            className="p-1.5 rounded hover:bg-amber-100 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Next field"
+          >
+            <ChevronRight size={16} />
+          </button>
+          <button
+            onClick={session.onConfirm}
+            className="ml-1 text-xs flex items-center gap-1 px-3 py-1.5 rounded-full bg-amber-600 text-white hover:bg-amber-700 transition-colors"
+            title="Mark this value as correct and go to the next field"
+          >
+            <Check size={14} /> Looks Correct
+          </button>
+          <button onClick={session.onExit} className="p-1.5 rounded hover:bg-amber-100" title="Stop reviewing">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-between gap-3 px-4 py-2.5 rounded-lg border border-slate-200 bg-white">
+      <p className="text-sm text-slate-600 flex items-center gap-2">
+        <ScanEye size={16} className={pendingCount > 0 ? 'text-amber-500' : 'text-green-500'} />
+        {pendingCount > 0
+          ? <><span className="font-semibold">{pendingCount}</span> field(s) below the confidence threshold need review.</>
+          : 'All fields are above the confidence threshold or reviewed.'}
+      </p>
+      <div className="flex items-center gap-2">
+        <label className="text-xs text-slate-500 flex items-center gap-1">
+          Threshold
+          <select
+            value={threshold}
+            onChange={(e) => onThresholdChange(Number(e.target.value))}
+            className="rounded border border-slate-200 text-xs py-0.5 px-1 focus:border-brand-500 focus:ring-brand-500"
+          >
+            {REVIEW_THRESHOLDS.map(t => <option key={t} value={t}>{formatConfidence(t)}</option>)}
+          </select>
+        </label>
+        <button
+          onClick={onStart}
+          disabled={pendingCount === 0}
+          className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border border-amber-300 bg-amber-50 text-amber-800 hover:bg-amber-100 transition-colors disabled:opacity-50 disabled:hover:bg-amber-50"
+        >
+          Needs Review
+        </button>
+      </div>
+    </div>
+  );
+};
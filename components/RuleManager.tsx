@@ -0,0 +1,264 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ListChecks, X, Trash2, Loader2, ChevronLeft, Save, Plus } from 'lucide-react';
+import { BusinessRule, RuleSeverity } from '../types';
+import { createRule, deleteRule, listRules, parseRuleDefinition, referencedFieldKeys, RULE_EXAMPLES, saveRule } from '../services/ruleService';
+import { Button } from './Button';
+
+interface RuleManagerProps {
+  onClose: () => void;
+  // Offered as suggestions for the document type, e.g. the types of open documents
+  documentTypes?: string[];
+}
+
+// Rule being edited, with its logic as the JSON text in the editor
+interface RuleDraft {
+  rule: BusinessRule;
+  definition: string;
+}
+
+const toDefinitionText = ({ when, assert }: Pick<BusinessRule, 'when' | 'assert'>) =>
+  JSON.stringify(when ? { when, assert } : { assert }, null, 2);
+
+const inputClass = 'mt-1 block w-full rounded-md border border-slate-200 text-sm py-1.5 px-2 normal-case tracking-normal font-normal focus:border-brand-500 focus:ring-brand-500';
+const labelClass = 'block text-xs font-semibold text-slate-600 uppercase tracking-wider';
+
+export const RuleManager: React.FC<RuleManagerProps> = ({ onClose, documentTypes = [] }) => {
+  const [rules, setRules] = useState<BusinessRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Working copy of the rule being edited; changes are only stored on save
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  const parsed = useMemo(() => draft ? parseRuleDefinition(draft.definition) : null, [draft?.definition]);
+  const fieldKeys = useMemo(() => {
+    const definition = parsed?.definition;
+    if (!definition) return [];
+    return [...new Set([...(definition.when ? referencedFieldKeys(definition.when) : []), ...referencedFieldKeys(definition.assert)])];
+  }, [parsed]);
+
+  const refresh = async () => {
+    try {
+      setRules(await listRules());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load rules", err);
+      setError("Could not load business rules from this browser.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const openDraft = (rule: BusinessRule) => setDraft({ rule, definition: toDefinitionText(rule) });
+
+  const updateDraftRule = (patch: Partial<BusinessRule>) => {
+    setDraft(prev => prev && { ...prev, rule: { ...prev.rule, ...patch } });
+  };
+
+  const handleDelete = async (rule: BusinessRule) => {
+    if (!confirm(`Delete rule "${rule.name}"?`)) return;
+    await deleteRule(rule.id);
+    if (draft?.rule.id === rule.id) setDraft(null);
+    await refresh();
+  };
+
+  const handleToggle = async (rule: BusinessRule) => {
+    await saveRule({ ...rule, enabled: !rule.enabled });
+    await refresh();
+  };
+
+  const handleSaveDraft = async () => {
+    const definition = parsed?.definition;
+    if (!draft || !definition) return;
+    // Spread first so a rule without a precondition drops its old one
+    const { when: _when, ...rule } = draft.rule;
+    await saveRule({ ...rule, ...definition, name: rule.name.trim(), documentType: rule.documentType.trim() });
+    setDraft(null);
+    await refresh();
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex">
+      <div className="w-full max-w-xl h-full bg-white shadow-2xl border-r border-slate-200 flex flex-col animate-fadeIn">
+        <div className="px-5 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            {draft ? (
+              <button onClick={() => setDraft(null)} className="p-0.5 text-slate-400 hover:text-slate-700" title="Back to rules">
+                <ChevronLeft size={18} />
+              </button>
+            ) : (
+              <ListChecks size={18} className="text-brand-600" />
+            )}
+            {draft ? 'Edit Rule' : 'Business Rules'}
+          </h2>
+          <div className="flex items-center gap-2">
+            {!draft && !isLoading && !error && (
+              <Button variant="outline" size="sm" icon={<Plus size={14} />} onClick={() => openDraft(createRule())}>
+                New Rule
+              </Button>
+            )}
+            <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 transition-colors" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="p-8 text-center text-slate-400">
+              <Loader2 size={24} className="animate-spin mx-auto" />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-sm text-red-600">{error}</p>
+          ) : draft ? (
+            <div className="p-5 space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <label className={labelClass}>
+                  Name
+                  <input
+                    value={draft.rule.name}
+                    onChange={(e) => updateDraftRule({ name: e.target.value })}
+                    placeholder="End date after start date"
+                    className={inputClass}
+                  />
+                </label>
+                <label className={labelClass}>
+                  Document Type
+                  <input
+                    value={draft.rule.documentType}
+                    onChange={(e) => updateDraftRule({ documentType: e.target.value })}
+                    placeholder="All documents"
+                    list="rule-document-types"
+                    className={inputClass}
+                  />
+                  <datalist id="rule-document-types">
+                    {documentTypes.map(type => <option key={type} value={type} />)}
+                  </datalist>
+                </label>
+              </div>
+
+              <div className="grid grid-cols-[1fr_auto] gap-3">
+                <label className={labelClass}>
+                  Message
+                  <input
+                    value={draft.rule.message}
+                    onChange={(e) => updateDraftRule({ message: e.target.value })}
+                    placeholder="Shown on the fields when the rule fails"
+                    className={inputClass}
+                  />
+                </label>
+                <label className={labelClass}>
+                  Severity
+                  <select
+                    value={draft.rule.severity}
+                    onChange={(e) => updateDraftRule({ severity: e.target.value as RuleSeverity })}
+                    className={inputClass}
+                  >
+                    <option value="error">Error (blocks saving)</option>
+                    <option value="warning">Warning</option>
+                  </select>
+                </label>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <span className={labelClass}>Rule</span>
+                  <div className="flex gap-1">
+                    {RULE_EXAMPLES.map(example => (
+                      <button
+                        key={example.label}
+                        onClick={() => setDraft({ ...draft, definition: toDefinitionText(example.definition) })}
+                        className="text-[10px] px-2 py-0.5 rounded-full border border-slate-200 text-slate-500 hover:bg-slate-50"
+                        title="Replace the rule with this example"
+                      >
+                        {example.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <textarea
+                  value={draft.definition}
+                  onChange={(e) => setDraft({ ...draft, definition: e.target.value })}
+                  rows={12}
+                  spellCheck={false}
+                  className={`block w-full rounded-md border font-mono text-xs py-2 px-3 focus:ring-brand-500
+                    ${parsed?.errors.length ? 'border-red-300 focus:border-red-400' : 'border-slate-200 focus:border-brand-500'}
+                  `}
+                />
+                {parsed && parsed.errors.length > 0 ? (
+                  <ul className="mt-1 space-y-0.5 text-xs text-red-600">
+                    {parsed.errors.map((message, idx) => <li key={idx}>{message}</li>)}
+                  </ul>
+                ) : (
+                  <p className="mt-1 text-xs text-slate-500">
+                    Fields: {fieldKeys.map(key => <code key={key} className="mx-0.5 px-1 rounded bg-slate-100 text-slate-700">{key}</code>)}
+                  </p>
+                )}
+                <p className="mt-2 text-[11px] text-slate-400 leading-relaxed">
+                  <code>assert</code> must hold whenever the optional <code>when</code> does. Conditions compare two operands
+                  (<code>{'{"left", "op", "right"}'}</code>) or check a field (<code>{'{"field", "is": "filled" | "empty" | "checked" | "unchecked"}'}</code>),
+                  and combine with <code>all</code>, <code>any</code> and <code>not</code>. Operands are field keys, numbers,
+                  <code>{'{"value"}'}</code> literals, or <code>add</code>, <code>subtract</code> and <code>multiply</code>; subtracting two dates gives days.
+                  Rules with an empty or unreadable field are not checked. Field keys are camelCase (e.g. <code>startDate</code>), as in the JSON tab of a document; a rule naming a key the document lacks is listed as not checked in the Overview.
+                </p>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={draft.rule.enabled}
+                  onChange={(e) => updateDraftRule({ enabled: e.target.checked })}
+                  className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                />
+                Enabled
+              </label>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+                <Button variant="primary" size="sm" icon={<Save />} onClick={handleSaveDraft} disabled={!draft.rule.name.trim() || !parsed?.definition}>
+                  Save Rule
+                </Button>
+              </div>
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="p-6 text-sm text-slate-500 italic">
+              No rules yet. Add one to check fields against each other, e.g. that a total equals its subtotal plus tax.
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {rules.map(rule => (
+                <li key={rule.id} className={`px-5 py-3 hover:bg-slate-50 group flex items-start gap-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={() => handleToggle(rule)}
+                    className="mt-1 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                    title={rule.enabled ? 'Disable' : 'Enable'}
+                  />
+                  <button onClick={() => openDraft(rule)} className="flex-1 min-w-0 text-left">
+                    <p className="text-sm font-medium text-slate-900 truncate">{rule.name}</p>
+                    <p className="text-xs text-slate-500 truncate">
+                      {rule.documentType || 'All documents'} · <span className={rule.severity === 'error' ? 'text-red-600' : 'text-amber-600'}>{rule.severity}</span>
+                    </p>
+                    {rule.message && <p className="text-[11px] text-slate-400 mt-0.5 truncate">{rule.message}</p>}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="p-1 text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+      <div className="flex-1 bg-slate-900/30 backdrop-blur-[1px]" onClick={onClose} />
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Settings, X, Save, Download, Upload, RotateCcw, Plus } from 'lucide-react';
+import { AppSettings, ExtractionSettings, UploadFileType, UploadSettings } from '../types';
+import {
+  ANALYSIS_MODELS,
+  DEFAULT_SETTINGS,
+  DYNAMIC_THINKING_BUDGET,
+  exportSettingsJson,
+  findModel,
+  importSettingsJson,
+  MAX_CUSTOM_INSTRUCTIONS_LENGTH,
+  parseSettings,
+  saveSettings
+} from '../services/settingsService';
+import { MAX_UPLOAD_BYTES, UPLOAD_FILE_TYPES } from '../services/uploadService';
+import { downloadText } from '../services/exportService';
+import { Button } from './Button';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'mt-1 block w-full rounded-md border border-slate-200 text-sm py-1.5 px-2 normal-case tracking-normal font-normal focus:border-brand-500 focus:ring-brand-500';
+const labelClass = 'block text-xs font-semibold text-slate-600 uppercase tracking-wider';
+const checkboxClass = 'rounded border-slate-300 text-brand-600 focus:ring-brand-500';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Model, prompt and upload settings. Edits are kept in a working copy and only stored on save;
+ * settings can be exported to and imported from JSON to share them with a team.
+ */
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [newException, setNewException] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const errors = useMemo(() => parseSettings(draft).errors, [draft]);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+  const model = findModel(draft.extraction.model) ?? ANALYSIS_MODELS[0];
+  const isDynamicBudget = draft.extraction.thinkingBudget === DYNAMIC_THINKING_BUDGET;
+
+  const updateExtraction = (updates: Partial<ExtractionSettings>) => {
+    setDraft(prev => ({ ...prev, extraction: { ...prev.extraction, ...updates } }));
+    setNotice(null);
+  };
+
+  const updateUpload = (updates: Partial<UploadSettings>) => {
+    setDraft(prev => ({ ...prev, upload: { ...prev.upload, ...updates } }));
+    setNotice(null);
+  };
+
+  // Keeps a fixed budget within what the newly chosen model accepts
+  const handleModelChange = (id: string) => {
+    const next = findModel(id);
+    if (!next) return;
+    const budget = draft.extraction.thinkingBudget;
+    updateExtraction({
+      model: id,
+      thinkingBudget: budget === DYNAMIC_THINKING_BUDGET ? budget : clamp(budget, next.minThinkingBudget, next.maxThinkingBudget),
+    });
+  };
+
+  const addException = () => {
+    const name = newException.trim();
+    if (!name) return;
+    if (!draft.extraction.spellingExceptions.some(e => e.toLowerCase() === name.toLowerCase())) {
+      updateExtraction({ spellingExceptions: [...draft.extraction.spellingExceptions, name] });
+    }
+    setNewException('');
+  };
+
+  const toggleType = (type: UploadFileType, allowed: boolean) => {
+    const types = allowed ? [...draft.upload.allowedTypes, type] : draft.upload.allowedTypes.filter(t => t !== type);
+    updateUpload({ allowedTypes: types });
+  };
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    saveSettings(draft);
+    onChange(draft);
+    setNotice('Settings saved. They apply to the next document.');
+  };
+
+  const handleExport = () => {
+    downloadText(exportSettingsJson(draft), "application/json", "docusight-settings.json");
+  };
+
+  // An imported file only fills the form; it is stored once the user saves it
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = importSettingsJson(await file.text());
+    setImportErrors(result.errors);
+    if (result.settings) {
+      setDraft(result.settings);
+      setNotice(`Imported ${file.name}. Review the settings and save to apply them.`);
+    } else {
+      setNotice(null);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex">
+      <div className="w-full max-w-xl h-full bg-white shadow-2xl border-r border-slate-200 flex flex-col animate-fadeIn">
+        <div className="px-5 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Settings size={18} className="text-brand-600" />
+            Settings
+          </h2>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" icon={<Upload size={14} />} onClick={() => importInputRef.current?.click()}>
+              Import
+            </Button>
+            <Button variant="outline" size="sm" icon={<Download size={14} />} onClick={handleExport} disabled={errors.length > 0}>
+              Export
+            </Button>
+            <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 transition-colors" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+          <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {importErrors.length > 0 && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-xs text-red-700">
+              <p className="font-semibold mb-1">The file was not imported:</p>
+              <ul className="space-y-0.5">
+                {importErrors.map((message, idx) => <li key={idx}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <section className="space-y-4">
+            <h3 className="text-sm font-bold text-slate-900">Extraction</h3>
+            <label className={labelClass}>
+              Model
+              <select value={draft.extraction.model} onChange={(e) => handleModelChange(e.target.value)} className={inputClass}>
+                {ANALYSIS_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+              </select>
+              <span className="mt-1 block text-[11px] font-normal normal-case tracking-normal text-slate-400">
+                Extracts the fields and answers questions in the Ask tab, with the thinking budget below.
+                Matching documents to saved templates always uses the faster Gemini 2.5 Flash.
+              </span>
+            </label>
+
+            <div>
+              <span className={labelClass}>Thinking Budget</span>
+              <div className="mt-1 flex items-center gap-3">
+                <input
+                  type="number"
+                  min={model.minThinkingBudget}
+                  max={model.maxThinkingBudget}
+                  step={128}
+                  value={isDynamicBudget ? '' : draft.extraction.thinkingBudget}
+                  onChange={(e) => updateExtraction({ thinkingBudget: Number(e.target.value) })}
+                  disabled={isDynamicBudget}
+                  placeholder="Chosen by the model"
+                  className={`${inputClass} mt-0 flex-1 disabled:bg-slate-50`}
+                />
+                <label className="flex items-center gap-2 text-sm text-slate-700 shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={isDynamicBudget}
+                    onChange={(e) => updateExtraction({
+                      thinkingBudget: e.target.checked ? DYNAMIC_THINKING_BUDGET : clamp(DEFAULT_SETTINGS.extraction.thinkingBudget, model.minThinkingBudget, model.maxThinkingBudget),
+                    })}
+                    className={checkboxClass}
+                  />
+                  Dynamic
+                </label>
+              </div>
+              <p className="mt-1 text-[11px] text-slate-400">
+                Tokens the model may spend reasoning before it answers, from {model.minThinkingBudget} to {model.maxThinkingBudget} for {model.label}.
+                More is slower but helps with dense or handwritten documents.
+              </p>
+            </div>
+
+            <div>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={draft.extraction.spellingCorrection}
+                  onChange={(e) => updateExtraction({ spellingCorrection: e.target.checked })}
+                  className={checkboxClass}
+                />
+                Correct obvious spelling errors in general text
+              </label>
+              {draft.extraction.spellingCorrection && (
+                <div className="mt-2 ml-6">
+                  <span className="text-xs text-slate-500">Always extracted exactly as written:</span>
+                  <div className="mt-1 flex flex-wrap gap-1.5">
+                    {draft.extraction.spellingExceptions.map(name => (
+                      <span key={name} className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-slate-100 text-xs text-slate-700">
+                        {name}
+                        <button
+                          onClick={() => updateExtraction({ spellingExceptions: draft.extraction.spellingExceptions.filter(e => e !== name) })}
+                          className="p-0.5 text-slate-400 hover:text-red-600"
+                          title="Remove"
+                        >
+                          <X size={10} />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                  <div className="mt-2 flex gap-2">
+                    <input
+                      value={newException}
+                      onChange={(e) => setNewException(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') addException(); }}
+                      placeholder="e.g. Product Codes"
+                      className={`${inputClass} mt-0 flex-1`}
+                    />
+                    <Button variant="outline" size="sm" icon={<Plus size={14} />} onClick={addException} disabled={!newException.trim()}>
+                      Add
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <label className={labelClass}>
+              Custom Instructions
+              <textarea
+                value={draft.extraction.customInstructions}
+                onChange={(e) => updateExtraction({ customInstructions: e.target.value })}
+                rows={5}
+                maxLength={MAX_CUSTOM_INSTRUCTIONS_LENGTH}
+                placeholder="Added to the prompt, e.g. &quot;Dates are written day first.&quot;"
+                className={inputClass}
+              />
+              <span className="mt-1 block text-right text-[11px] font-normal normal-case tracking-normal text-slate-400">
+                {draft.extraction.customInstructions.length} / {MAX_CUSTOM_INSTRUCTIONS_LENGTH}
+              </span>
+            </label>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-sm font-bold text-slate-900">Uploads</h3>
+            <label className={labelClass}>
+              Maximum File Size (MB)
+              <input
+                type="number"
+                min={1}
+                max={MAX_UPLOAD_BYTES / 1024 / 1024}
+                step={0.5}
+                value={draft.upload.maxFileSizeMb}
+                onChange={(e) => updateUpload({ maxFileSizeMb: Number(e.target.value) })}
+                className={inputClass}
+              />
+              <span className="mt-1 block text-[11px] font-normal normal-case tracking-normal text-slate-400">
+                Photos may be larger; they are downscaled below this limit before they are sent.
+              </span>
+            </label>
+            <div>
+              <span className={labelClass}>Allowed File Types</span>
+              <div className="mt-2 flex flex-wrap gap-4">
+                {(Object.keys(UPLOAD_FILE_TYPES) as UploadFileType[]).map(type => (
+                  <label key={type} className="flex items-center gap-2 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.upload.allowedTypes.includes(type)}
+                      onChange={(e) => toggleType(type, e.target.checked)}
+                      className={checkboxClass}
+                    />
+                    {UPLOAD_FILE_TYPES[type].label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </section>
+
+          {errors.length > 0 && (
+            <ul className="space-y-0.5 text-xs text-red-600">
+              {errors.map((message, idx) => <li key={idx}>{message}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-slate-100 flex items-center justify-between gap-2">
+          <Button variant="ghost" size="sm" icon={<RotateCcw size={14} />} onClick={() => { setDraft(DEFAULT_SETTINGS); setNotice(null); }}>
+            Reset to Defaults
+          </Button>
+          <div className="flex items-center gap-3">
+            {notice && <span className="text-xs text-slate-500">{notice}</span>}
+            <Button variant="primary" size="sm" icon={<Save size={14} />} onClick={handleSave} disabled={!isDirty || errors.length > 0}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+      <div className="flex-1 bg-slate-900/30 backdrop-blur-[1px]" onClick={onClose} />
+    </div>
+  );
+};
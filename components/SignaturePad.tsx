@@ -0,0 +1,218 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Undo2, Eraser, Check, X, Trash2 } from 'lucide-react';
+import { Button } from './Button';
+import {
+  clearSavedSignature,
+  drawStrokes,
+  getSavedSignature,
+  saveSignature,
+  SignatureStroke,
+  strokesToPng
+} from '../services/signatureService';
+
+interface SignaturePadProps {
+  onApply: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+const PEN_COLORS = [
+  { value: '#0f172a', label: 'Black' },
+  { value: '#1d4ed8', label: 'Blue' },
+  { value: '#b91c1c', label: 'Red' },
+];
+const PAD_HEIGHT = 160;
+
+export const SignaturePad: React.FC<SignaturePadProps> = ({ onApply, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Strokes live in a ref so pointer moves don't re-render; strokeCount drives the buttons
+  const strokesRef = useRef<SignatureStroke[]>([]);
+  const drawingRef = useRef(false);
+  const [strokeCount, setStrokeCount] = useState(0);
+  const [color, setColor] = useState(PEN_COLORS[0].value);
+  const [width, setWidth] = useState(2.5);
+  const [remember, setRemember] = useState(false);
+  const [savedSignature, setSavedSignature] = useState<string | null>(() => getSavedSignature());
+
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawStrokes(ctx, strokesRef.current);
+  };
+
+  // Match the backing store to the displayed size for crisp lines on high-DPI screens
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = canvas.clientWidth * dpr;
+      canvas.height = PAD_HEIGHT * dpr;
+      redraw();
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const toPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    // Pen pressure thickens the stroke slightly; mouse and touch report a constant 0.5
+    const strokeWidth = e.pointerType === 'pen' && e.pressure > 0 ? width * (0.5 + e.pressure) : width;
+    strokesRef.current = [...strokesRef.current, { color, width: strokeWidth, points: [toPoint(e)] }];
+    setStrokeCount(strokesRef.current.length);
+    redraw();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const stroke = strokesRef.current[strokesRef.current.length - 1];
+    // Coalesced events recover the samples the browser merged between frames
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (events.length > 0) {
+      for (const ev of events) stroke.points.push({ x: ev.clientX - rect.left, y: ev.clientY - rect.top });
+    } else {
+      stroke.points.push(toPoint(e));
+    }
+    redraw();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    drawingRef.current = false;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const handleUndo = () => {
+    strokesRef.current = strokesRef.current.slice(0, -1);
+    setStrokeCount(strokesRef.current.length);
+    redraw();
+  };
+
+  const handleClear = () => {
+    strokesRef.current = [];
+    setStrokeCount(0);
+    redraw();
+  };
+
+  const handleApply = () => {
+    const dataUrl = strokesToPng(strokesRef.current);
+    if (!dataUrl) return;
+    if (remember) saveSignature(dataUrl);
+    onApply(dataUrl);
+  };
+
+  const handleForgetSaved = () => {
+    clearSavedSignature();
+    setSavedSignature(null);
+  };
+
+  return (
+    <div className="mt-1 border border-slate-300 rounded-md bg-white overflow-hidden">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-slate-100 bg-slate-50">
+        <div className="flex items-center gap-1.5">
+          {PEN_COLORS.map(pen => (
+            <button
+              key={pen.value}
+              onClick={() => setColor(pen.value)}
+              className={`w-5 h-5 rounded-full border-2 transition-transform ${color === pen.value ? 'border-brand-500 scale-110' : 'border-white shadow'}`}
+              style={{ backgroundColor: pen.value }}
+              title={pen.label}
+              aria-label={`${pen.label} pen`}
+            />
+          ))}
+          <input
+            type="range"
+            min={1}
+            max={6}
+            step={0.5}
+            value={width}
+            onChange={(e) => setWidth(Number(e.target.value))}
+            className="ml-2 w-20 accent-brand-600"
+            title="Pen width"
+            aria-label="Pen width"
+          />
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleUndo}
+            disabled={strokeCount === 0}
+            className="p-1 rounded text-slate-500 hover:text-slate-800 hover:bg-slate-200 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Undo last stroke"
+          >
+            <Undo2 size={14} />
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={strokeCount === 0}
+            className="p-1 rounded text-slate-500 hover:text-slate-800 hover:bg-slate-200 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Clear"
+          >
+            <Eraser size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          className="block w-full touch-none cursor-crosshair"
+          style={{ height: PAD_HEIGHT }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+        <div className="absolute left-6 right-6 bottom-8 border-b border-slate-300 pointer-events-none" />
+        {strokeCount === 0 && (
+          <p className="absolute inset-x-0 top-1/2 -translate-y-1/2 text-center text-sm text-slate-400 pointer-events-none">
+            Sign here with a mouse, finger or pen
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 border-t border-slate-100">
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-xs text-slate-600">
+            <input
+              type="checkbox"
+              checked={remember}
+              onChange={(e) => setRemember(e.target.checked)}
+              className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+            />
+            Remember on this device
+          </label>
+          {savedSignature && (
+            <span className="flex items-center gap-1">
+              <button
+                onClick={() => onApply(savedSignature)}
+                className="text-xs font-medium text-brand-600 hover:text-brand-700"
+              >
+                Use saved signature
+              </button>
+              <button onClick={handleForgetSaved} className="p-0.5 text-slate-400 hover:text-red-600" title="Forget saved signature">
+                <Trash2 size={12} />
+              </button>
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" icon={<X />} onClick={onCancel}>Cancel</Button>
+          <Button variant="primary" size="sm" icon={<Check />} onClick={handleApply} disabled={strokeCount === 0}>Apply</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
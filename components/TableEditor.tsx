@@ -0,0 +1,129 @@
+import React from 'react';
+import { Plus, Trash2, Table2 } from 'lucide-react';
+import { DocumentTable } from '../types';
+import { columnTotal, createTableRow, tableCellKey } from '../services/tableService';
+
+interface TableEditorProps {
+  table: DocumentTable;
+  locale: string; // The document's, for reading numbers in the cells
+  onChange: (table: DocumentTable) => void;
+  activeKey?: string;
+  onCellFocus?: (key: string) => void;
+  // Lets the parent jump to a cell selected in the preview
+  registerCell?: (key: string, el: HTMLElement | null) => void;
+}
+
+const currencyFormat = new Intl.NumberFormat(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const numberFormat = new Intl.NumberFormat();
+
+export const TableEditor: React.FC<TableEditorProps> = ({ table, locale, onChange, activeKey, onCellFocus, registerCell }) => {
+  const updateCell = (rowId: string, colIdx: number, value: string) => {
+    onChange({
+      ...table,
+      rows: table.rows.map(row => row.id === rowId
+        ? { ...row, cells: row.cells.map((cell, i) => i === colIdx ? { ...cell, value } : cell) }
+        : row
+      )
+    });
+  };
+
+  const addRow = () => {
+    const lastPage = table.rows[table.rows.length - 1]?.page ?? 1;
+    onChange({ ...table, rows: [...table.rows, createTableRow(table.columns, lastPage)] });
+  };
+
+  const deleteRow = (rowId: string) => {
+    onChange({ ...table, rows: table.rows.filter(row => row.id !== rowId) });
+  };
+
+  const totals = table.columns.map((_, idx) => columnTotal(table, idx, locale));
+  const hasTotals = table.rows.length > 0 && totals.some(t => t !== null);
+
+  return (
+    <div className="bg-white rounded-lg border border-brand-100 shadow-neon overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+          <Table2 size={16} className="text-brand-600" /> {table.title}
+          <span className="text-xs font-normal text-slate-400">{table.rows.length} row(s)</span>
+        </h4>
+        <button
+          onClick={addRow}
+          className="text-xs flex items-center gap-1 px-2.5 py-1 rounded-full border border-brand-200 bg-brand-50 text-brand-700 hover:bg-brand-100 transition-colors"
+        >
+          <Plus size={12} /> Add Row
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-xs text-slate-500 uppercase tracking-wider">
+            <tr>
+              <th className="px-2 py-2 w-8 text-right font-semibold">#</th>
+              {table.columns.map(col => (
+                <th
+                  key={col.key}
+                  className={`px-2 py-2 font-semibold ${col.type === 'number' || col.type === 'currency' ? 'text-right' : 'text-left'}`}
+                >
+                  {col.label}
+                </th>
+              ))}
+              <th className="w-8"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {table.rows.map((row, rowIdx) => (
+              <tr key={row.id} className="group hover:bg-slate-50">
+                <td className="px-2 py-1 text-right text-xs text-slate-400">{rowIdx + 1}</td>
+                {table.columns.map((col, colIdx) => {
+                  const key = tableCellKey(table.id, row.id, col.key);
+                  const isNumeric = col.type === 'number' || col.type === 'currency';
+                  return (
+                    <td key={col.key} ref={el => registerCell?.(key, el)} className="px-1 py-1">
+                      <input
+                        value={row.cells[colIdx]?.value ?? ''}
+                        onChange={(e) => updateCell(row.id, colIdx, e.target.value)}
+                        onFocus={() => onCellFocus?.(key)}
+                        inputMode={isNumeric ? 'decimal' : undefined}
+                        aria-label={`${col.label}, row ${rowIdx + 1}`}
+                        className={`block w-full min-w-[5rem] rounded border px-2 py-1 text-sm focus:border-brand-500 focus:ring-brand-500
+                          ${isNumeric ? 'text-right font-mono' : ''}
+                          ${activeKey === key ? 'border-brand-400 bg-brand-50' : 'border-transparent hover:border-slate-200 bg-transparent'}
+                        `}
+                      />
+                    </td>
+                  );
+                })}
+                <td className="px-1 py-1 text-center">
+                  <button
+                    onClick={() => deleteRow(row.id)}
+                    className="p-1 text-slate-300 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                    title="Delete row"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {table.rows.length === 0 && (
+              <tr>
+                <td colSpan={table.columns.length + 2} className="px-4 py-3 text-sm text-slate-500 italic">No rows. Use "Add Row" to enter line items.</td>
+              </tr>
+            )}
+          </tbody>
+          {hasTotals && (
+            <tfoot className="bg-slate-50 text-xs font-semibold text-slate-600 border-t border-slate-200">
+              <tr>
+                <td></td>
+                {totals.map((total, idx) => (
+                  <td key={table.columns[idx].key} className="px-3 py-2 text-right font-mono">
+                    {total !== null ? (table.columns[idx].type === 'currency' ? currencyFormat : numberFormat).format(total) : idx === 0 ? <span className="font-sans uppercase tracking-wider">Total</span> : ''}
+                  </td>
+                ))}
+                <td></td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+};
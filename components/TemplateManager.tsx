@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { LayoutTemplate, X, Trash2, Loader2, ChevronLeft, Save } from 'lucide-react';
+import { DocumentTemplate, FieldData, TemplateField } from '../types';
+import { deleteTemplate, listTemplates, saveTemplate } from '../services/templateService';
+import { Button } from './Button';
+
+interface TemplateManagerProps {
+  onClose: () => void;
+}
+
+const FIELD_TYPES: FieldData['type'][] = ['text', 'date', 'number', 'checkbox', 'currency', 'signature', 'email', 'phone', 'address', 'image'];
+
+export const TemplateManager: React.FC<TemplateManagerProps> = ({ onClose }) => {
+  const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Working copy of the template being edited; changes are only stored on save
+  const [draft, setDraft] = useState<DocumentTemplate | null>(null);
+
+  const refresh = async () => {
+    try {
+      setTemplates(await listTemplates());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load templates", err);
+      setError("Could not load saved templates from this browser.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDelete = async (template: DocumentTemplate) => {
+    if (!confirm(`Delete template "${template.name}"? Future uploads will no longer be matched against it.`)) return;
+    await deleteTemplate(template.id);
+    if (draft?.id === template.id) setDraft(null);
+    await refresh();
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    await saveTemplate(draft);
+    setDraft(null);
+    await refresh();
+  };
+
+  const updateDraftField = (key: string, patch: Partial<TemplateField>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      fields: prev.fields.map(f => f.key === key ? { ...f, ...patch } : f)
+    });
+  };
+
+  const removeDraftField = (key: string) => {
+    setDraft(prev => prev && { ...prev, fields: prev.fields.filter(f => f.key !== key) });
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex">
+      <div className="w-full max-w-xl h-full bg-white shadow-2xl border-r border-slate-200 flex flex-col animate-fadeIn">
+        <div className="px-5 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            {draft ? (
+              <button onClick={() => setDraft(null)} className="p-0.5 text-slate-400 hover:text-slate-700" title="Back to templates">
+                <ChevronLeft size={18} />
+              </button>
+            ) : (
+              <LayoutTemplate size={18} className="text-brand-600" />
+            )}
+            {draft ? 'Edit Template' : 'Templates'}
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="p-8 text-center text-slate-400">
+              <Loader2 size={24} className="animate-spin mx-auto" />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-sm text-red-600">{error}</p>
+          ) : draft ? (
+            <div className="p-5 space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block text-xs font-semibold text-slate-600 uppercase tracking-wider">
+                  Name
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className="mt-1 block w-full rounded-md border border-slate-200 text-sm py-1.5 px-2 normal-case tracking-normal font-normal focus:border-brand-500 focus:ring-brand-500"
+                  />
+                </label>
+                <label className="block text-xs font-semibold text-slate-600 uppercase tracking-wider">
+                  Document Type
+                  <input
+                    value={draft.documentType}
+                    onChange={(e) => setDraft({ ...draft, documentType: e.target.value })}
+                    className="mt-1 block w-full rounded-md border border-slate-200 text-sm py-1.5 px-2 normal-case tracking-normal font-normal focus:border-brand-500 focus:ring-brand-500"
+                  />
+                </label>
+              </div>
+
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                {draft.fields.map(field => (
+                  <div key={field.key} className="p-3 flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <input
+                        value={field.label}
+                        onChange={(e) => updateDraftField(field.key, { label: e.target.value })}
+                        className="block w-full rounded-md border border-slate-200 text-sm py-1 px-2 focus:border-brand-500 focus:ring-brand-500"
+                      />
+                      <p className="text-[10px] text-slate-400 font-mono mt-0.5 truncate">{field.key} · page {field.page}</p>
+                    </div>
+                    <select
+                      value={field.type}
+                      onChange={(e) => updateDraftField(field.key, { type: e.target.value as FieldData['type'] })}
+                      className="rounded-md border border-slate-200 text-xs py-1 px-1.5 focus:border-brand-500 focus:ring-brand-500"
+                    >
+                      {FIELD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                    <label className="flex items-center gap-1 text-xs text-slate-600">
+                      <input
+                        type="checkbox"
+                        checked={field.required}
+                        onChange={(e) => updateDraftField(field.key, { required: e.target.checked })}
+                        className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                      />
+                      Req.
+                    </label>
+                    <button onClick={() => removeDraftField(field.key)} className="p-1 text-slate-400 hover:text-red-600" title="Remove field">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+                {draft.fields.length === 0 && (
+                  <p className="p-3 text-sm text-slate-500 italic">This template has no fields.</p>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+                <Button variant="primary" size="sm" icon={<Save />} onClick={handleSaveDraft} disabled={!draft.name.trim()}>
+                  Save Template
+                </Button>
+              </div>
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="p-6 text-sm text-slate-500 italic">
+              No templates yet. Review a document and use "Save as Template" to reuse its layout for future uploads.
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {templates.map(template => (
+                <li key={template.id} className="px-5 py-3 hover:bg-slate-50 group flex items-start gap-3">
+                  <button onClick={() => setDraft(template)} className="flex-1 min-w-0 text-left">
+                    <p className="text-sm font-medium text-slate-900 truncate">{template.name}</p>
+                    <p className="text-xs text-slate-500 truncate">{template.documentType} · {template.fields.length} fields</p>
+                    <p className="text-[11px] text-slate-400 mt-0.5">Updated {new Date(template.updatedAt).toLocaleString()}</p>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template)}
+                    className="p-1 text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+      <div className="flex-1 bg-slate-900/30 backdrop-blur-[1px]" onClick={onClose} />
+    </div>
+  );
+};
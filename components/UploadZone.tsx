@@ -1,12 +1,16 @@
 import React, { useCallback, useState } from 'react';
-import { UploadCloud, FileText, AlertCircle, ScanLine } from 'lucide-react';
+import { UploadCloud, FileText, AlertCircle, ScanLine, Camera } from 'lucide-react';
+import { describeAllowedTypes, formatBytes, maxUploadBytes, toAcceptAttribute, validateUploadFile } from '../services/uploadService';
+import { UploadSettings } from '../types';
 
 interface UploadZoneProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
+  onScanClick?: () => void;
   isProcessing: boolean;
+  limits: UploadSettings;
 }
 
-export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isProcessing }) => {
+export const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelect, onScanClick, isProcessing, limits }) => {
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -20,33 +24,32 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isProcessi
     }
   }, []);
 
-  const validateAndPassFile = (file: File) => {
-    if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
-      setError("Please upload an image (JPG, PNG) or PDF.");
-      return;
-    }
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
-      setError("File size exceeds 10MB.");
-      return;
-    }
-    setError(null);
-    onFileSelect(file);
+  // Valid files are passed on even if some of the batch is rejected
+  const validateAndPassFiles = (fileList: FileList) => {
+    const files = Array.from(fileList);
+    const errors = files.map(file => validateUploadFile(file, limits)).filter((e): e is string => e !== null);
+    const valid = files.filter(file => validateUploadFile(file, limits) === null);
+
+    setError(errors.length > 0 ? errors.join(' ') : null);
+    if (valid.length > 0) onFilesSelect(valid);
   };
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      validateAndPassFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      validateAndPassFiles(e.dataTransfer.files);
     }
-  }, [onFileSelect]);
+  }, [onFilesSelect, limits]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-      validateAndPassFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      validateAndPassFiles(e.target.files);
     }
+    // Reset so the same files can be selected again
+    e.target.value = '';
   };
 
   return (
@@ -82,10 +85,10 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isProcessi
                 {dragActive ? <ScanLine size={32} /> : <UploadCloud size={32} />}
               </div>
               <p className="text-lg font-medium text-slate-900 mb-1">
-                {dragActive ? "Drop to scan" : "Drop your document here"}
+                {dragActive ? "Drop to scan" : "Drop your documents here"}
               </p>
               <p className="text-sm text-slate-500 mb-4">
-                Supports JPG, PNG, PDF
+                {describeAllowedTypes(limits)} up to {formatBytes(maxUploadBytes(limits))} &middot; multiple files at once
               </p>
               <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-slate-100 text-slate-600">
                 <FileText size={12} className="mr-1.5" />
@@ -100,11 +103,22 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isProcessi
           type="file" 
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed z-20"
           onChange={handleChange}
-          accept="image/*,application/pdf"
+          accept={toAcceptAttribute(limits)}
+          multiple
           disabled={isProcessing}
         />
       </div>
       
+      {onScanClick && (
+        <button
+          onClick={onScanClick}
+          disabled={isProcessing}
+          className="mt-4 w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-slate-300 bg-white text-slate-700 font-medium hover:bg-slate-50 hover:border-brand-300 disabled:opacity-50 transition-colors"
+        >
+          <Camera size={18} className="text-brand-600" /> Scan with Camera
+        </button>
+      )}
+
       {error && (
         <div className="mt-4 p-3 rounded-lg bg-red-50 text-red-700 text-sm flex items-center animate-fadeIn shadow-sm">
           <AlertCircle size={16} className="mr-2" />
@@ -0,0 +1,224 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { AnalysisErrorKind, AnalyzeStreamEvent, ApiErrorCode, DocumentTemplate, ExtractionSettings } from "../types";
+import type { AnalysisProvider, AnalyzeOptions, AskRequest } from "../services/analysisProvider";
+import { formatBytes, MAX_UPLOAD_BYTES } from "../services/uploadService";
+import { toAnalysisError } from "../services/analysisErrors";
+import { DEFAULT_ANALYSIS_TIMEOUT_MS } from "../services/analysisQueue";
+import { parseExtractionSettings } from "../services/settingsService";
+import { HttpError, readFormData, sendError, sendJson, toErrorResponse } from "./http";
+import { RateLimiter } from "./rateLimit";
+
+// Room for the templates or the reviewed fields sent alongside the file
+const MAX_REQUEST_BYTES = MAX_UPLOAD_BYTES + 2 * 1024 * 1024;
+
+export interface ApiOptions {
+  backend: AnalysisProvider;
+  limiter: RateLimiter;
+  // Identify clients by X-Forwarded-For; only safe behind a proxy that sets it
+  trustProxy?: boolean;
+  // Longest an analysis or a question may take on the server, whatever the client's own timeout
+  timeoutMs?: number;
+}
+
+const clientId = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0].trim();
+  return (trustProxy && first) || req.socket.remoteAddress || "unknown";
+};
+
+// Model errors may echo request details, so every kind of failure is answered with a fixed message
+const UPSTREAM_ERRORS: Record<AnalysisErrorKind, [status: number, code: ApiErrorCode, message: string]> = {
+  invalid_api_key: [502, "upstream_auth", "The server's API key for the analysis service is missing or invalid."],
+  quota_exceeded: [503, "upstream_quota", "The analysis service quota is used up for now."],
+  service_unavailable: [503, "upstream_unavailable", "The analysis service is busy right now. Please try again shortly."],
+  safety_blocked: [422, "safety_blocked", "The analysis service declined to process this document."],
+  unsupported_file: [415, "unsupported_media_type", "The analysis service cannot read this kind of file."],
+  file_too_large: [413, "payload_too_large", "The document is too large for the analysis service."],
+  malformed_output: [502, "malformed_output", "The analysis service returned a result that could not be read."],
+  invalid_settings: [400, "invalid_settings", "The extraction settings are not valid."],
+  network: [502, "upstream_unreachable", "The analysis service could not be reached."],
+  timeout: [504, "upstream_timeout", "The analysis service took too long to answer."],
+  unknown: [502, "upstream_error", "The analysis service failed to process the document. Please try again."],
+};
+
+const asUpstreamError = (path: string, error: unknown): HttpError => {
+  if (error instanceof HttpError) return error;
+  console.error(`${path} failed:`, error);
+  const [status, code, message] = UPSTREAM_ERRORS[toAnalysisError(error).kind];
+  return new HttpError(status, code, message);
+};
+
+const readDocument = (form: FormData): File => {
+  const file = form.get("file");
+  if (!(file instanceof File)) {
+    throw new HttpError(400, "bad_request", "The request has no \"file\" part.");
+  }
+  if (!file.type.startsWith("image/") && file.type !== "application/pdf") {
+    throw new HttpError(415, "unsupported_media_type", "Only images (JPG, PNG) and PDFs can be analyzed.");
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new HttpError(413, "payload_too_large", `The document is larger than ${formatBytes(MAX_UPLOAD_BYTES)}.`);
+  }
+  return file;
+};
+
+// Parses an optional JSON part of the form
+const readJson = (form: FormData, name: string): unknown => {
+  const part = form.get(name);
+  if (part === null) return undefined;
+  try {
+    return JSON.parse(typeof part === "string" ? part : "");
+  } catch {
+    throw new HttpError(400, "bad_request", `The "${name}" part is not valid JSON.`);
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+// Only the parts the model prompts and template matching read are checked
+const isFieldLike = (value: unknown) =>
+  isObject(value) && isString(value.key) && isString(value.label) && isString(value.type);
+
+const isTemplate = (value: unknown) =>
+  isObject(value) && isString(value.id) && isString(value.name) && isString(value.documentType)
+  && Array.isArray(value.fields) && value.fields.every(isFieldLike);
+
+const isAskField = (value: unknown) => isFieldLike(value) && isString((value as { value?: unknown }).value);
+
+const isChatTurn = (value: unknown) =>
+  isObject(value) && (value.role === "user" || value.role === "assistant") && isString(value.text);
+
+const readTemplates = (form: FormData): DocumentTemplate[] => {
+  const templates = readJson(form, "templates") ?? [];
+  if (!Array.isArray(templates)) {
+    throw new HttpError(400, "bad_request", "\"templates\" must be a list.");
+  }
+  const invalid = templates.findIndex(t => !isTemplate(t));
+  if (invalid >= 0) {
+    throw new HttpError(400, "bad_request", `Template ${invalid + 1} needs an id, name, documentType and fields with a key, label and type.`);
+  }
+  return templates as DocumentTemplate[];
+};
+
+// Missing settings use the defaults; invalid ones are refused rather than silently replaced
+const readSettings = (form: FormData): ExtractionSettings => {
+  const { settings, errors } = parseExtractionSettings(readJson(form, "settings"));
+  if (errors.length > 0) throw new HttpError(400, "invalid_settings", `Invalid settings: ${errors.join(" ")}`);
+  return settings;
+};
+
+const readAskRequest = (form: FormData): AskRequest => {
+  const request = readJson(form, "request") as Partial<AskRequest> | undefined;
+  if (!request || typeof request.question !== "string" || !request.question.trim()) {
+    throw new HttpError(400, "bad_request", "\"request\" must contain a question.");
+  }
+  if (!Array.isArray(request.fields) || !request.fields.every(isAskField)) {
+    throw new HttpError(400, "bad_request", "\"request\" must contain the document's fields, each with a key, label, type and value.");
+  }
+  if (request.conversation !== undefined && (!Array.isArray(request.conversation) || !request.conversation.every(isChatTurn))) {
+    throw new HttpError(400, "bad_request", "\"request\" conversation must be a list of user and assistant turns with text.");
+  }
+  return { question: request.question, fields: request.fields, conversation: request.conversation ?? [] };
+};
+
+/**
+ * Request handler for the analysis API:
+ *   POST /api/analyze  multipart: file, templates (JSON), settings (JSON, optional)
+ *                                                         -> DocumentAnalysis, or an NDJSON
+ *                      stream of AnalyzeStreamEvents if the client accepts application/x-ndjson
+ *   POST /api/ask      multipart: file, request (JSON), settings (JSON, optional)
+ *                                                         -> DocumentAnswer
+ *   GET  /api/health                                      -> { status, backend }
+ * Failures are answered with an ApiErrorResponse.
+ */
+export const createApiHandler = ({ backend, limiter, trustProxy = false, timeoutMs = DEFAULT_ANALYSIS_TIMEOUT_MS }: ApiOptions) => {
+  // Model calls are what the limit protects, so only those count against it
+  const checkRateLimit = (req: IncomingMessage) => {
+    const result = limiter.take(clientId(req, trustProxy));
+    if (!result.allowed) {
+      const seconds = Math.ceil(result.retryAfterMs / 1000);
+      throw new HttpError(429, "rate_limited", `Too many requests. Try again in ${seconds} second${seconds === 1 ? "" : "s"}.`, seconds);
+    }
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (path === "/api/health") {
+      if (req.method !== "GET") throw new HttpError(405, "method_not_allowed", "Use GET.");
+      sendJson(res, 200, { status: "ok", backend: backend.id });
+      return;
+    }
+
+    if (path !== "/api/analyze" && path !== "/api/ask") {
+      throw new HttpError(404, "not_found", `No route for ${path}.`);
+    }
+    if (req.method !== "POST") throw new HttpError(405, "method_not_allowed", "Use POST.");
+    checkRateLimit(req);
+
+    const form = await readFormData(req, MAX_REQUEST_BYTES);
+    const file = readDocument(form);
+    // Stop the model call when the client cancels or gives up waiting
+    const abort = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abort.abort();
+    });
+    // The model call also stops on the server's own timeout; only a client abort leaves nobody to answer
+    const signal = AbortSignal.any([abort.signal, AbortSignal.timeout(timeoutMs)]);
+    try {
+      if (path === "/api/ask") {
+        sendJson(res, 200, await backend.ask(file, readAskRequest(form), { settings: readSettings(form), signal }));
+      } else if (req.headers.accept?.includes("application/x-ndjson")) {
+        await streamAnalysis(res, file, { templates: readTemplates(form), settings: readSettings(form), signal }, abort.signal);
+      } else {
+        sendJson(res, 200, await backend.analyze(file, { templates: readTemplates(form), settings: readSettings(form), signal }));
+      }
+    } catch (error) {
+      // Nobody is left to answer
+      if (abort.signal.aborted) return;
+      throw asUpstreamError(path, error);
+    }
+  };
+
+  // Once the stream has started, failures are reported as its last event instead of a status code
+  const streamAnalysis = async (res: ServerResponse, file: File, options: AnalyzeOptions, client: AbortSignal) => {
+    res.writeHead(200, {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+      "X-Accel-Buffering": "no",
+    });
+    const send = (event: AnalyzeStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+    let sentFields = 0;
+    try {
+      const analysis = await backend.analyze(file, {
+        ...options,
+        onProgress: partial => {
+          send({ type: "progress", documentType: partial.documentType, summary: partial.summary, fields: partial.fields.slice(sentFields) });
+          sentFields = partial.fields.length;
+        },
+      });
+      send({ type: "result", analysis });
+    } catch (error) {
+      if (!client.aborted) send({ type: "error", ...toErrorResponse(asUpstreamError("/api/analyze", error)) });
+    }
+    res.end();
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      await route(req, res);
+    } catch (error) {
+      if (!(error instanceof HttpError)) console.error("Unexpected API error:", error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      sendError(res, error instanceof HttpError
+        ? error
+        : new HttpError(500, "internal_error", "Something went wrong on the server."));
+    }
+  };
+};
@@ -0,0 +1,87 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { ApiErrorCode, ApiErrorResponse } from "../types";
+import { formatBytes } from "../services/uploadService";
+
+// Thrown by route handlers; anything else is reported as internal_error
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  const json = JSON.stringify(body);
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Length": Buffer.byteLength(json),
+    ...headers,
+  });
+  res.end(json);
+};
+
+export const toErrorResponse = (error: HttpError): ApiErrorResponse => {
+  const body: ApiErrorResponse = { error: { code: error.code, message: error.message } };
+  if (error.retryAfterSeconds !== undefined) body.error.retryAfterSeconds = error.retryAfterSeconds;
+  return body;
+};
+
+export const sendError = (res: ServerResponse, error: HttpError) => {
+  const headers: Record<string, string> = {};
+  if (error.retryAfterSeconds !== undefined) headers["Retry-After"] = String(error.retryAfterSeconds);
+  // The rest of an oversized body is never read, so the connection can't be reused
+  if (error.code === "payload_too_large") headers["Connection"] = "close";
+  sendJson(res, error.status, toErrorResponse(error), headers);
+};
+
+const tooLarge = (limit: number) =>
+  new HttpError(413, "payload_too_large", `The request is larger than ${formatBytes(limit)}.`);
+
+/**
+ * Reads the whole request body, failing as soon as it exceeds `limit` bytes.
+ * The declared Content-Length is checked first so oversized uploads are rejected before they are sent.
+ */
+export const readBody = (req: IncomingMessage, limit: number): Promise<Buffer> => {
+  const declared = Number(req.headers["content-length"]);
+  if (declared > limit) {
+    req.resume();
+    return Promise.reject(tooLarge(limit));
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.off("data", onData);
+        req.resume();
+        reject(tooLarge(limit));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+};
+
+// Parses a multipart/form-data body with the built-in Fetch API implementation
+export const readFormData = async (req: IncomingMessage, limit: number): Promise<FormData> => {
+  const contentType = req.headers["content-type"] ?? "";
+  if (!contentType.startsWith("multipart/form-data")) {
+    req.resume();
+    throw new HttpError(415, "unsupported_media_type", "Send the document as multipart/form-data.");
+  }
+  const body = await readBody(req, limit);
+  try {
+    return await new Request("http://localhost/", { method: "POST", headers: { "content-type": contentType }, body }).formData();
+  } catch {
+    throw new HttpError(400, "bad_request", "The multipart body could not be parsed.");
+  }
+};
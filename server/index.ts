@@ -0,0 +1,38 @@
+import { createServer } from "node:http";
+import type { AnalysisProvider } from "../services/analysisProvider";
+import { geminiProvider } from "../services/geminiService";
+import { mockProvider } from "../services/mockProvider";
+import { createApiHandler } from "./api";
+import { createRateLimiter } from "./rateLimit";
+
+// Same file the Vite dev server reads; variables already set in the environment win
+try {
+  process.loadEnvFile(".env.local");
+} catch {
+  // No .env.local; rely on the environment
+}
+
+const env = process.env;
+const port = Number(env.API_PORT) || 3001;
+// `--stub` answers from the fixtures, for running the app and its tests without a key
+const useStub = process.argv.includes("--stub") || env.ANALYSIS_BACKEND === "stub";
+const backend: AnalysisProvider = useStub ? mockProvider : geminiProvider;
+
+if (!useStub && !env.GEMINI_API_KEY) {
+  console.error("GEMINI_API_KEY is not set. Add it to .env.local, or start the server with --stub.");
+  process.exit(1);
+}
+
+const handler = createApiHandler({
+  backend,
+  limiter: createRateLimiter({
+    limit: Number(env.RATE_LIMIT_REQUESTS) || 20,
+    windowMs: Number(env.RATE_LIMIT_WINDOW_MS) || 60_000,
+  }),
+  trustProxy: env.TRUST_PROXY === "1",
+  timeoutMs: Number(env.ANALYSIS_TIMEOUT_MS) || undefined,
+});
+
+createServer(handler).listen(port, () => {
+  console.log(`DocuSight API listening on http://localhost:${port} (backend: ${backend.name})`);
+});
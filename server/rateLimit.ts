@@ -0,0 +1,44 @@
+export interface RateLimiterOptions {
+  limit: number; // Requests allowed per client within one window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take: (clientId: string, now?: number) => RateLimitResult;
+}
+
+/**
+ * Sliding-window limiter keeping the recent request times of each client in memory.
+ * Clients that have been quiet for a whole window are forgotten on the next sweep.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimiterOptions): RateLimiter => {
+  const hits = new Map<string, number[]>();
+  let lastSweep = 0;
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    for (const [clientId, times] of hits) {
+      if (now - times[times.length - 1] >= windowMs) hits.delete(clientId);
+    }
+  };
+
+  return {
+    take: (clientId, now = Date.now()) => {
+      sweep(now);
+      const recent = (hits.get(clientId) ?? []).filter(time => now - time < windowMs);
+      if (recent.length >= limit) {
+        hits.set(clientId, recent);
+        return { allowed: false, retryAfterMs: recent[0] + windowMs - now };
+      }
+      recent.push(now);
+      hits.set(clientId, recent);
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
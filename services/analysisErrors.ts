@@ -0,0 +1,112 @@
+import { AnalysisErrorKind, AnalysisFailure, ApiErrorCode } from "../types";
+import type { RetryHint } from "./retryService";
+
+// Temporary conditions that another attempt may get past. The queue's own timeout aborts
+// the analysis, and aborted analyses are never retried, so only upstream timeouts are.
+const RETRYABLE_KINDS: AnalysisErrorKind[] = ["quota_exceeded", "service_unavailable", "network", "timeout"];
+
+export interface AnalysisErrorDetails {
+  status?: number; // HTTP status of the failed request
+  code?: ApiErrorCode;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+/**
+ * A failed analysis, classified by what the user can do about it.
+ * Providers throw these; anything else is classified by toAnalysisError.
+ */
+export class AnalysisError extends Error implements RetryHint {
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly code?: ApiErrorCode;
+  readonly retryAfterMs?: number;
+
+  constructor(readonly kind: AnalysisErrorKind, message: string, { status, code, retryAfterMs, cause }: AnalysisErrorDetails = {}) {
+    super(message, { cause });
+    this.name = "AnalysisError";
+    this.retryable = RETRYABLE_KINDS.includes(kind);
+    this.status = status;
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const toAnalysisError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+  // Raised by the queue when a document runs out of time
+  if (error instanceof DOMException && error.name === "TimeoutError") {
+    return new AnalysisError("timeout", error.message, { cause: error });
+  }
+  return new AnalysisError("unknown", error instanceof Error ? error.message : String(error), { cause: error });
+};
+
+// The API server reports every kind with its own code (see server/api.ts)
+const KIND_BY_CODE: Partial<Record<ApiErrorCode, AnalysisErrorKind>> = {
+  payload_too_large: "file_too_large",
+  unsupported_media_type: "unsupported_file",
+  rate_limited: "quota_exceeded",
+  upstream_quota: "quota_exceeded",
+  upstream_auth: "invalid_api_key",
+  upstream_unavailable: "service_unavailable",
+  upstream_timeout: "timeout",
+  upstream_unreachable: "network",
+  safety_blocked: "safety_blocked",
+  malformed_output: "malformed_output",
+  invalid_settings: "invalid_settings",
+};
+
+// For responses without an error body or with a code that says nothing more, e.g. from a proxy in front of the server
+const KIND_BY_STATUS: Record<number, AnalysisErrorKind> = {
+  413: "file_too_large",
+  415: "unsupported_file",
+  429: "quota_exceeded",
+  502: "service_unavailable",
+  503: "service_unavailable",
+  504: "timeout",
+};
+
+export const kindForApiError = (status: number, code?: ApiErrorCode): AnalysisErrorKind =>
+  (code && KIND_BY_CODE[code]) || KIND_BY_STATUS[status] || "unknown";
+
+export const toAnalysisFailure = (error: AnalysisError, attempts: number): AnalysisFailure => ({
+  kind: error.kind,
+  message: error.message,
+  status: error.status,
+  code: error.code,
+  attempts,
+  occurredAt: new Date().toISOString(),
+});
+
+// Credentials that could end up in an error message, e.g. echoed in a request URL
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/\b((?:api_?)?key|token)=[^&\s]+/gi, "$1=[redacted]"],
+  [/(Bearer\s+)[\w.~+/-]+=*/gi, "$1[redacted]"],
+  [/AIza[0-9A-Za-z_-]{35}/g, "[api key]"],
+];
+
+export const redactSecrets = (text: string): string =>
+  SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+
+export interface DiagnosticContext {
+  provider: string;
+  fileType: string;
+  fileSize: number;
+}
+
+/**
+ * Plain-text report of a failure for support requests.
+ * Leaves out the file name and contents, and masks anything that looks like a credential.
+ */
+export const buildDiagnostic = (failure: AnalysisFailure, context: DiagnosticContext): string =>
+  JSON.stringify({
+    kind: failure.kind,
+    message: redactSecrets(failure.message),
+    status: failure.status,
+    code: failure.code,
+    attempts: failure.attempts,
+    occurredAt: failure.occurredAt,
+    provider: context.provider,
+    file: { type: context.fileType, size: context.fileSize },
+    userAgent: typeof navigator === "undefined" ? undefined : navigator.userAgent,
+  }, null, 2);
@@ -0,0 +1,63 @@
+import { ChatMessage, DocumentAnalysis, DocumentTemplate, ExtractionSettings, FieldData, PartialAnalysis } from "../types";
+import { apiProvider } from "./apiProvider";
+import { mockProvider } from "./mockProvider";
+
+export interface AnalyzeOptions {
+  // Saved templates the provider may match the document against to stabilize keys and layout
+  templates?: DocumentTemplate[];
+  // Model and prompt options from the settings panel; providers fall back to DEFAULT_SETTINGS
+  settings?: ExtractionSettings;
+  // Called with everything extracted so far, for providers that stream their output
+  onProgress?: (partial: PartialAnalysis) => void;
+  // Stops the analysis; the returned promise then rejects with the signal's reason
+  signal?: AbortSignal;
+}
+
+export interface AskRequest {
+  question: string;
+  fields: FieldData[]; // Current values, including the reviewer's edits
+  conversation: ChatMessage[]; // Earlier turns, oldest first
+}
+
+export interface AskOptions {
+  // Model and thinking budget from the settings panel; providers fall back to DEFAULT_SETTINGS
+  settings?: ExtractionSettings;
+  // Stops the question; the returned promise then rejects with the signal's reason
+  signal?: AbortSignal;
+}
+
+export interface DocumentAnswer {
+  answer: string; // May reference fields inline as [fieldKey]
+  citations: string[]; // Keys of the fields the answer is based on
+}
+
+/**
+ * A backend capable of turning an uploaded document into a DocumentAnalysis.
+ * The UI only talks to this interface, so vendors can be swapped without touching components.
+ */
+export interface AnalysisProvider {
+  id: string;
+  name: string;
+  analyze: (file: File, options?: AnalyzeOptions) => Promise<DocumentAnalysis>;
+  // Answers a follow-up question about an analyzed document
+  ask: (file: File, request: AskRequest, options?: AskOptions) => Promise<DocumentAnswer>;
+}
+
+// Model vendors such as Gemini run behind the API server (see server/), never in the browser
+const providers: Record<string, AnalysisProvider> = {
+  [apiProvider.id]: apiProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+export const listAnalysisProviders = (): AnalysisProvider[] => Object.values(providers);
+
+// Selected at build time via ANALYSIS_PROVIDER (see vite.config.ts). Defaults to the API server.
+export const getAnalysisProvider = (id: string | undefined = process.env.ANALYSIS_PROVIDER): AnalysisProvider => {
+  if (id && providers[id]) {
+    return providers[id];
+  }
+  if (id) {
+    console.warn(`Unknown analysis provider "${id}", falling back to ${apiProvider.id}`);
+  }
+  return apiProvider;
+};
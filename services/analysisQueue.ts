@@ -0,0 +1,156 @@
+import { DocumentAnalysis, PartialAnalysis, QueueItem } from "../types";
+import { createId } from "./id";
+import { DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from "./retryService";
+import { toAnalysisError, toAnalysisFailure } from "./analysisErrors";
+
+export const DEFAULT_QUEUE_CONCURRENCY = 2;
+// Covers every attempt of one document, including the waits between retries
+export const DEFAULT_ANALYSIS_TIMEOUT_MS = 3 * 60 * 1000;
+
+export interface AnalysisQueueOptions {
+  analyze: (file: File, onProgress: (partial: PartialAnalysis) => void, signal: AbortSignal) => Promise<DocumentAnalysis>;
+  onChange: (items: QueueItem[]) => void;
+  concurrency?: number;
+  timeoutMs?: number;
+  retryPolicy?: RetryPolicy;
+}
+
+export interface AnalysisQueue {
+  enqueue: (files: File[]) => QueueItem[];
+  restore: (id: string, source: File, result: DocumentAnalysis) => QueueItem;
+  retry: (id: string) => void;
+  cancel: (id: string) => void;
+  remove: (id: string) => void;
+  setConcurrency: (concurrency: number) => void;
+  getItems: () => QueueItem[];
+}
+
+/**
+ * Runs document analyses with bounded concurrency.
+ * Every state transition publishes a fresh items array through `onChange`, so it can be fed straight into React state.
+ */
+export const createAnalysisQueue = ({
+  analyze,
+  onChange,
+  concurrency = DEFAULT_QUEUE_CONCURRENCY,
+  timeoutMs = DEFAULT_ANALYSIS_TIMEOUT_MS,
+  retryPolicy = DEFAULT_RETRY_POLICY,
+}: AnalysisQueueOptions): AnalysisQueue => {
+  let items: QueueItem[] = [];
+  let limit = Math.max(1, concurrency);
+  let running = 0;
+  // Aborts the analysis in flight for an item
+  const controllers = new Map<string, AbortController>();
+
+  const update = (id: string, patch: Partial<QueueItem>) => {
+    items = items.map(item => item.id === id ? { ...item, ...patch } : item);
+    onChange(items);
+  };
+
+  const run = async (item: QueueItem) => {
+    running++;
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    const timer = setTimeout(() => {
+      controller.abort(new DOMException(`The analysis did not finish within ${Math.round(timeoutMs / 1000)} seconds.`, "TimeoutError"));
+    }, timeoutMs);
+    // False once the item was cancelled or removed while in flight
+    const isActive = () => items.some(i => i.id === item.id && i.status === "analyzing");
+
+    update(item.id, { status: "analyzing", attempt: 1, error: undefined, failure: undefined, partial: undefined });
+    let attempts = 1;
+    try {
+      const result = await withRetry(attempt => {
+        attempts = attempt;
+        if (attempt > 1) update(item.id, { attempt, error: undefined });
+        return analyze(item.source, partial => {
+          if (isActive()) update(item.id, { partial });
+        }, controller.signal);
+      }, {
+        policy: retryPolicy,
+        signal: controller.signal,
+        // The error stays visible while waiting, so it's clear why the analysis is taking longer
+        onRetry: (_attempt, _delayMs, error) => {
+          if (isActive()) update(item.id, { error: error instanceof Error ? error.message : String(error), partial: undefined });
+        },
+      });
+      if (isActive()) update(item.id, { status: "done", result, attempt: undefined, partial: undefined });
+    } catch (err) {
+      // Errors thrown after a timeout are side effects of the abort; report the timeout itself
+      const error = toAnalysisError(controller.signal.aborted ? controller.signal.reason : err);
+      if (isActive()) {
+        console.error(`Analysis failed for ${item.file.name}`, error);
+        update(item.id, { status: "failed", error: error.message, failure: toAnalysisFailure(error, attempts), attempt: undefined, partial: undefined });
+      }
+    } finally {
+      clearTimeout(timer);
+      controllers.delete(item.id);
+      running--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (running < limit) {
+      const next = items.find(item => item.status === "queued");
+      if (!next) return;
+      void run(next);
+    }
+  };
+
+  const toUploadedFile = (source: File) => ({
+    name: source.name,
+    type: source.type,
+    url: URL.createObjectURL(source),
+    base64: "" // handled in service
+  });
+
+  return {
+    enqueue: (files) => {
+      const added: QueueItem[] = files.map(source => ({
+        id: createId(),
+        file: toUploadedFile(source),
+        source,
+        status: "queued",
+      }));
+      items = [...items, ...added];
+      onChange(items);
+      pump();
+      return added;
+    },
+    // Adds an already analyzed document (e.g. reopened from history) without running it again
+    restore: (id, source, result) => {
+      const existing = items.find(i => i.id === id);
+      if (existing) return existing;
+      const item: QueueItem = { id, file: toUploadedFile(source), source, status: "done", result };
+      items = [...items, item];
+      onChange(items);
+      return item;
+    },
+    retry: (id) => {
+      const item = items.find(i => i.id === id);
+      if (!item || (item.status !== "failed" && item.status !== "cancelled")) return;
+      update(id, { status: "queued", error: undefined, failure: undefined });
+      pump();
+    },
+    cancel: (id) => {
+      const item = items.find(i => i.id === id);
+      if (!item || (item.status !== "queued" && item.status !== "analyzing")) return;
+      update(id, { status: "cancelled", attempt: undefined, error: undefined, partial: undefined });
+      controllers.get(id)?.abort(new DOMException("The analysis was cancelled.", "AbortError"));
+    },
+    remove: (id) => {
+      const item = items.find(i => i.id === id);
+      if (!item) return;
+      controllers.get(id)?.abort(new DOMException("The document was removed from the queue.", "AbortError"));
+      URL.revokeObjectURL(item.file.url);
+      items = items.filter(i => i.id !== id);
+      onChange(items);
+    },
+    setConcurrency: (value) => {
+      limit = Math.max(1, value);
+      pump();
+    },
+    getItems: () => items,
+  };
+};
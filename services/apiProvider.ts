@@ -0,0 +1,116 @@
+import { AnalyzeStreamEvent, ApiErrorResponse, DocumentAnalysis, PartialAnalysis } from "../types";
+import type { AnalysisProvider, AnalyzeOptions, DocumentAnswer } from "./analysisProvider";
+import { normalizeAnalysis } from "./normalizeAnalysis";
+import { AnalysisError, kindForApiError } from "./analysisErrors";
+
+// Served by server/ (proxied by Vite during development), which holds the model API key
+const API_BASE = "/api";
+
+const toError = (status: number, { code, message, retryAfterSeconds }: ApiErrorResponse["error"]) =>
+  new AnalysisError(kindForApiError(status, code), message, {
+    status,
+    code,
+    retryAfterMs: retryAfterSeconds === undefined ? undefined : retryAfterSeconds * 1000,
+  });
+
+const readError = async (response: Response): Promise<AnalysisError> => {
+  const body = await response.json().catch(() => null) as Partial<ApiErrorResponse> | null;
+  if (body?.error) return toError(response.status, body.error);
+  return new AnalysisError(kindForApiError(response.status), `The analysis server responded with status ${response.status}.`, { status: response.status });
+};
+
+// Like fetch, but a connection failure becomes a network AnalysisError; aborts are passed through
+const request = async (path: string, init: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(`${API_BASE}/${path}`, init);
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new AnalysisError("network", "The analysis server could not be reached.", { cause: error });
+  }
+};
+
+const postForm = async <T>(path: string, form: FormData, signal?: AbortSignal): Promise<T> => {
+  const response = await request(path, { method: "POST", body: form, signal });
+  if (!response.ok) throw await readError(response);
+  return await response.json() as T;
+};
+
+// Yields the NDJSON events of a streamed response as each line arrives
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<AnalyzeStreamEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (value) buffer += value;
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as AnalyzeStreamEvent;
+    }
+    if (done) return;
+  }
+}
+
+// Rebuilds the growing analysis from progress events, which only carry the fields not sent before
+const analyzeStreaming = async (
+  form: FormData,
+  onProgress: NonNullable<AnalyzeOptions["onProgress"]>,
+  signal?: AbortSignal
+): Promise<DocumentAnalysis> => {
+  const response = await request("analyze", {
+    method: "POST",
+    body: form,
+    headers: { Accept: "application/x-ndjson" },
+    signal,
+  });
+  if (!response.ok) throw await readError(response);
+  if (!response.body) throw new Error("The analysis server sent an empty response.");
+
+  let partial: PartialAnalysis = { fields: [] };
+  try {
+    for await (const event of readEvents(response.body)) {
+      switch (event.type) {
+        case "progress":
+          partial = {
+            documentType: event.documentType ?? partial.documentType,
+            summary: event.summary ?? partial.summary,
+            fields: [...partial.fields, ...event.fields],
+          };
+          onProgress(partial);
+          break;
+        case "result":
+          return event.analysis;
+        case "error":
+          throw toError(response.status, event.error);
+      }
+    }
+  } catch (error) {
+    if (error instanceof AnalysisError || signal?.aborted) throw error;
+    throw new AnalysisError("network", "The connection to the analysis server was lost.", { cause: error });
+  }
+  // Most likely a dropped connection, so worth another try
+  throw new AnalysisError("network", "The analysis stream ended before the result arrived.");
+};
+
+export const apiProvider: AnalysisProvider = {
+  id: "server",
+  name: "DocuSight server",
+  analyze: async (file, options) => {
+    const form = new FormData();
+    form.append("file", file);
+    form.append("templates", JSON.stringify(options?.templates ?? []));
+    if (options?.settings) form.append("settings", JSON.stringify(options.settings));
+    const analysis = options?.onProgress
+      ? await analyzeStreaming(form, options.onProgress, options.signal)
+      : await postForm<DocumentAnalysis>("analyze", form, options?.signal);
+    // The server already validated the output; this guards against a mismatched server version
+    return normalizeAnalysis(analysis).analysis;
+  },
+  ask: async (file, request, options) => {
+    const form = new FormData();
+    form.append("file", file);
+    form.append("request", JSON.stringify(request));
+    if (options?.settings) form.append("settings", JSON.stringify(options.settings));
+    return postForm<DocumentAnswer>("ask", form, options?.signal);
+  },
+};
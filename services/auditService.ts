@@ -0,0 +1,61 @@
+import { FieldData, FieldEdit, FieldEditAction } from "../types";
+import { createId } from "./id";
+
+// Keystrokes in the same field within this window form a single undo step and audit entry
+export const EDIT_COALESCE_MS = 1500;
+
+/**
+ * Keeps the model output on every field so edits can be audited and reverted.
+ * Fields that already carry an original (e.g. reopened from history) are left alone.
+ */
+export const withOriginalValues = (fields: FieldData[]): FieldData[] =>
+  fields.map(f => f.original ? f : { ...f, original: { value: f.value, status: f.status } });
+
+// Fills in originals for edited fields stored before originals were tracked, using the model output
+export const restoreOriginalValues = (edited: FieldData[], extracted: FieldData[]): FieldData[] =>
+  edited.map(f => {
+    if (f.original) return f;
+    const source = extracted.find(e => e.key === f.key);
+    return { ...f, original: source?.original ?? { value: source?.value ?? "", status: source?.status ?? 'empty' } };
+  });
+
+export const isFieldModified = (field: FieldData): boolean =>
+  !!field.original && (field.value !== field.original.value || field.status !== field.original.status);
+
+// One audit entry per field whose value or status differs between the two snapshots
+export const diffFields = (before: FieldData[], after: FieldData[], action: FieldEditAction, timestamp = Date.now()): FieldEdit[] => {
+  const edits: FieldEdit[] = [];
+  for (const next of after) {
+    const prev = before.find(f => f.key === next.key);
+    if (!prev || (prev.value === next.value && prev.status === next.status)) continue;
+    edits.push({
+      id: createId(),
+      fieldKey: next.key,
+      action,
+      timestamp,
+      previousValue: prev.value,
+      newValue: next.value,
+      previousStatus: prev.status,
+      newStatus: next.status,
+    });
+  }
+  return edits;
+};
+
+/**
+ * Appends edits to the log. Continued typing in the same field updates the last entry
+ * instead of recording every keystroke.
+ */
+export const appendToAuditLog = (log: FieldEdit[], edits: FieldEdit[]): FieldEdit[] => {
+  const last = log[log.length - 1];
+  const [edit] = edits;
+  if (
+    edits.length === 1 && last &&
+    edit.action === 'edit' && last.action === 'edit' &&
+    edit.fieldKey === last.fieldKey &&
+    edit.timestamp - last.timestamp < EDIT_COALESCE_MS
+  ) {
+    return [...log.slice(0, -1), { ...last, timestamp: edit.timestamp, newValue: edit.newValue, newStatus: edit.newStatus }];
+  }
+  return [...log, ...edits];
+};
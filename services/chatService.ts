@@ -0,0 +1,40 @@
+import { ChatMessage, FieldData } from "../types";
+import type { DocumentAnswer } from "./analysisProvider";
+import { createId } from "./id";
+
+// Inline citation marker in answer text, e.g. "Payment is due on 2025-04-03 [dueDate]."
+const CITATION_MARKER = /\[([A-Za-z][\w-]*)\]/;
+const CITATION_PATTERN = new RegExp(CITATION_MARKER.source, "g");
+
+// Splits answer text around citations; odd entries are the cited field keys
+export const splitCitations = (text: string): string[] => text.split(CITATION_MARKER);
+
+export const createChatMessage = (role: ChatMessage['role'], text: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id: createId(),
+  role,
+  text,
+  timestamp: Date.now(),
+  ...extra,
+});
+
+// Fields as the model sees them: images are summarized rather than sent as data URLs
+export const describeFieldsForPrompt = (fields: FieldData[]): string =>
+  JSON.stringify(fields.map(f => ({
+    key: f.key,
+    label: f.label,
+    type: f.type,
+    status: f.status,
+    value: f.value.startsWith("data:") ? "[image provided]" : f.value,
+  })), null, 2);
+
+/**
+ * Keeps only citations of fields that exist, including ones referenced inline but
+ * missing from the citation list, and drops inline markers for unknown keys.
+ */
+export const normalizeAnswer = (answer: DocumentAnswer, fields: FieldData[]): DocumentAnswer => {
+  const keys = new Set(fields.map(f => f.key));
+  const inline = [...answer.answer.matchAll(CITATION_PATTERN)].map(m => m[1]);
+  const citations = Array.from(new Set([...answer.citations, ...inline])).filter(key => keys.has(key));
+  const text = answer.answer.replace(CITATION_PATTERN, (marker, key: string) => keys.has(key) ? marker : "").trim();
+  return { answer: text, citations };
+};
@@ -0,0 +1,87 @@
+import { AnalysisDiff, DocumentAnalysis, FieldData, FieldDiff, PiiFinding } from "../types";
+
+const normalizeLabel = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const COMPARED_PROPERTIES: FieldDiff['changedProperties'] = ['value', 'status', 'type', 'required'];
+
+/**
+ * Pairs fields of two analyses: first by key, then by label among the fields left over,
+ * so a renamed key on a revised form still lines up with its predecessor.
+ */
+const matchFields = (before: FieldData[], after: FieldData[]): [FieldData | undefined, FieldData | undefined][] => {
+  const unmatchedBefore = new Set(before);
+  const pairs: [FieldData | undefined, FieldData | undefined][] = [];
+  const pending: FieldData[] = [];
+
+  for (const field of after) {
+    const match = before.find(b => unmatchedBefore.has(b) && b.key === field.key);
+    if (match) {
+      unmatchedBefore.delete(match);
+      pairs.push([match, field]);
+    } else {
+      pending.push(field);
+    }
+  }
+
+  for (const field of pending) {
+    const label = normalizeLabel(field.label);
+    const match = before.find(b => unmatchedBefore.has(b) && normalizeLabel(b.label) === label);
+    if (match) unmatchedBefore.delete(match);
+    pairs.push([match, field]);
+  }
+
+  for (const field of before) {
+    if (unmatchedBefore.has(field)) pairs.push([field, undefined]);
+  }
+  return pairs;
+};
+
+// Risks are the same if they are of one category and concern the same field or description
+const riskIdentity = (risk: PiiFinding, keyMap: Map<string, string>) =>
+  `${risk.category}|${risk.fieldKey ? keyMap.get(risk.fieldKey) ?? risk.fieldKey : normalizeLabel(risk.description)}`;
+
+/**
+ * Compares an older and a newer analysis of the same form. Field keys in the result follow the newer
+ * analysis; missing fields and security risks are reported as additions and removals.
+ */
+export const diffAnalyses = (before: DocumentAnalysis, after: DocumentAnalysis): AnalysisDiff => {
+  const fields: FieldDiff[] = matchFields(before.fields, after.fields).map(([b, a]) => {
+    const field = (a ?? b) as FieldData;
+    if (!b || !a) {
+      return { key: field.key, label: field.label, change: a ? 'added' : 'removed', before: b, after: a, changedProperties: [] };
+    }
+    const changedProperties = COMPARED_PROPERTIES.filter(prop => b[prop] !== a[prop]);
+    return {
+      key: a.key,
+      label: a.label,
+      change: changedProperties.length > 0 ? 'changed' : 'unchanged',
+      before: b,
+      after: a,
+      changedProperties,
+    };
+  });
+
+  // Older keys are translated so a renamed field is not reported as newly missing
+  const keyMap = new Map<string, string>();
+  for (const diff of fields) {
+    if (diff.before) keyMap.set(diff.before.key, diff.key);
+  }
+  const missingBefore = new Set(before.missingFields.map(k => keyMap.get(k) ?? k));
+  const missingAfter = new Set(after.missingFields);
+
+  const risksBefore = new Set(before.securityRisks.map(r => riskIdentity(r, keyMap)));
+  const risksAfter = new Set(after.securityRisks.map(r => riskIdentity(r, new Map())));
+
+  return {
+    documentTypeChanged: normalizeLabel(before.documentType) !== normalizeLabel(after.documentType),
+    fields,
+    missingFields: {
+      added: [...missingAfter].filter(k => !missingBefore.has(k)),
+      removed: [...missingBefore].filter(k => !missingAfter.has(k)),
+    },
+    securityRisks: {
+      added: after.securityRisks.filter(r => !risksBefore.has(riskIdentity(r, new Map()))),
+      removed: before.securityRisks.filter(r => !risksAfter.has(riskIdentity(r, keyMap))),
+    },
+  };
+};
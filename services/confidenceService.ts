@@ -0,0 +1,44 @@
+import { FieldData } from "../types";
+import { ValidationErrors } from "./validationService";
+
+// Fields scoring below this are offered for review unless the reviewer picks another threshold
+export const DEFAULT_REVIEW_THRESHOLD = 0.7;
+export const REVIEW_THRESHOLDS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+// Assumed when the provider did not report a confidence for a field
+const UNREPORTED_CONFIDENCE = 0.75;
+
+export interface FieldConfidence {
+  score: number; // 0-1
+  reasons: string[]; // Why the score is lower than the model reported
+}
+
+/**
+ * Combines the model's own confidence with local signals: a field the model flagged as uncertain,
+ * a value that fails validation, or a value copied from the example placeholder.
+ */
+export const getFieldConfidence = (field: FieldData, validationError?: string): FieldConfidence => {
+  const reasons: string[] = [];
+  let score = field.confidence ?? UNREPORTED_CONFIDENCE;
+  if (field.confidence === undefined) reasons.push("No confidence was reported for this field.");
+
+  if (field.status === 'uncertain') {
+    score = Math.min(score, 0.5);
+    reasons.push("The AI marked this value as uncertain.");
+  }
+  if (validationError) {
+    score = Math.min(score, 0.3);
+    reasons.push(validationError);
+  }
+  if (field.example && field.value && field.value.trim() === field.example.trim()) {
+    score = Math.min(score, 0.4);
+    reasons.push("The value is identical to the example placeholder.");
+  }
+
+  return { score, reasons };
+};
+
+export const getFieldConfidences = (fields: FieldData[], errors: ValidationErrors): Record<string, FieldConfidence> =>
+  Object.fromEntries(fields.map(f => [f.key, getFieldConfidence(f, errors[f.key])]));
+
+export const formatConfidence = (score: number) => `${Math.round(score * 100)}%`;
@@ -0,0 +1,292 @@
+import { jsPDF, AcroFormCheckBox, AcroFormTextField } from "jspdf";
+import { DocumentAnalysis, FieldData } from "../types";
+import { isCheckedValue } from "./validationService";
+import { normalizedText } from "./localeService";
+
+// A document ready for export: `analysis.fields` holds the current (edited, masked) values
+export interface ExportDocument {
+  name: string;
+  analysis: DocumentAnalysis;
+}
+
+export type CsvLayout = 'document' | 'field' | 'item';
+
+// A rendered page used as the background of a generated PDF
+export interface PdfPage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadText = (content: string, mimeType: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  downloadUrl(url, filename);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Image and signature values are data URLs; they are summarized so spreadsheets stay usable
+const exportValue = (field: FieldData) =>
+  field.value.startsWith("data:") ? "[image]" : field.value;
+
+const escapeCsv = (value: string | number | boolean) => {
+  let text = String(value);
+  // Neutralize spreadsheet formulas, but leave signed numbers alone
+  if (/^[=@]/.test(text) || /^[+-][^\d.]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRows = (rows: (string | number | boolean)[][]) =>
+  rows.map(row => row.map(escapeCsv).join(",")).join("\r\n");
+
+/**
+ * Builds a CSV with one row per document (a column per field key, in first-seen order),
+ * one row per field, or one row per table line item.
+ */
+export const toCsv = (documents: ExportDocument[], layout: CsvLayout): string => {
+  if (layout === 'item') {
+    // Tables from different documents rarely share columns; merge them by column label
+    const labels: string[] = [];
+    for (const { analysis } of documents) {
+      for (const table of analysis.tables ?? []) {
+        for (const column of table.columns) {
+          if (!labels.includes(column.label)) labels.push(column.label);
+        }
+      }
+    }
+    const header = ["document", "documentType", "table", "row", "page", ...labels];
+    const rows = documents.flatMap(({ name, analysis }) =>
+      (analysis.tables ?? []).flatMap(table => table.rows.map((row, idx) => [
+        name,
+        analysis.documentType,
+        table.title,
+        idx + 1,
+        row.page,
+        ...labels.map(label => {
+          const colIdx = table.columns.findIndex(c => c.label === label);
+          return colIdx === -1 ? "" : row.cells[colIdx]?.value ?? "";
+        })
+      ]))
+    );
+    return toCsvRows([header, ...rows]);
+  }
+
+  if (layout === 'field') {
+    const header = ["document", "documentType", "locale", "key", "label", "type", "value", "normalizedValue", "currency", "status", "required", "page"];
+    const rows = documents.flatMap(({ name, analysis }) =>
+      analysis.fields.map(f => [
+        name, analysis.documentType, analysis.locale ?? "", f.key, f.label, f.type, exportValue(f),
+        f.normalized ? normalizedText(f.normalized) : "",
+        f.normalized?.kind === 'currency' ? f.normalized.currency ?? "" : "",
+        f.status, f.required, f.page
+      ])
+    );
+    return toCsvRows([header, ...rows]);
+  }
+
+  const keys: string[] = [];
+  for (const { analysis } of documents) {
+    for (const field of analysis.fields) {
+      if (!keys.includes(field.key)) keys.push(field.key);
+    }
+  }
+  // Fields with a typed reading in any document get extra columns next to the raw value
+  const columns = keys.flatMap(key => {
+    const normalized = documents.map(d => d.analysis.fields.find(f => f.key === key)?.normalized);
+    const parts: ('value' | 'normalized' | 'currency')[] = ['value'];
+    if (normalized.some(n => n)) parts.push('normalized');
+    if (normalized.some(n => n?.kind === 'currency')) parts.push('currency');
+    return parts.map(part => ({ key, part }));
+  });
+
+  const header = ["document", "documentType", "locale", ...columns.map(c => c.part === 'value' ? c.key : `${c.key}.${c.part}`)];
+  const rows = documents.map(({ name, analysis }) => [
+    name,
+    analysis.documentType,
+    analysis.locale ?? "",
+    ...columns.map(({ key, part }) => {
+      const field = analysis.fields.find(f => f.key === key);
+      if (!field) return "";
+      if (part === 'value') return exportValue(field);
+      if (!field.normalized) return "";
+      if (part === 'normalized') return normalizedText(field.normalized);
+      return field.normalized.kind === 'currency' ? field.normalized.currency ?? "" : "";
+    })
+  ]);
+  return toCsvRows([header, ...rows]);
+};
+
+const escapeXml = (value: string | number | boolean) =>
+  String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const attrs = (values: Record<string, string | number | boolean | undefined>) =>
+  Object.entries(values)
+    .filter(([, v]) => v !== undefined && v !== "")
+    .map(([k, v]) => ` ${k}="${escapeXml(v as string | number | boolean)}"`)
+    .join("");
+
+export const toXml = (documents: ExportDocument[]): string => {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', "<documents>"];
+  for (const { name, analysis } of documents) {
+    lines.push(`  <document${attrs({ name, type: analysis.documentType, locale: analysis.locale })}>`);
+    lines.push(`    <summary>${escapeXml(analysis.summary)}</summary>`);
+
+    lines.push("    <fields>");
+    for (const f of analysis.fields) {
+      lines.push(`      <field${attrs({ key: f.key, type: f.type, status: f.status, required: f.required, page: f.page })}>`);
+      lines.push(`        <label>${escapeXml(f.label)}</label>`);
+      lines.push(`        <value>${escapeXml(f.value)}</value>`);
+      if (f.normalized) {
+        const currency = f.normalized.kind === 'currency' ? f.normalized.currency ?? undefined : undefined;
+        lines.push(`        <normalized${attrs({ kind: f.normalized.kind, currency })}>${escapeXml(normalizedText(f.normalized))}</normalized>`);
+      }
+      if (f.boundingBox) lines.push(`        <boundingBox>${f.boundingBox.join(" ")}</boundingBox>`);
+      lines.push("      </field>");
+    }
+    lines.push("    </fields>");
+
+    lines.push("    <missingFields>");
+    for (const key of analysis.missingFields) lines.push(`      <key>${escapeXml(key)}</key>`);
+    lines.push("    </missingFields>");
+
+    lines.push("    <securityRisks>");
+    for (const r of analysis.securityRisks) {
+      lines.push(`      <finding${attrs({ category: r.category, severity: r.severity, page: r.page, fieldKey: r.fieldKey })}>${escapeXml(r.description)}</finding>`);
+    }
+    lines.push("    </securityRisks>");
+
+    if (analysis.tables && analysis.tables.length > 0) {
+      lines.push("    <tables>");
+      for (const table of analysis.tables) {
+        lines.push(`      <table${attrs({ title: table.title })}>`);
+        lines.push("        <columns>");
+        for (const c of table.columns) lines.push(`          <column${attrs({ key: c.key, type: c.type })}>${escapeXml(c.label)}</column>`);
+        lines.push("        </columns>");
+        for (const row of table.rows) {
+          lines.push(`        <row${attrs({ page: row.page })}>`);
+          row.cells.forEach((cell, idx) => {
+            lines.push(`          <cell${attrs({ column: table.columns[idx]?.key })}>${escapeXml(cell.value)}</cell>`);
+          });
+          lines.push("        </row>");
+        }
+        lines.push("      </table>");
+      }
+      lines.push("    </tables>");
+    }
+
+    lines.push("    <actionableInsights>");
+    for (const insight of analysis.actionableInsights) lines.push(`      <insight>${escapeXml(insight)}</insight>`);
+    lines.push("    </actionableInsights>");
+
+    lines.push("  </document>");
+  }
+  lines.push("</documents>");
+  return lines.join("\n");
+};
+
+const addPdfPage = (pdf: jsPDF | null, page: PdfPage): jsPDF => {
+  // FIX: Use positional arguments for jsPDF constructor to avoid "Invalid argument passed to jsPDF.scale"
+  // new jsPDF(orientation, unit, format)
+  const orientation = page.width > page.height ? 'l' : 'p';
+  if (!pdf) {
+    pdf = new jsPDF(orientation, 'px', [page.width, page.height]);
+  } else {
+    pdf.addPage([page.width, page.height], orientation);
+  }
+  pdf.addImage(page.dataUrl, page.dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG', 0, 0, page.width, page.height);
+  return pdf;
+};
+
+// Flattened PDF: every page is a single image
+export const buildImagePdf = (pages: PdfPage[]): jsPDF => {
+  let pdf: jsPDF | null = null;
+  for (const page of pages) {
+    pdf = addPdfPage(pdf, page);
+  }
+  if (!pdf) throw new Error("Document has no pages");
+  return pdf;
+};
+
+/**
+ * PDF with the original pages as background and a real AcroForm input at every field's bounding box,
+ * so recipients can keep editing in any PDF reader. Images and signatures are stamped onto the page.
+ */
+export const buildFillablePdf = (pages: PdfPage[], fields: FieldData[]): jsPDF => {
+  let pdf: jsPDF | null = null;
+
+  for (const [idx, page] of pages.entries()) {
+    const doc = addPdfPage(pdf, page);
+    pdf = doc;
+    const pageNumber = idx + 1;
+
+    for (const field of fields) {
+      if (!field.boundingBox || (field.page || 1) !== pageNumber || field.status === 'skipped') continue;
+
+      const [ymin, xmin, ymax, xmax] = field.boundingBox;
+      const x = xmin * page.width;
+      const y = ymin * page.height;
+      const w = (xmax - xmin) * page.width;
+      const h = (ymax - ymin) * page.height;
+
+      if (field.type === 'image' || field.type === 'signature') {
+        if (field.value.startsWith('data:image/')) {
+          const format = field.value.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+          // Preserve aspect ratio fit within box, centered
+          const props = doc.getImageProperties(field.value);
+          const scale = Math.min(w / props.width, h / props.height);
+          const drawW = props.width * scale;
+          const drawH = props.height * scale;
+          doc.addImage(field.value, format, x + (w - drawW) / 2, y + (h - drawH) / 2, drawW, drawH);
+        }
+        continue;
+      }
+
+      if (field.type === 'checkbox') {
+        const checkbox = new AcroFormCheckBox();
+        checkbox.fieldName = field.key;
+        // Checkboxes are square; center one in the box
+        const size = Math.min(w, h);
+        checkbox.x = x + (w - size) / 2;
+        checkbox.y = y + (h - size) / 2;
+        checkbox.width = size;
+        checkbox.height = size;
+        checkbox.appearanceState = isCheckedValue(field.value) ? 'On' : 'Off';
+        checkbox.required = field.required;
+        doc.addField(checkbox);
+        continue;
+      }
+
+      const input = new AcroFormTextField();
+      input.fieldName = field.key;
+      input.x = x;
+      input.y = y;
+      input.width = w;
+      input.height = h;
+      input.value = field.value;
+      input.defaultValue = field.value;
+      input.fontSize = Math.max(6, Math.min(24, Math.floor(h * 0.6)));
+      input.multiline = field.type === 'address' || h > 60;
+      input.required = field.required;
+      doc.addField(input);
+    }
+  }
+
+  if (!pdf) throw new Error("Document has no pages");
+  return pdf;
+};
@@ -1,43 +1,156 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { DocumentAnalysis } from "../types";
-
-const processFile = async (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      // Remove data URL prefix (e.g., "data:image/jpeg;base64,")
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = (error) => reject(error);
-  });
-};
+import { ApiError, FinishReason, GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { DocumentAnalysis, DocumentTemplate, ExtractionSettings } from "../types";
+import type { AnalysisProvider, AnalyzeOptions, AskOptions, AskRequest, DocumentAnswer } from "./analysisProvider";
+import { applyTemplate, describeTemplateForPrompt } from "./templateService";
+import { createPartialAnalysisReader, normalizeAnalysis } from "./normalizeAnalysis";
+import { describeFieldsForPrompt, normalizeAnswer } from "./chatService";
+import { AnalysisError, toAnalysisError } from "./analysisErrors";
+import { DEFAULT_SETTINGS } from "./settingsService";
+
+// Runs on the API server (see server/), which holds the key; the browser reaches it through apiProvider
+
+// Cheap model used only to decide which saved template (if any) a document follows; the
+// settings panel says so, since its model choice covers extraction and questions only
+const CLASSIFIER_MODEL = "gemini-2.5-flash";
+const NO_TEMPLATE = "none";
+
+const processFile = async (file: File): Promise<string> =>
+  Buffer.from(await file.arrayBuffer()).toString("base64");
 
-export const analyzeDocument = async (file: File): Promise<DocumentAnalysis> => {
-  const apiKey = process.env.API_KEY;
+const createClient = () => {
+  const apiKey = process.env.GEMINI_API_KEY;
   if (!apiKey) {
-    throw new Error("API Key not found in environment variables");
+    throw new AnalysisError("invalid_api_key", "GEMINI_API_KEY is not set on the server");
   }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Finish reasons meaning the model refused to process the document
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
 
-  const ai = new GoogleGenAI({ apiKey });
+const checkNotBlocked = (response: GenerateContentResponse) => {
+  const reason = response.promptFeedback?.blockReason ?? response.candidates?.find(c => BLOCKED_FINISH_REASONS.includes(c.finishReason))?.finishReason;
+  if (reason) {
+    throw new AnalysisError("safety_blocked", `Gemini blocked the document (${reason})`);
+  }
+};
+
+// Classifies errors of the Gemini SDK by what the user can do about them
+const toGeminiError = (error: unknown): AnalysisError => {
+  // fetch rejects with a TypeError when the connection fails
+  if (error instanceof TypeError) return new AnalysisError("network", "Gemini could not be reached", { cause: error });
+  if (!(error instanceof ApiError)) return toAnalysisError(error);
+  const details = { status: error.status, cause: error };
+  switch (error.status) {
+    case 400:
+      if (/api key/i.test(error.message)) return new AnalysisError("invalid_api_key", "Gemini rejected the API key", details);
+      if (/mime|unsupported/i.test(error.message)) return new AnalysisError("unsupported_file", "Gemini cannot read this file type", details);
+      return new AnalysisError("unknown", error.message, details);
+    case 401:
+    case 403:
+      return new AnalysisError("invalid_api_key", "Gemini rejected the API key", details);
+    case 413:
+      return new AnalysisError("file_too_large", "The document is too large for Gemini", details);
+    case 429:
+      return new AnalysisError("quota_exceeded", "The Gemini quota is used up", details);
+    case 500:
+    case 503:
+      return new AnalysisError("service_unavailable", "Gemini is unavailable", details);
+    case 504:
+      return new AnalysisError("timeout", "Gemini took too long to answer", details);
+    default:
+      return new AnalysisError("unknown", error.message, details);
+  }
+};
+
+const classifyTemplate = async (
+  ai: GoogleGenAI,
+  file: File,
+  base64Data: string,
+  templates: DocumentTemplate[],
+  signal?: AbortSignal
+): Promise<DocumentTemplate | null> => {
+  const choices = templates.map(t => `- ${t.id}: ${t.name} (${t.documentType}; fields: ${t.fields.map(f => f.label).join(", ")})`);
+  try {
+    const response = await ai.models.generateContent({
+      model: CLASSIFIER_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: file.type, data: base64Data } },
+          {
+            text: `Which of these saved form templates is this document an instance of? Only pick one if the layout and fields clearly match, otherwise answer "${NO_TEMPLATE}".
+${choices.join("\n")}`
+          }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            templateId: { type: Type.STRING, enum: [...templates.map(t => t.id), NO_TEMPLATE] }
+          },
+          required: ["templateId"]
+        },
+        abortSignal: signal
+      }
+    });
+    const { templateId } = JSON.parse(response.text || "{}") as { templateId?: string };
+    return templates.find(t => t.id === templateId) ?? null;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // Matching is an optimization; fall back to a free-form extraction
+    console.warn("Template classification failed", error);
+    return null;
+  }
+};
+
+const describeSpellingRules = ({ spellingCorrection, spellingExceptions }: ExtractionSettings) => {
+  if (!spellingCorrection) {
+    return "- Do not correct spelling anywhere. EXTRACT ALL TEXT EXACTLY AS WRITTEN.";
+  }
+  const rules = ["- For general text (descriptions, notes, instructions), correct obvious spelling errors."];
+  if (spellingExceptions.length > 0) {
+    rules.push(`- For these values (${spellingExceptions.join(", ")}), EXTRACT EXACTLY AS IS. Do not auto-correct them.`);
+  }
+  return rules.join("\n            ");
+};
+
+export const analyzeDocument = async (file: File, options: AnalyzeOptions = {}): Promise<DocumentAnalysis> => {
+  const settings = options.settings ?? DEFAULT_SETTINGS.extraction;
+  const customInstructions = settings.customInstructions.trim();
+  const ai = createClient();
   const base64Data = await processFile(file);
 
+  const templates = options.templates ?? [];
+  const template = templates.length > 0 ? await classifyTemplate(ai, file, base64Data, templates, options.signal) : null;
+
   // Schema for structured output
   const responseSchema = {
     type: Type.OBJECT,
+    // Streamed in this order, so the type and summary can be shown before the long field list
+    propertyOrdering: ["documentType", "summary", "locale", "fields", "missingFields", "securityRisks", "actionableInsights", "tables"],
     properties: {
       documentType: { type: Type.STRING, description: "The specific type of document (e.g., Invoice, Medical Prescription, W-2 Form)." },
       summary: { type: Type.STRING, description: "A concise, human-readable summary of the document's content and purpose." },
+      locale: { type: Type.STRING, description: "BCP 47 locale the document is written for, e.g. en-US, de-DE, fr-CA. Decides how its dates and numbers are read." },
       fields: {
         type: Type.ARRAY,
         items: {
           type: Type.OBJECT,
           properties: {
-            key: { type: Type.STRING, description: "A normalized key for the field (camelCase)." },
+            key: template
+              ? { type: Type.STRING, enum: template.fields.map(f => f.key), description: "The template key this field corresponds to." }
+              : { type: Type.STRING, description: "A normalized key for the field (camelCase)." },
             label: { type: Type.STRING, description: "The human-readable label found on the document." },
-            value: { type: Type.STRING, description: "The extracted value. Use 'N/A' or empty string if blank. Correct spelling errors in general text, but PRESERVE names/IDs exactly." },
+            value: { type: Type.STRING, description: `The extracted value. Use 'N/A' or empty string if blank. ${settings.spellingCorrection ? "Correct spelling errors in general text as described in the spelling rules." : "Copy the text exactly as written."}` },
             type: { 
               type: Type.STRING, 
               enum: ['text', 'date', 'number', 'checkbox', 'currency', 'signature', 'email', 'phone', 'address', 'image'],
@@ -47,13 +160,26 @@ export const analyzeDocument = async (file: File): Promise<DocumentAnalysis> =>
             required: { type: Type.BOOLEAN, description: "True if this field is mandatory for the form to be valid." },
             example: { type: Type.STRING, description: "A realistic example value or placeholder format for this field (e.g., 'name@example.com')." },
             explanation: { type: Type.STRING, description: "Brief reason for this extraction or why it is considered missing." },
+            confidence: { type: Type.NUMBER, description: "How certain you are that the value (or its absence) was read correctly, from 0 (guess) to 1 (certain)." },
             boundingBox: {
               type: Type.ARRAY,
               items: { type: Type.NUMBER },
-              description: "The bounding box of the field area [ymin, xmin, ymax, xmax] in normalized coordinates (0-1). If the field is empty, estimate where the value SHOULD be written."
+              description: "The bounding box of the field area [ymin, xmin, ymax, xmax] in normalized coordinates (0-1) relative to its page. If the field is empty, estimate where the value SHOULD be written."
+            },
+            page: { type: Type.INTEGER, description: "The 1-based page number the field appears on. Always 1 for single images." },
+            constraints: {
+              type: Type.OBJECT,
+              description: "Only include when the document states explicit rules for the value (e.g. 'max 20 characters', a list of options, an allowed range).",
+              properties: {
+                min: { type: Type.NUMBER, description: "Minimum numeric value." },
+                max: { type: Type.NUMBER, description: "Maximum numeric value." },
+                minLength: { type: Type.INTEGER },
+                maxLength: { type: Type.INTEGER },
+                allowedValues: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The printed options the value must be one of." }
+              }
             }
           },
-          required: ["key", "label", "value", "type", "status", "required"]
+          required: ["key", "label", "value", "type", "status", "required", "page", "confidence"]
         }
       },
       missingFields: {
@@ -63,21 +189,89 @@ export const analyzeDocument = async (file: File): Promise<DocumentAnalysis> =>
       },
       securityRisks: {
         type: Type.ARRAY,
-        items: { type: Type.STRING },
-        description: "Potential security or privacy risks (e.g., exposed SSN, unredacted PII)."
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            category: {
+              type: Type.STRING,
+              enum: ['ssn', 'national_id', 'credit_card', 'bank_account', 'date_of_birth', 'address', 'phone', 'email', 'name', 'medical', 'credentials', 'other'],
+              description: "The kind of sensitive data."
+            },
+            severity: { type: Type.STRING, enum: ['low', 'medium', 'high', 'critical'], description: "How harmful exposure of this data would be." },
+            description: { type: Type.STRING, description: "Short explanation of the risk (e.g., 'Full SSN printed in the applicant section')." },
+            boundingBox: {
+              type: Type.ARRAY,
+              items: { type: Type.NUMBER },
+              description: "Where the sensitive data is visible [ymin, xmin, ymax, xmax] in normalized coordinates (0-1) relative to its page."
+            },
+            page: { type: Type.INTEGER, description: "The 1-based page number the data appears on." },
+            fieldKey: { type: Type.STRING, description: "The key of the extracted field that contains this data, if any." }
+          },
+          required: ["category", "severity", "description", "page"]
+        },
+        description: "Potential security or privacy risks (e.g., exposed SSN, unredacted PII), each located on the document."
       },
       actionableInsights: {
         type: Type.ARRAY,
         items: { type: Type.STRING },
         description: "Instructions for the user (e.g., 'Sign at the bottom', 'Fill in date')."
+      },
+      tables: {
+        type: Type.ARRAY,
+        description: "Repeating line items such as invoice positions or statement transactions. Do NOT also list them as separate fields.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING, description: "Name of the table (e.g., 'Line Items')." },
+            columns: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  key: { type: Type.STRING, description: "A normalized key for the column (camelCase)." },
+                  label: { type: Type.STRING, description: "The column header as printed." },
+                  type: { type: Type.STRING, enum: ['text', 'number', 'currency', 'date'] }
+                },
+                required: ["key", "label", "type"]
+              }
+            },
+            rows: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  page: { type: Type.INTEGER, description: "The 1-based page the row appears on." },
+                  cells: {
+                    type: Type.ARRAY,
+                    description: "One cell per column, in column order.",
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        value: { type: Type.STRING },
+                        boundingBox: {
+                          type: Type.ARRAY,
+                          items: { type: Type.NUMBER },
+                          description: "The cell area [ymin, xmin, ymax, xmax] in normalized coordinates (0-1) relative to its page."
+                        }
+                      },
+                      required: ["value"]
+                    }
+                  }
+                },
+                required: ["page", "cells"]
+              }
+            }
+          },
+          required: ["title", "columns", "rows"]
+        }
       }
     },
     required: ["documentType", "summary", "fields"]
   };
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview", // Using Pro for better reasoning on complex docs
+    const stream = await ai.models.generateContentStream({
+      model: settings.model,
       contents: {
         parts: [
           {
@@ -94,11 +288,16 @@ export const analyzeDocument = async (file: File): Promise<DocumentAnalysis> =>
             3. Determine if the field is 'required' based on context (asterisks, standard form rules).
             4. Provide a realistic 'example' value for each field to help the user.
             5. IMPORTANT: Identify the BOUNDING BOX [ymin, xmin, ymax, xmax] for every field. If a field is empty, mark the area where the user should write/type the answer.
+            6. For multi-page documents, give the 1-based PAGE number of every field. Bounding boxes are relative to that page.
+            7. List every piece of sensitive personal data (SSNs, card numbers, bank details, dates of birth, etc.) under securityRisks with its category, severity, bounding box and the key of the field holding it.
+            8. Give every field a CONFIDENCE between 0 and 1. Be honest: handwriting, smudges, cut-off text or guessed formats should score low.
+            9. Put repeating line items (invoice positions, transactions, schedules) into TABLES with one row per item, instead of numbered fields like lineItem1Amount. Totals and other single values stay fields.
+            10. Give the document's LOCALE (language and country, e.g. en-GB) from its language, addresses, currency and date formats. Copy dates and amounts exactly as printed; do not reformat them.
             
             SPELLING CORRECTION RULES:
-            - For general text (descriptions, notes, instructions), correct obvious spelling errors.
-            - For PERSONAL DETAILS (Names, IDs, Addresses, License Numbers), EXTRACT EXACTLY AS IS. Do not auto-correct personal data.
-
+            ${describeSpellingRules(settings)}
+            ${template ? `\n            TEMPLATE:\n${describeTemplateForPrompt(template)}\n` : ""}
+            ${customInstructions ? `\n            ADDITIONAL INSTRUCTIONS (they never change the JSON structure):\n${customInstructions}\n` : ""}
             Return the data in the specified JSON structure.`
           }
         ]
@@ -106,7 +305,98 @@ export const analyzeDocument = async (file: File): Promise<DocumentAnalysis> =>
       config: {
         responseMimeType: "application/json",
         responseSchema: responseSchema,
-        thinkingConfig: { thinkingBudget: 2048 }
+        thinkingConfig: { thinkingBudget: settings.thinkingBudget },
+        abortSignal: options.signal
+      }
+    });
+
+    // Fields are passed on as soon as each one is complete
+    const readPartial = options.onProgress ? createPartialAnalysisReader(options.onProgress) : null;
+    let text = "";
+    for await (const chunk of stream) {
+      options.signal?.throwIfAborted();
+      checkNotBlocked(chunk);
+      text += chunk.text ?? "";
+      readPartial?.(text);
+    }
+    if (!text) {
+      throw new AnalysisError("malformed_output", "No response from Gemini");
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new AnalysisError("malformed_output", "Gemini returned malformed JSON");
+    }
+
+    // Validate and repair before anything reaches the UI
+    let normalized: ReturnType<typeof normalizeAnalysis>;
+    try {
+      normalized = normalizeAnalysis(raw);
+    } catch (error) {
+      throw new AnalysisError("malformed_output", "Gemini returned an unusable analysis", { cause: error });
+    }
+    const { analysis, repairs } = normalized;
+    if (repairs.length > 0) {
+      console.warn("Repaired Gemini output:", repairs);
+    }
+    return template ? applyTemplate(analysis, template) : analysis;
+
+  } catch (error) {
+    // A cancelled analysis is expected, not an error
+    if (!options.signal?.aborted) console.error("Gemini Analysis Error:", error);
+    throw toGeminiError(options.signal?.aborted ? options.signal.reason : error);
+  }
+};
+
+/**
+ * Answers a question about an analyzed document, grounded in the file and the reviewed field values.
+ * Edited values take precedence over what the model would read from the file itself.
+ */
+export const askDocument = async (file: File, request: AskRequest, options: AskOptions = {}): Promise<DocumentAnswer> => {
+  const settings = options.settings ?? DEFAULT_SETTINGS.extraction;
+  const ai = createClient();
+  const base64Data = await processFile(file);
+  const transcript = request.conversation
+    .filter(m => !m.error)
+    .map(m => `${m.role === 'user' ? "User" : "Assistant"}: ${m.text}`)
+    .join("\n");
+
+  try {
+    const response = await ai.models.generateContent({
+      model: settings.model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: file.type, data: base64Data } },
+          {
+            text: `You answer questions about this document. A reviewer has checked the extracted fields below; treat their values as correct even if the image differs.
+
+            FIELDS:
+${describeFieldsForPrompt(request.fields)}
+
+            RULES:
+            - Answer briefly and only from the document and the fields.
+            - After every fact taken from a field, cite its key in square brackets, e.g. "Due on 2025-04-03 [dueDate]".
+            - List every cited key in "citations".
+            - If the document does not contain the answer, say so instead of guessing.
+            ${transcript ? `\n            CONVERSATION SO FAR:\n${transcript}\n` : ""}
+            QUESTION: ${request.question}`
+          }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            answer: { type: Type.STRING, description: "The answer, citing field keys inline in square brackets." },
+            citations: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Keys of the fields the answer is based on." }
+          },
+          required: ["answer", "citations"]
+        },
+        thinkingConfig: { thinkingBudget: settings.thinkingBudget },
+        abortSignal: options.signal
       }
     });
 
@@ -115,11 +405,27 @@ export const analyzeDocument = async (file: File): Promise<DocumentAnalysis> =>
       throw new Error("No response from Gemini");
     }
 
-    const data = JSON.parse(text) as DocumentAnalysis;
-    return data;
+    let raw: Partial<DocumentAnswer>;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new Error("Gemini returned malformed JSON");
+    }
+    if (typeof raw.answer !== "string") {
+      throw new Error("Gemini returned no answer");
+    }
+    return normalizeAnswer({ answer: raw.answer, citations: Array.isArray(raw.citations) ? raw.citations : [] }, request.fields);
 
   } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw error;
+    console.error("Gemini Q&A Error:", error);
+    // Report why the call was stopped (e.g. a TimeoutError) rather than how the SDK surfaced it
+    throw toGeminiError(options.signal?.aborted ? options.signal.reason : error);
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: AnalysisProvider = {
+  id: "gemini",
+  name: "Google Gemini",
+  analyze: analyzeDocument,
+  ask: askDocument,
+};
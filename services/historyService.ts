@@ -0,0 +1,53 @@
+import { ChatMessage, DocumentAnalysis, DocumentTable, FieldData, FieldEdit, HistoryEntry } from "../types";
+import { HISTORY_STORE, withStore } from "./db";
+
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(HISTORY_STORE, "readonly", store => store.getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getHistoryEntry = (id: string): Promise<HistoryEntry | undefined> =>
+  withStore<HistoryEntry | undefined>(HISTORY_STORE, "readonly", store => store.get(id));
+
+export const saveAnalysisToHistory = async (id: string, file: File, analysis: DocumentAnalysis): Promise<HistoryEntry> => {
+  const now = Date.now();
+  const entry: HistoryEntry = {
+    id,
+    name: file.name,
+    fileName: file.name,
+    fileType: file.type,
+    file,
+    analysis,
+    fields: analysis.fields,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await withStore(HISTORY_STORE, "readwrite", store => store.put(entry));
+  return entry;
+};
+
+const patchHistoryEntry = async (id: string, patch: Partial<HistoryEntry>): Promise<void> => {
+  const entry = await getHistoryEntry(id);
+  // Entry was deleted from history while still open; nothing to update
+  if (!entry) return;
+  await withStore(HISTORY_STORE, "readwrite", store => store.put({ ...entry, ...patch, updatedAt: Date.now() }));
+};
+
+export const updateHistoryFields = (id: string, fields: FieldData[], auditLog: FieldEdit[]) =>
+  patchHistoryEntry(id, { fields, auditLog });
+
+export const updateHistoryConversation = (id: string, conversation: ChatMessage[]) =>
+  patchHistoryEntry(id, { conversation });
+
+export const updateHistoryTables = (id: string, tables: DocumentTable[]) => patchHistoryEntry(id, { tables });
+export const updateHistoryLocale = (id: string, locale: string) => patchHistoryEntry(id, { locale });
+
+export const renameHistoryEntry = (id: string, name: string) => patchHistoryEntry(id, { name });
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore(HISTORY_STORE, "readwrite", store => store.delete(id));
+};
+
+// Rebuilds a File from a stored entry so it can be previewed and re-analyzed like a fresh upload
+export const historyEntryToFile = (entry: HistoryEntry): File =>
+  new File([entry.file], entry.fileName, { type: entry.fileType });
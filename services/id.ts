@@ -0,0 +1,5 @@
+// Random identifier for queue items, templates and other client-side records
+export const createId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { normalizeCurrency, normalizeDate, normalizeNumber, normalizePhone } from "./localeService";
+
+describe("normalizeDate", () => {
+  it("reads ISO dates in any locale", () => {
+    expect(normalizeDate("2025-03-04", "de-DE")).toBe("2025-03-04");
+  });
+
+  it("orders numeric day and month by the locale", () => {
+    expect(normalizeDate("03/04/2025", "en-US")).toBe("2025-03-04");
+    expect(normalizeDate("03/04/2025", "en-GB")).toBe("2025-04-03");
+    expect(normalizeDate("31.12.2025.", "de-DE")).toBe("2025-12-31");
+  });
+
+  it("falls back to the other order when it is the only valid one", () => {
+    expect(normalizeDate("25/12/2025", "en-US")).toBe("2025-12-25");
+  });
+
+  it("reads month names of the locale and of English", () => {
+    expect(normalizeDate("4. März 2025", "de-DE")).toBe("2025-03-04");
+    expect(normalizeDate("4 de marzo de 2025", "es-ES")).toBe("2025-03-04");
+    expect(normalizeDate("March 4th, 2025", "de-DE")).toBe("2025-03-04");
+  });
+
+  it("rejects impossible dates", () => {
+    expect(normalizeDate("2025-02-30", "en-US")).toBeNull();
+    expect(normalizeDate("soon", "en-US")).toBeNull();
+  });
+});
+
+describe("normalizeNumber", () => {
+  it("reads separators the way the locale writes them", () => {
+    expect(normalizeNumber("1.234", "de-DE")).toBe(1234);
+    expect(normalizeNumber("1.234,56", "de-DE")).toBe(1234.56);
+    expect(normalizeNumber("1,234.56", "en-US")).toBe(1234.56);
+    expect(normalizeNumber("1,5", "en-US")).toBe(1.5);
+    expect(normalizeNumber("-12", "en-US")).toBe(-12);
+  });
+
+  it("rejects text that isn't a number", () => {
+    expect(normalizeNumber("12 apples", "en-US")).toBeNull();
+    expect(normalizeNumber("1.2.3", "en-US")).toBeNull();
+  });
+});
+
+describe("normalizeCurrency", () => {
+  it("takes the currency from a symbol or code", () => {
+    expect(normalizeCurrency("1.234,56 €", "de-DE")).toEqual({ amount: 1234.56, currency: "EUR" });
+    expect(normalizeCurrency("EUR 90", "en-US")).toEqual({ amount: 90, currency: "EUR" });
+  });
+
+  it("resolves ambiguous symbols and bare amounts by region", () => {
+    expect(normalizeCurrency("$5.00", "en-CA")).toEqual({ amount: 5, currency: "CAD" });
+    expect(normalizeCurrency("12.50", "en-GB")).toEqual({ amount: 12.5, currency: "GBP" });
+  });
+
+  it("reads accounting negatives", () => {
+    expect(normalizeCurrency("($12.00)", "en-US")).toEqual({ amount: -12, currency: "USD" });
+  });
+});
+
+describe("normalizePhone", () => {
+  it("adds the locale's calling code and drops the trunk prefix", () => {
+    expect(normalizePhone("030 1234567", "de-DE")).toBe("+49301234567");
+    expect(normalizePhone("(555) 123-4567", "en-US")).toBe("+15551234567");
+  });
+});
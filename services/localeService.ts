@@ -0,0 +1,291 @@
+import { FieldData, NormalizedValue } from "../types";
+import { parseDate } from "./validationService";
+
+export const DOCUMENT_LOCALES: { code: string; label: string }[] = [
+  { code: "en-US", label: "English (United States)" },
+  { code: "en-GB", label: "English (United Kingdom)" },
+  { code: "en-CA", label: "English (Canada)" },
+  { code: "en-AU", label: "English (Australia)" },
+  { code: "en-IN", label: "English (India)" },
+  { code: "de-DE", label: "Deutsch (Deutschland)" },
+  { code: "de-CH", label: "Deutsch (Schweiz)" },
+  { code: "fr-FR", label: "Français (France)" },
+  { code: "fr-CA", label: "Français (Canada)" },
+  { code: "es-ES", label: "Español (España)" },
+  { code: "es-MX", label: "Español (México)" },
+  { code: "it-IT", label: "Italiano (Italia)" },
+  { code: "nl-NL", label: "Nederlands (Nederland)" },
+  { code: "pt-BR", label: "Português (Brasil)" },
+  { code: "pl-PL", label: "Polski (Polska)" },
+  { code: "sv-SE", label: "Svenska (Sverige)" },
+  { code: "ja-JP", label: "日本語 (日本)" },
+  { code: "zh-CN", label: "中文 (中国)" },
+];
+
+const REGION_CURRENCY: Record<string, string> = {
+  US: "USD", GB: "GBP", CA: "CAD", AU: "AUD", NZ: "NZD", IN: "INR", SG: "SGD", ZA: "ZAR",
+  IE: "EUR", DE: "EUR", AT: "EUR", FR: "EUR", BE: "EUR", LU: "EUR", ES: "EUR", IT: "EUR", NL: "EUR", PT: "EUR", FI: "EUR",
+  CH: "CHF", MX: "MXN", BR: "BRL", PL: "PLN", SE: "SEK", NO: "NOK", DK: "DKK", JP: "JPY", CN: "CNY",
+};
+
+const REGION_CALLING_CODE: Record<string, string> = {
+  US: "1", CA: "1", GB: "44", AU: "61", NZ: "64", IN: "91", SG: "65", ZA: "27",
+  IE: "353", DE: "49", AT: "43", FR: "33", BE: "32", LU: "352", ES: "34", IT: "39", NL: "31", PT: "351", FI: "358",
+  CH: "41", MX: "52", BR: "55", PL: "48", SE: "46", NO: "47", DK: "45", JP: "81", CN: "86",
+};
+
+// Regions whose national numbers have no leading 0 to drop (Italy keeps it in the international form)
+const NO_TRUNK_PREFIX = new Set(["IT", "ES", "PT", "NO", "DK", "PL", "SG", "LU"]);
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "€": "EUR", "£": "GBP", "₹": "INR", "₩": "KRW", "₽": "RUB", "R$": "BRL", "zł": "PLN",
+  "US$": "USD", "C$": "CAD", "CA$": "CAD", "A$": "AUD", "AU$": "AUD", "NZ$": "NZD", "S$": "SGD", "Fr": "CHF",
+};
+
+// Symbols shared by several currencies; the document's region picks one, otherwise the first
+const AMBIGUOUS_SYMBOLS: Record<string, string[]> = {
+  "$": ["USD", "CAD", "AUD", "NZD", "SGD", "MXN"],
+  "¥": ["JPY", "CNY"],
+  "kr": ["SEK", "NOK", "DKK"],
+};
+
+// Returns the canonical form of a BCP 47 tag, or null if it isn't one
+export const canonicalLocale = (locale: string): string | null => {
+  try {
+    return Intl.getCanonicalLocales(locale.trim())[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// The browser's language, used when neither the model nor the reviewer picked a locale
+export const getDefaultLocale = (): string =>
+  (typeof navigator !== "undefined" && canonicalLocale(navigator.language)) || "en-US";
+
+const regionOf = (locale: string): string | undefined => {
+  try {
+    return new Intl.Locale(locale).maximize().region;
+  } catch {
+    return undefined;
+  }
+};
+
+const decimalSeparator = (locale: string) =>
+  new Intl.NumberFormat(locale).formatToParts(1.5).find(p => p.type === "decimal")?.value ?? ".";
+
+// "mdy", "dmy" or "ymd", from how the locale formats a short numeric date
+const dateOrder = (locale: string): string =>
+  new Intl.DateTimeFormat(locale, { timeZone: "UTC" })
+    .formatToParts(new Date(Date.UTC(2025, 10, 22)))
+    .filter(p => p.type === "day" || p.type === "month" || p.type === "year")
+    .map(p => p.type[0])
+    .join("");
+
+const toIso = (year: number, month: number, day: number) => {
+  if (month < 1 || month > 12 || day < 1) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+// Month names of the locale and of English mapped to 1-12, including unambiguous abbreviations ("Sept")
+const monthNames = (locale: string) => {
+  const names = new Map<string, number>();
+  const prefixes = new Map<string, number | null>();
+  for (const lang of [locale, "en"]) {
+    for (const month of ["long", "short"] as const) {
+      const format = new Intl.DateTimeFormat(lang, { month, timeZone: "UTC" });
+      for (let m = 0; m < 12; m++) {
+        const name = format.format(new Date(Date.UTC(2025, m, 15))).toLowerCase().replace(/\.$/, "");
+        names.set(name, m + 1);
+        for (let len = 3; len < name.length; len++) {
+          const prefix = name.slice(0, len);
+          // "jui" could be juin or juillet
+          prefixes.set(prefix, prefixes.has(prefix) && prefixes.get(prefix) !== m + 1 ? null : m + 1);
+        }
+      }
+    }
+  }
+  for (const [prefix, month] of prefixes) {
+    if (month !== null && !names.has(prefix)) names.set(prefix, month);
+  }
+  return names;
+};
+
+export const normalizeDate = (raw: string, locale: string): string | null => {
+  const value = raw.trim();
+
+  let m = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/) || value.match(/^(\d{4})年(\d{1,2})月(\d{1,2})日$/);
+  if (m) return toIso(Number(m[1]), Number(m[2]), Number(m[3]));
+
+  // The locale decides the order of day and month; the other order is only used if it's the sole valid one
+  m = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\.?$/);
+  if (m) {
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    let year = Number(m[3]);
+    if (m[3].length === 2) year += year < 50 ? 2000 : 1900;
+    const monthFirst = dateOrder(locale) === "mdy";
+    return (monthFirst ? toIso(year, a, b) : toIso(year, b, a)) ?? (monthFirst ? toIso(year, b, a) : toIso(year, a, b));
+  }
+
+  // 4 March 2025, 4. März 2025, 4 de marzo de 2025, March 4th, 2025
+  m = value.match(/^(\d{1,2})(?:st|nd|rd|th|\.)?\s+(?:de\s+)?(\p{L}+)\.?,?\s+(?:de\s+)?(\d{4})$/u);
+  const n = m ? null : value.match(/^(\p{L}+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/u);
+  if (m || n) {
+    const [day, name, year] = m ? [m[1], m[2], m[3]] : [n![2], n![1], n![3]];
+    const month = monthNames(locale).get(name.toLowerCase());
+    return month ? toIso(Number(year), month, Number(day)) : null;
+  }
+
+  return parseDate(value);
+};
+
+/**
+ * Parses a number written with the locale's separators. A lone separator is read as the
+ * locale's decimal mark unless it can only be a thousands separator, and vice versa:
+ * "1.234" is 1234 in de-DE, "1,5" is 1.5 in en-US.
+ */
+export const normalizeNumber = (raw: string, locale: string): number | null => {
+  const value = raw.trim().replace(/[\s'’]/g, "");
+  const m = value.match(/^([-+])?([\d.,]+)$/);
+  if (!m || !/\d/.test(m[2])) return null;
+  const digits = m[2];
+  const decimal = decimalSeparator(locale);
+
+  const lastDot = digits.lastIndexOf(".");
+  const lastComma = digits.lastIndexOf(",");
+  let decimalMark: string | null = null;
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimalMark = lastDot > lastComma ? "." : ",";
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? "." : ",";
+    const groups = digits.split(separator);
+    const isGrouping = groups[0].length >= 1 && groups[0].length <= 3 && !/^0/.test(groups[0])
+      && groups.slice(1).every(g => g.length === 3);
+    if (groups.length > 2) {
+      if (!isGrouping) return null;
+    } else if (separator === decimal || !isGrouping) {
+      decimalMark = separator;
+    }
+  }
+
+  const groupMark = decimalMark ? (decimalMark === "." ? "," : ".") : (lastDot !== -1 ? "." : ",");
+  let plain = digits.split(groupMark).join("");
+  if (decimalMark) plain = plain.replace(decimalMark, ".");
+  if (!/^\d+(\.\d+)?$/.test(plain)) return null;
+  const number = Number(plain);
+  return m[1] === "-" ? -number : number;
+};
+
+const resolveCurrencyToken = (token: string, region: string | undefined): string | null => {
+  if (/^[A-Za-z]{3}$/.test(token)) return token.toUpperCase();
+  if (CURRENCY_SYMBOLS[token]) return CURRENCY_SYMBOLS[token];
+  const candidates = AMBIGUOUS_SYMBOLS[token.toLowerCase()] ?? AMBIGUOUS_SYMBOLS[token];
+  if (!candidates) return null;
+  const local = region ? REGION_CURRENCY[region] : undefined;
+  return local && candidates.includes(local) ? local : candidates[0];
+};
+
+/**
+ * Splits an amount into a number and an ISO 4217 code. The code comes from a symbol or code
+ * next to the amount, or the locale's currency if there is none. Accounting negatives "(12.00)" are supported.
+ */
+export const normalizeCurrency = (raw: string, locale: string): { amount: number; currency: string | null } | null => {
+  let text = raw.trim();
+  let negative = false;
+  const parenthesized = text.match(/^\((.*)\)$/);
+  if (parenthesized) {
+    negative = true;
+    text = parenthesized[1].trim();
+  }
+
+  const m = text.match(/^([-+])?\s*([^\d\s.,+-]*)\s*([-+])?\s*(\d[\d.,\s'’]*?)\s*([^\d\s.,+-]*)\s*(-)?$/u);
+  if (!m || (m[2] && m[5])) return null;
+  const amount = normalizeNumber(m[4], locale);
+  if (amount === null) return null;
+  if (m[1] === "-" || m[3] === "-" || m[6] === "-") negative = true;
+
+  const token = m[2] || m[5];
+  const region = regionOf(locale);
+  const currency = token ? resolveCurrencyToken(token, region) : (region ? REGION_CURRENCY[region] ?? null : null);
+  return { amount: negative ? -amount : amount, currency };
+};
+
+// E.164 needs a country code; numbers written without one get the locale's
+export const normalizePhone = (raw: string, locale: string): string | null => {
+  const value = raw.replace(/\s*(x|ext\.?)\s*\d+$/i, "").replace(/\(0\)/g, "").trim();
+  if (!/^\+?[\d\s().\-/]+$/.test(value)) return null;
+  let digits = value.replace(/\D/g, "");
+
+  if (value.startsWith("+")) {
+    // Already international
+  } else if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  } else {
+    const region = regionOf(locale);
+    const callingCode = region ? REGION_CALLING_CODE[region] : undefined;
+    if (!callingCode) return null;
+    if (callingCode === "1") {
+      if (digits.length === 11 && digits.startsWith("1")) digits = digits.slice(1);
+      if (digits.length !== 10) return null;
+    } else if (digits.startsWith("0") && !NO_TRUNK_PREFIX.has(region as string)) {
+      digits = digits.slice(1);
+    }
+    digits = callingCode + digits;
+  }
+
+  return digits.length >= 8 && digits.length <= 15 && !digits.startsWith("0") ? `+${digits}` : null;
+};
+
+/**
+ * Typed value for a field, chosen by its type. Null if the type has no normalized form,
+ * the field is empty or skipped, or the text can't be read in the given locale.
+ */
+export const normalizeFieldValue = (field: FieldData, locale: string): NormalizedValue | null => {
+  const value = field.value.trim();
+  if (!value || field.status === "skipped") return null;
+  switch (field.type) {
+    case "date": {
+      const iso = normalizeDate(value, locale);
+      return iso ? { kind: "date", iso } : null;
+    }
+    case "number": {
+      const number = normalizeNumber(value, locale);
+      return number !== null ? { kind: "number", value: number } : null;
+    }
+    case "currency": {
+      const parsed = normalizeCurrency(value, locale);
+      return parsed ? { kind: "currency", ...parsed } : null;
+    }
+    case "phone": {
+      const e164 = normalizePhone(value, locale);
+      return e164 ? { kind: "phone", e164 } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Attaches the normalized value to every field that has one, for export
+export const withNormalizedValues = (fields: FieldData[], locale: string): FieldData[] =>
+  fields.map(field => {
+    const { normalized: _previous, ...rest } = field;
+    const normalized = normalizeFieldValue(field, locale);
+    return normalized ? { ...rest, normalized } : rest;
+  });
+
+// Plain text form of a normalized value: ISO date, decimal number, amount or E.164 number
+export const normalizedText = (normalized: NormalizedValue): string => {
+  switch (normalized.kind) {
+    case "date": return normalized.iso;
+    case "number": return String(normalized.value);
+    case "currency": return String(normalized.amount);
+    case "phone": return normalized.e164;
+  }
+};
+
+export const formatNormalizedValue = (normalized: NormalizedValue): string =>
+  normalized.kind === "currency" && normalized.currency
+    ? `${normalizedText(normalized)} ${normalized.currency}`
+    : normalizedText(normalized);
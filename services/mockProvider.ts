@@ -0,0 +1,92 @@
+import { DocumentAnalysis } from "../types";
+import type { AnalysisProvider, AnalyzeOptions, AskRequest, DocumentAnswer } from "./analysisProvider";
+import { applyTemplate, matchTemplate } from "./templateService";
+import { createPartialAnalysisReader, normalizeAnalysis } from "./normalizeAnalysis";
+import { sleep } from "./retryService";
+import invoiceFixture from "../fixtures/invoice.json";
+import intakeFormFixture from "../fixtures/intake-form.json";
+
+// Keyed by a word that, if present in the uploaded file name, selects the fixture.
+const fixtures: Record<string, DocumentAnalysis> = {
+  invoice: invoiceFixture as DocumentAnalysis,
+  intake: intakeFormFixture as DocumentAnalysis,
+};
+
+const fixtureKeys = Object.keys(fixtures);
+
+// Small stable hash so the same file name always maps to the same fixture.
+const hashName = (name: string): number => {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+export const pickFixture = (fileName: string): DocumentAnalysis => {
+  const lower = fileName.toLowerCase();
+  const match = fixtureKeys.find(key => lower.includes(key));
+  const key = match ?? fixtureKeys[hashName(lower) % fixtureKeys.length];
+  // Normalizing also deep-copies, so edits in the UI never mutate the shared fixture
+  return normalizeAnalysis(fixtures[key]).analysis;
+};
+
+// Replays an analysis as streamed JSON in small chunks, so the extracting state can be developed offline
+const STREAM_CHUNK_CHARS = 200;
+const STREAM_CHUNK_DELAY_MS = 50;
+
+const replayAsStream = async (
+  analysis: DocumentAnalysis,
+  onProgress: NonNullable<AnalyzeOptions["onProgress"]>,
+  signal?: AbortSignal
+) => {
+  const text = JSON.stringify(analysis);
+  const readPartial = createPartialAnalysisReader(onProgress);
+  for (let end = STREAM_CHUNK_CHARS; end < text.length + STREAM_CHUNK_CHARS; end += STREAM_CHUNK_CHARS) {
+    await sleep(STREAM_CHUNK_DELAY_MS, signal);
+    readPartial(text.slice(0, end));
+  }
+};
+
+const words = (text: string) => text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+// Answers with the field whose label shares the most words with the question
+const answerFromFields = ({ question, fields }: AskRequest): DocumentAnswer => {
+  const asked = new Set(words(question));
+  let best: { key: string; label: string; value: string } | null = null;
+  let bestScore = 0;
+  for (const field of fields) {
+    const score = words(`${field.label} ${field.key.replace(/([A-Z])/g, " $1")}`).filter(w => asked.has(w)).length;
+    if (score > bestScore) {
+      best = field;
+      bestScore = score;
+    }
+  }
+  if (!best) {
+    return { answer: "I couldn't find that in the extracted fields.", citations: [] };
+  }
+  return best.value
+    ? { answer: `The ${best.label} is ${best.value.startsWith("data:") ? "provided as an image" : best.value} [${best.key}].`, citations: [best.key] }
+    : { answer: `The ${best.label} is blank on this document [${best.key}].`, citations: [best.key] };
+};
+
+/**
+ * Offline provider returning canned analyses from /fixtures.
+ * Useful for developing the review flow without an API key or network access.
+ */
+export const mockProvider: AnalysisProvider = {
+  id: "mock",
+  name: "Local fixtures (offline)",
+  analyze: async (file, options) => {
+    // Short fixed delay so the ANALYZING state is still visible during development
+    await sleep(600, options?.signal);
+    const analysis = pickFixture(file.name);
+    if (options?.onProgress) await replayAsStream(analysis, options.onProgress, options.signal);
+    const template = matchTemplate(options?.templates ?? [], analysis);
+    return template ? applyTemplate(analysis, template) : analysis;
+  },
+  ask: async (_file, request, options) => {
+    await sleep(300, options?.signal);
+    return answerFromFields(request);
+  },
+};
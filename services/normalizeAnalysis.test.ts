@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { normalizeAnalysis } from "./normalizeAnalysis";
+
+const field = (overrides: Record<string, unknown>) => ({
+  key: "name", label: "Name", value: "Ann", type: "text", status: "filled", required: false, ...overrides,
+});
+
+describe("normalizeAnalysis", () => {
+  it("rejects anything that is not an object", () => {
+    expect(() => normalizeAnalysis("nope")).toThrow();
+  });
+
+  it("fills in missing sections and reports the repairs", () => {
+    const { analysis, repairs } = normalizeAnalysis({});
+    expect(analysis.documentType).toBe("Document Analysis");
+    expect(analysis.fields).toEqual([]);
+    expect(analysis.securityRisks).toEqual([]);
+    expect(repairs).toContain("Document type was missing.");
+  });
+
+  it("renames duplicate field keys", () => {
+    const { analysis, repairs } = normalizeAnalysis({
+      documentType: "Form", summary: "s",
+      fields: [field({}), field({ label: "Other name" }), field({ label: "Third" })],
+    });
+    expect(analysis.fields.map(f => f.key)).toEqual(["name", "name2", "name3"]);
+    expect(repairs).toContain('Renamed duplicate key "name" to "name2".');
+  });
+
+  it("marks a filled field without a value as empty", () => {
+    const { analysis } = normalizeAnalysis({ fields: [field({ value: "  " })] });
+    expect(analysis.fields[0].status).toBe("empty");
+  });
+
+  it("recomputes missingFields from the required empty fields", () => {
+    const { analysis, repairs } = normalizeAnalysis({
+      documentType: "Form", summary: "s",
+      fields: [field({ key: "dob", label: "Date of Birth", value: "", status: "empty", required: true }), field({ required: true })],
+      missingFields: ["name"],
+    });
+    expect(analysis.missingFields).toEqual(["dob"]);
+    expect(repairs).toContain("Recomputed the missing fields list from the extracted fields.");
+  });
+
+  it("keeps valid constraints and drops the rest", () => {
+    const { analysis, repairs } = normalizeAnalysis({
+      fields: [field({ constraints: { allowedValues: "A,B", maxLength: 10, pattern: "([", min: "2025-01-01", max: Infinity, extra: 1 } })],
+    });
+    expect(analysis.fields[0].constraints).toEqual({ maxLength: 10, min: "2025-01-01" });
+    expect(repairs).toEqual(expect.arrayContaining([
+      'Dropped the invalid constraint "allowedValues" for "Name".',
+      'Dropped the invalid constraint "pattern" for "Name".',
+      'Dropped the invalid constraint "max" for "Name".',
+      'Dropped the invalid constraint "extra" for "Name".',
+    ]));
+  });
+
+  it("drops constraints that are not an object", () => {
+    const { analysis, repairs } = normalizeAnalysis({ fields: [field({ constraints: "none" })] });
+    expect(analysis.fields[0].constraints).toBeUndefined();
+    expect(repairs).toContain('Dropped invalid constraints for "Name".');
+  });
+
+  it("drops finding links to fields that don't exist", () => {
+    const { analysis } = normalizeAnalysis({
+      fields: [field({})],
+      securityRisks: [
+        { description: "Name", category: "name", severity: "high", fieldKey: "name" },
+        { description: "SSN", category: "ssn", severity: "critical", fieldKey: "ssn" },
+      ],
+    });
+    expect(analysis.securityRisks.map(r => r.fieldKey)).toEqual(["name", undefined]);
+  });
+});
@@ -0,0 +1,384 @@
+import { DocumentAnalysis, DocumentTable, FieldConstraints, FieldData, PartialAnalysis, PiiCategory, PiiFinding, PiiSeverity, TableColumn, TableColumnType, TableRow } from "../types";
+import { createId } from "./id";
+import { canonicalLocale } from "./localeService";
+import { isComplete, parsePartialJson } from "./partialJson";
+
+const FIELD_TYPES: FieldData['type'][] = ['text', 'date', 'number', 'checkbox', 'currency', 'signature', 'email', 'phone', 'address', 'image'];
+const FIELD_STATUSES: FieldData['status'][] = ['filled', 'empty', 'uncertain', 'skipped'];
+const PII_CATEGORIES: PiiCategory[] = ['ssn', 'national_id', 'credit_card', 'bank_account', 'date_of_birth', 'address', 'phone', 'email', 'name', 'medical', 'credentials', 'other'];
+const PII_SEVERITIES: PiiSeverity[] = ['low', 'medium', 'high', 'critical'];
+const TABLE_COLUMN_TYPES: TableColumnType[] = ['text', 'number', 'currency', 'date'];
+
+export interface NormalizationResult {
+  analysis: DocumentAnalysis;
+  repairs: string[]; // Human readable notes on everything that had to be fixed
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined => {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return undefined;
+};
+
+const toCamelCase = (text: string): string => {
+  const words = text.replace(/[^a-zA-Z0-9]+/g, " ").trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "";
+  return words
+    .map((w, i) => i === 0 ? w.charAt(0).toLowerCase() + w.slice(1) : w.charAt(0).toUpperCase() + w.slice(1))
+    .join("");
+};
+
+const toPage = (value: unknown): number | null => {
+  const page = typeof value === "number" ? value : Number(value);
+  return Number.isInteger(page) && page >= 1 ? page : null;
+};
+
+/**
+ * Cleans a [ymin, xmin, ymax, xmax] box: values are clamped to 0-1 and swapped if out of order.
+ * Boxes given in 0-1000 space (a common model habit) are rescaled. Returns null if unusable.
+ */
+const normalizeBox = (value: unknown, label: string, repairs: string[]): number[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length !== 4 || value.some(n => typeof n !== "number" || !Number.isFinite(n))) {
+    repairs.push(`Dropped an invalid bounding box for "${label}".`);
+    return undefined;
+  }
+
+  let box = value as number[];
+  // Values well above 1 mean the whole box is in 0-1000 space rather than slightly off the page
+  if (box.some(n => n > 2) && box.every(n => n >= 0 && n <= 1000)) {
+    box = box.map(n => n / 1000);
+    repairs.push(`Rescaled the bounding box for "${label}" from 0-1000 to 0-1 coordinates.`);
+  }
+
+  const clamped = box.map(n => Math.min(1, Math.max(0, n)));
+  if (clamped.some((n, i) => n !== box[i])) {
+    repairs.push(`Clamped the bounding box for "${label}" to the page.`);
+  }
+
+  let [ymin, xmin, ymax, xmax] = clamped;
+  if (ymin > ymax || xmin > xmax) {
+    [ymin, ymax] = [Math.min(ymin, ymax), Math.max(ymin, ymax)];
+    [xmin, xmax] = [Math.min(xmin, xmax), Math.max(xmin, xmax)];
+    repairs.push(`Reordered the bounding box corners for "${label}".`);
+  }
+
+  if (ymax - ymin <= 0 || xmax - xmin <= 0) {
+    repairs.push(`Dropped an empty bounding box for "${label}".`);
+    return undefined;
+  }
+  return [ymin, xmin, ymax, xmax];
+};
+
+// Confidence must be a 0-1 number; percentages (e.g. 85) are a common slip
+const normalizeConfidence = (value: unknown, label: string, repairs: string[]): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const n = typeof value === "string" ? Number(value.replace("%", "")) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) {
+    repairs.push(`Dropped an invalid confidence for "${label}".`);
+    return undefined;
+  }
+  if (n > 1 && n <= 100) {
+    repairs.push(`Converted the confidence for "${label}" from a percentage.`);
+    return n / 100;
+  }
+  if (n < 0 || n > 1) {
+    repairs.push(`Clamped the confidence for "${label}" to 0-1.`);
+    return Math.min(1, Math.max(0, n));
+  }
+  return n;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const compiles = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Each constraint is checked on its own; validation relies on these shapes, so invalid ones are dropped
+const CONSTRAINT_CHECKS: { [K in keyof FieldConstraints]-?: (value: unknown) => boolean } = {
+  // A number, or an ISO date for date fields
+  min: value => isFiniteNumber(value) || (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)),
+  max: value => isFiniteNumber(value) || (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)),
+  minLength: value => isFiniteNumber(value) && Number.isInteger(value) && value >= 0,
+  maxLength: value => isFiniteNumber(value) && Number.isInteger(value) && value >= 0,
+  pattern: value => typeof value === "string" && compiles(value),
+  patternMessage: value => typeof value === "string",
+  allowedValues: value => Array.isArray(value) && value.every(v => typeof v === "string"),
+};
+
+const normalizeConstraints = (value: unknown, label: string, repairs: string[]): FieldConstraints | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value)) {
+    repairs.push(`Dropped invalid constraints for "${label}".`);
+    return undefined;
+  }
+  const constraints: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const check = CONSTRAINT_CHECKS[key as keyof FieldConstraints];
+    if (check?.(item)) constraints[key] = item;
+    else repairs.push(`Dropped the invalid constraint "${key}" for "${label}".`);
+  }
+  return Object.keys(constraints).length > 0 ? constraints as FieldConstraints : undefined;
+};
+
+const normalizeField = (raw: unknown, idx: number, usedKeys: Set<string>, repairs: string[]): FieldData | null => {
+  if (!isObject(raw)) {
+    repairs.push(`Removed field #${idx + 1} because it was not an object.`);
+    return null;
+  }
+
+  const label = asString(raw.label)?.trim() || asString(raw.key)?.trim() || `Field ${idx + 1}`;
+  if (!asString(raw.label)?.trim()) repairs.push(`Field #${idx + 1} had no label; using "${label}".`);
+
+  let key = asString(raw.key)?.trim() || toCamelCase(label) || `field${idx + 1}`;
+  if (!asString(raw.key)?.trim()) repairs.push(`Generated key "${key}" for "${label}".`);
+  if (usedKeys.has(key)) {
+    const base = key;
+    let n = 2;
+    while (usedKeys.has(`${base}${n}`)) n++;
+    key = `${base}${n}`;
+    repairs.push(`Renamed duplicate key "${base}" to "${key}".`);
+  }
+  usedKeys.add(key);
+
+  const value = asString(raw.value) ?? "";
+
+  let type = raw.type as FieldData['type'];
+  if (!FIELD_TYPES.includes(type)) {
+    repairs.push(`Missing or unknown type "${String(raw.type ?? '')}" for "${label}"; treating it as text.`);
+    type = 'text';
+  }
+
+  let status = raw.status as FieldData['status'];
+  if (!FIELD_STATUSES.includes(status)) {
+    status = value.trim() ? 'filled' : 'empty';
+    repairs.push(`Missing or unknown status for "${label}"; set to ${status}.`);
+  } else if (status === 'filled' && !value.trim()) {
+    status = 'empty';
+    repairs.push(`"${label}" was marked filled without a value; set to empty.`);
+  }
+
+  const page = toPage(raw.page);
+  if (raw.page !== undefined && page === null) repairs.push(`Invalid page for "${label}"; using page 1.`);
+
+  const field: FieldData = {
+    key,
+    label,
+    value,
+    type,
+    status,
+    required: raw.required === true,
+    page: page ?? 1,
+  };
+
+  const example = asString(raw.example);
+  if (example) field.example = example;
+  const explanation = asString(raw.explanation);
+  if (explanation) field.explanation = explanation;
+  const confidence = normalizeConfidence(raw.confidence, label, repairs);
+  if (confidence !== undefined) field.confidence = confidence;
+  const boundingBox = normalizeBox(raw.boundingBox, label, repairs);
+  if (boundingBox) field.boundingBox = boundingBox;
+  const constraints = normalizeConstraints(raw.constraints, label, repairs);
+  if (constraints) field.constraints = constraints;
+  // Model output recorded before any human edits (see services/auditService.ts)
+  if (isObject(raw.original) && typeof raw.original.value === "string" && FIELD_STATUSES.includes(raw.original.status as FieldData['status'])) {
+    field.original = { value: raw.original.value, status: raw.original.status as FieldData['status'] };
+  }
+
+  return field;
+};
+
+const normalizeFinding = (raw: unknown, idx: number, fieldKeys: Set<string>, usedIds: Set<string>, repairs: string[]): PiiFinding | null => {
+  // Older analyses stored risks as plain sentences
+  if (typeof raw === "string") {
+    const id = `pii-${idx}`;
+    usedIds.add(id);
+    return { id, category: 'other', severity: 'medium', description: raw, page: 1 };
+  }
+  if (!isObject(raw)) {
+    repairs.push(`Removed security finding #${idx + 1} because it was not an object.`);
+    return null;
+  }
+
+  const description = asString(raw.description)?.trim() || "Sensitive data detected.";
+  let id = asString(raw.id) || `pii-${idx}`;
+  if (usedIds.has(id)) id = `pii-${idx}-${usedIds.size}`;
+  usedIds.add(id);
+
+  const category = PII_CATEGORIES.includes(raw.category as PiiCategory) ? raw.category as PiiCategory : 'other';
+  const severity = PII_SEVERITIES.includes(raw.severity as PiiSeverity) ? raw.severity as PiiSeverity : 'medium';
+
+  const finding: PiiFinding = { id, category, severity, description, page: toPage(raw.page) ?? 1 };
+
+  const boundingBox = normalizeBox(raw.boundingBox, description, repairs);
+  if (boundingBox) finding.boundingBox = boundingBox;
+
+  const fieldKey = asString(raw.fieldKey);
+  if (fieldKey && fieldKeys.has(fieldKey)) {
+    finding.fieldKey = fieldKey;
+  } else if (fieldKey) {
+    repairs.push(`Security finding "${description}" referenced unknown field "${fieldKey}".`);
+  }
+  return finding;
+};
+
+const normalizeTable = (raw: unknown, idx: number, repairs: string[]): DocumentTable | null => {
+  if (!isObject(raw) || !Array.isArray(raw.columns) || raw.columns.length === 0) {
+    repairs.push(`Removed table #${idx + 1} because it had no columns.`);
+    return null;
+  }
+  const title = asString(raw.title)?.trim() || `Table ${idx + 1}`;
+
+  const usedKeys = new Set<string>();
+  const columns: TableColumn[] = raw.columns.map((c, colIdx) => {
+    const col = isObject(c) ? c : {};
+    const label = asString(col.label)?.trim() || asString(c)?.trim() || `Column ${colIdx + 1}`;
+    let key = asString(col.key)?.trim() || toCamelCase(label) || `column${colIdx + 1}`;
+    if (usedKeys.has(key)) key = `${key}${colIdx + 1}`;
+    usedKeys.add(key);
+    const type = TABLE_COLUMN_TYPES.includes(col.type as TableColumnType) ? col.type as TableColumnType : 'text';
+    return { key, label, type };
+  });
+
+  const rows: TableRow[] = (Array.isArray(raw.rows) ? raw.rows : []).flatMap((r, rowIdx) => {
+    const row = isObject(r) ? r : {};
+    const rawCells = Array.isArray(row.cells) ? row.cells : Array.isArray(r) ? r : null;
+    if (!rawCells) {
+      repairs.push(`Removed row ${rowIdx + 1} of "${title}" because it had no cells.`);
+      return [];
+    }
+    if (rawCells.length !== columns.length) {
+      repairs.push(`Row ${rowIdx + 1} of "${title}" had ${rawCells.length} cells for ${columns.length} columns.`);
+    }
+    const cells = columns.map((col, colIdx) => {
+      const rawCell = rawCells[colIdx];
+      const value = (isObject(rawCell) ? asString(rawCell.value) : asString(rawCell)) ?? "";
+      const boundingBox = isObject(rawCell) ? normalizeBox(rawCell.boundingBox, `${title} ${col.label}`, repairs) : undefined;
+      return boundingBox ? { value, boundingBox } : { value };
+    });
+    // Blank rows are a common artifact of ruled tables
+    if (cells.every(c => !c.value.trim())) return [];
+    return [{ id: asString(row.id) || createId(), cells, page: toPage(row.page) ?? 1 }];
+  });
+
+  return { id: asString(raw.id) || createId(), title, columns, rows };
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asString).filter((s): s is string => !!s && !!s.trim()) : [];
+
+/**
+ * Validates raw model output against the DocumentAnalysis shape and repairs what it can:
+ * defaults for missing sections, unique field keys, sane bounding boxes and a missingFields
+ * list recomputed from the fields themselves. Throws only if the input is not an object at all.
+ */
+export const normalizeAnalysis = (raw: unknown): NormalizationResult => {
+  if (!isObject(raw)) {
+    throw new Error("Analysis result is not a JSON object");
+  }
+
+  const repairs: string[] = [];
+
+  const documentType = asString(raw.documentType)?.trim() || "Document Analysis";
+  if (!asString(raw.documentType)?.trim()) repairs.push("Document type was missing.");
+
+  const summary = asString(raw.summary)?.trim() || "";
+  if (!summary) repairs.push("Summary was missing.");
+
+  if (!Array.isArray(raw.fields)) repairs.push("Field list was missing or invalid.");
+  const usedKeys = new Set<string>();
+  const fields = (Array.isArray(raw.fields) ? raw.fields : [])
+    .map((f, idx) => normalizeField(f, idx, usedKeys, repairs))
+    .filter((f): f is FieldData => f !== null);
+
+  const usedIds = new Set<string>();
+  const securityRisks = (Array.isArray(raw.securityRisks) ? raw.securityRisks : [])
+    .map((r, idx) => normalizeFinding(r, idx, usedKeys, usedIds, repairs))
+    .filter((r): r is PiiFinding => r !== null);
+
+  // Derived from the fields rather than trusted from the model
+  const missingFields = fields.filter(f => f.required && f.status === 'empty').map(f => f.key);
+  const reportedMissing = toStringList(raw.missingFields);
+  const disagrees = reportedMissing.length !== missingFields.length
+    || reportedMissing.some(m => !missingFields.includes(m) && !fields.some(f => f.label === m && missingFields.includes(f.key)));
+  if (disagrees) repairs.push("Recomputed the missing fields list from the extracted fields.");
+
+  const analysis: DocumentAnalysis = {
+    documentType,
+    summary,
+    fields,
+    missingFields,
+    securityRisks,
+    actionableInsights: toStringList(raw.actionableInsights),
+  };
+  if (Array.isArray(raw.tables)) {
+    const tables = raw.tables
+      .map((t, idx) => normalizeTable(t, idx, repairs))
+      .filter((t): t is DocumentTable => t !== null);
+    if (tables.length > 0) analysis.tables = tables;
+  }
+  const templateId = asString(raw.templateId);
+  if (templateId) analysis.templateId = templateId;
+  const rawLocale = asString(raw.locale)?.trim();
+  if (rawLocale) {
+    const locale = canonicalLocale(rawLocale);
+    if (locale) analysis.locale = locale;
+    else repairs.push(`Ignored the unknown locale "${rawLocale}".`);
+  }
+  // Keep notes from an earlier pass (e.g. when reopening a stored analysis)
+  const allRepairs = Array.from(new Set([...toStringList(raw.repairs), ...repairs]));
+  if (allRepairs.length > 0) analysis.repairs = allRepairs;
+
+  return { analysis, repairs };
+};
+
+/**
+ * Reads what is usable from analysis JSON that is still being generated: the document type and
+ * summary once they are complete, and every field object received in full, repaired like the final result.
+ */
+export const normalizePartialAnalysis = (raw: unknown): PartialAnalysis => {
+  if (!isObject(raw)) return { fields: [] };
+  const rawFields = Array.isArray(raw.fields) ? raw.fields.filter(isComplete) : [];
+  const usedKeys = new Set<string>();
+  const partial: PartialAnalysis = {
+    fields: rawFields
+      .map((f, idx) => normalizeField(f, idx, usedKeys, []))
+      .filter((f): f is FieldData => f !== null),
+  };
+  const documentType = asString(raw.documentType)?.trim();
+  if (documentType) partial.documentType = documentType;
+  const summary = asString(raw.summary)?.trim();
+  if (summary) partial.summary = summary;
+  return partial;
+};
+
+/**
+ * Turns the growing text of a streamed analysis into onProgress calls, one for each new field,
+ * document type or summary. Text that doesn't parse yet is skipped; the final result reports it.
+ */
+export const createPartialAnalysisReader = (onProgress: (partial: PartialAnalysis) => void) => {
+  let last: PartialAnalysis = { fields: [] };
+  return (text: string) => {
+    let partial: PartialAnalysis;
+    try {
+      partial = normalizePartialAnalysis(parsePartialJson(text));
+    } catch {
+      return;
+    }
+    if (partial.fields.length === last.fields.length && partial.documentType === last.documentType && partial.summary === last.summary) return;
+    last = partial;
+    onProgress(partial);
+  };
+};
@@ -0,0 +1,155 @@
+// Objects and arrays that were cut off by the end of the text
+const incomplete = new WeakSet<object>();
+
+// False for an object or array returned by parsePartialJson that was still open when the text ended
+export const isComplete = (value: unknown): boolean =>
+  typeof value !== "object" || value === null || !incomplete.has(value);
+
+// Signals that the text ended inside the value being read
+const END = Symbol("end");
+
+/**
+ * Parses the beginning of a JSON document, as received from a streaming response.
+ * Open objects and arrays are returned with the members read so far and can be told apart
+ * with isComplete; a string, number or literal that was cut off is left out entirely,
+ * since its value isn't known yet. Returns undefined if not even the outermost value has started.
+ * Throws on text that can never become valid JSON.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const fail = (): never => {
+    throw new SyntaxError(`Unexpected "${text[pos]}" at position ${pos} of partial JSON`);
+  };
+
+  const parseString = (): string | typeof END => {
+    pos++; // Opening quote
+    let result = "";
+    while (pos < text.length) {
+      const char = text[pos++];
+      if (char === "\"") return result;
+      if (char !== "\\") {
+        result += char;
+        continue;
+      }
+      if (pos >= text.length) return END;
+      const escape = text[pos++];
+      if (escape === "u") {
+        if (pos + 4 > text.length) return END;
+        const code = text.slice(pos, pos + 4);
+        if (!/^[0-9a-fA-F]{4}$/.test(code)) fail();
+        result += String.fromCharCode(parseInt(code, 16));
+        pos += 4;
+      } else {
+        const map: Record<string, string> = { "\"": "\"", "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" };
+        if (!(escape in map)) fail();
+        result += map[escape];
+      }
+    }
+    return END;
+  };
+
+  const parseNumber = (): number | typeof END => {
+    const match = /^-?\d+(\.\d+)?([eE][-+]?\d+)?/.exec(text.slice(pos));
+    if (!match) return text.slice(pos) === "-" ? END : fail();
+    pos += match[0].length;
+    // More digits may still be on their way
+    if (pos >= text.length || /[\d.eE+-]/.test(text[pos])) return END;
+    return Number(match[0]);
+  };
+
+  const parseLiteral = (): boolean | null | typeof END => {
+    for (const [word, value] of [["true", true], ["false", false], ["null", null]] as const) {
+      const rest = text.slice(pos, pos + word.length);
+      if (rest === word) {
+        pos += word.length;
+        return value;
+      }
+      if (word.startsWith(rest) && pos + rest.length >= text.length) return END;
+    }
+    return fail();
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (pos >= text.length) return END;
+    const char = text[pos];
+    if (char === "{") return parseObject();
+    if (char === "[") return parseArray();
+    if (char === "\"") return parseString();
+    if (char === "-" || (char >= "0" && char <= "9")) return parseNumber();
+    return parseLiteral();
+  };
+
+  const parseArray = (): unknown[] => {
+    pos++;
+    const result: unknown[] = [];
+    incomplete.add(result);
+    skipWhitespace();
+    if (text[pos] === "]") {
+      pos++;
+      incomplete.delete(result);
+      return result;
+    }
+    while (pos < text.length) {
+      const value = parseValue();
+      if (value === END) return result;
+      result.push(value);
+      if (!isComplete(value)) return result;
+      skipWhitespace();
+      if (pos >= text.length) return result;
+      if (text[pos] === "]") {
+        pos++;
+        incomplete.delete(result);
+        return result;
+      }
+      if (text[pos] !== ",") fail();
+      pos++;
+    }
+    return result;
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    pos++;
+    const result: Record<string, unknown> = {};
+    incomplete.add(result);
+    skipWhitespace();
+    if (text[pos] === "}") {
+      pos++;
+      incomplete.delete(result);
+      return result;
+    }
+    while (pos < text.length) {
+      skipWhitespace();
+      if (pos >= text.length) return result;
+      if (text[pos] !== "\"") fail();
+      const key = parseString();
+      if (key === END) return result;
+      skipWhitespace();
+      if (pos >= text.length) return result;
+      if (text[pos] !== ":") fail();
+      pos++;
+      const value = parseValue();
+      if (value === END) return result;
+      result[key] = value;
+      if (!isComplete(value)) return result;
+      skipWhitespace();
+      if (pos >= text.length) return result;
+      if (text[pos] === "}") {
+        pos++;
+        incomplete.delete(result);
+        return result;
+      }
+      if (text[pos] !== ",") fail();
+      pos++;
+    }
+    return result;
+  };
+
+  const value = parseValue();
+  return value === END ? undefined : value;
+};
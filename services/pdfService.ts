@@ -0,0 +1,66 @@
+import * as pdfjs from "pdfjs-dist";
+
+// The worker is loaded from the same CDN as the import map so versions always match.
+pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+
+export interface RenderedPage {
+  pageNumber: number; // 1-based, matches FieldData.page
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export const isPdf = (mimeType: string) => mimeType === "application/pdf";
+
+/**
+ * Rasterizes every page of a PDF to a PNG data URL.
+ * `scale` is relative to the PDF's 72dpi user space; use ~1.5 for previews and 2+ for export.
+ */
+export const renderPdfPages = async (url: string, scale = 1.5): Promise<RenderedPage[]> => {
+  const pdf = await pdfjs.getDocument(url).promise;
+  const pages: RenderedPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Could not get canvas context");
+
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      pages.push({
+        pageNumber,
+        dataUrl: canvas.toDataURL("image/png"),
+        width: canvas.width,
+        height: canvas.height,
+      });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
+
+/**
+ * Returns the pages of any supported upload as images: every page for PDFs,
+ * or the image itself as page 1.
+ */
+export const loadDocumentPages = async (url: string, mimeType: string, scale?: number): Promise<RenderedPage[]> => {
+  if (isPdf(mimeType)) {
+    return renderPdfPages(url, scale);
+  }
+
+  const img = new Image();
+  img.src = url;
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error("Failed to load original image"));
+  });
+  return [{ pageNumber: 1, dataUrl: url, width: img.naturalWidth, height: img.naturalHeight }];
+};
@@ -0,0 +1,401 @@
+// Normalized (0-1) rectangle in the frame of the rotated, uncropped image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Geometric corrections for one image, either detected automatically or set by hand
+export interface ImageAdjustments {
+  quarterTurns: number; // Clockwise 90° steps
+  angle: number; // Fine rotation in degrees, clockwise
+  crop: CropRect | null;
+}
+
+export interface PreprocessOptions {
+  autoDeskew: boolean;
+  autoCrop: boolean;
+  enhanceContrast: boolean;
+  maxDimension: number; // Longest edge of the output in pixels
+}
+
+export interface PreprocessResult {
+  file: File;
+  width: number;
+  height: number;
+  adjustments: ImageAdjustments;
+  steps: string[]; // Human readable notes on what was changed
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  autoDeskew: true,
+  autoCrop: true,
+  enhanceContrast: true,
+  maxDimension: 2048,
+};
+
+export const MAX_DIMENSION_OPTIONS = [1600, 2048, 2560, 3200];
+
+const OPTIONS_KEY = "docusight.preprocessOptions";
+// Size of the working copy used for skew and page detection
+const ANALYSIS_DIMENSION = 800;
+const MAX_SKEW_DEGREES = 10;
+const OUTPUT_QUALITY = 0.9;
+
+export const getPreprocessOptions = (): PreprocessOptions => {
+  try {
+    const stored = localStorage.getItem(OPTIONS_KEY);
+    return stored ? { ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(stored) } : DEFAULT_PREPROCESS_OPTIONS;
+  } catch {
+    return DEFAULT_PREPROCESS_OPTIONS;
+  }
+};
+
+export const savePreprocessOptions = (options: PreprocessOptions) => {
+  try {
+    localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+  } catch (err) {
+    console.error("Failed to save preprocessing options", err);
+  }
+};
+
+// Vector formats and animations are passed through untouched
+export const isPreprocessable = (file: File) =>
+  file.type.startsWith("image/") && file.type !== "image/svg+xml" && file.type !== "image/gif";
+
+/**
+ * Reads the EXIF orientation tag (1-8) of a JPEG, or 1 if there is none.
+ * Browsers already apply it when decoding, so this only tells us whether a rotation happened.
+ */
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+    // Image data starts at SOS; there is no metadata beyond it
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+export const loadImage = (file: Blob) => createImageBitmap(file, { imageOrientation: "from-image" });
+
+// Size of the frame an image occupies after rotation, before cropping
+const rotatedSize = (width: number, height: number, degrees: number) => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+/**
+ * Draws the image rotated and cropped, scaled so the longest edge fits `maxDimension`.
+ * Corners uncovered by a fine rotation are filled with `background`.
+ */
+export const renderAdjusted = (
+  image: ImageBitmap,
+  adjustments: ImageAdjustments,
+  maxDimension: number,
+  background = "#ffffff",
+  canvas: HTMLCanvasElement = document.createElement("canvas")
+): HTMLCanvasElement => {
+  const degrees = adjustments.quarterTurns * 90 + adjustments.angle;
+  const frame = rotatedSize(image.width, image.height, degrees);
+  const crop = adjustments.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const cropWidth = frame.width * crop.width;
+  const cropHeight = frame.height * crop.height;
+  const scale = Math.min(1, maxDimension / Math.max(cropWidth, cropHeight));
+
+  canvas.width = Math.max(1, Math.round(cropWidth * scale));
+  canvas.height = Math.max(1, Math.round(cropHeight * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * frame.width, -crop.y * frame.height);
+  ctx.translate(frame.width / 2, frame.height / 2);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+  return canvas;
+};
+
+const toGrayscale = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+// Threshold that best separates dark from light pixels
+export const otsuThreshold = (gray: Uint8Array) => {
+  const histogram = new Array(256).fill(0);
+  for (const v of gray) histogram[v]++;
+  const total = gray.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = i;
+    }
+  }
+  return threshold;
+};
+
+/**
+ * Finds the bright page against a darker background: the outermost rows and columns that
+ * are mostly light. Returns null if the page already fills (nearly) the whole image.
+ */
+export const detectPageBounds = (canvas: HTMLCanvasElement): CropRect | null => {
+  const { width, height } = canvas;
+  const gray = toGrayscale(canvas);
+  const threshold = otsuThreshold(gray);
+  const rowLight = new Array(height).fill(0);
+  const colLight = new Array(width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] > threshold) {
+        rowLight[y]++;
+        colLight[x]++;
+      }
+    }
+  }
+
+  const first = (counts: number[], size: number) => counts.findIndex(c => c > size * 0.4);
+  const last = (counts: number[], size: number) => {
+    for (let i = counts.length - 1; i >= 0; i--) if (counts[i] > size * 0.4) return i;
+    return -1;
+  };
+  const top = first(rowLight, width);
+  const bottom = last(rowLight, width);
+  const left = first(colLight, height);
+  const right = last(colLight, height);
+  if (top < 0 || left < 0 || bottom <= top || right <= left) return null;
+
+  const rect = {
+    x: left / width,
+    y: top / height,
+    width: (right - left + 1) / width,
+    height: (bottom - top + 1) / height,
+  };
+  const area = rect.width * rect.height;
+  // Too small is more likely a bright object on the page than the page itself
+  if (area > 0.95 || area < 0.3) return null;
+  return rect;
+};
+
+/**
+ * Estimates how far the text lines are tilted, in degrees clockwise, by finding the angle
+ * at which the dark pixels line up into the sharpest horizontal bands.
+ */
+export const detectSkewAngle = (canvas: HTMLCanvasElement, region?: CropRect | null): number => {
+  const { width, height } = canvas;
+  const gray = toGrayscale(canvas);
+  const threshold = otsuThreshold(gray);
+  const area = region ?? { x: 0, y: 0, width: 1, height: 1 };
+  const x0 = Math.floor(area.x * width);
+  const y0 = Math.floor(area.y * height);
+  const x1 = Math.ceil((area.x + area.width) * width);
+  const y1 = Math.ceil((area.y + area.height) * height);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      if (gray[y * width + x] <= threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length < 100) return 0;
+  // Mostly dark means a photo or a dark background rather than text on paper
+  if (xs.length > (x1 - x0) * (y1 - y0) * 0.5) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const bins = new Float64Array(diagonal * 2 + 1);
+  const score = (degrees: number) => {
+    const rad = (degrees * Math.PI) / 180;
+    const sin = Math.sin(rad);
+    const cos = Math.cos(rad);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] * cos - xs[i] * sin) + diagonal]++;
+    }
+    let total = 0;
+    for (const b of bins) total += b * b;
+    return total;
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let a = from; a <= to + 1e-9; a += step) {
+      const s = score(a);
+      if (s > bestScore) {
+        bestScore = s;
+        bestAngle = a;
+      }
+    }
+    return { angle: bestAngle, score: bestScore };
+  };
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+  const fine = search(coarse.angle - 0.5, coarse.angle + 0.5, 0.1);
+  // Without a clear peak over the unrotated profile the guess is noise
+  if (fine.score < score(0) * 1.05) return 0;
+  return Math.round(fine.angle * 10) / 10;
+};
+
+// Stretches the 1st-99th luminance percentiles to the full range
+const stretchContrast = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return false;
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const histogram = new Array(256).fill(0);
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round((data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000)]++;
+  }
+
+  const percentile = (p: number) => {
+    let count = 0;
+    for (let i = 0; i < 256; i++) {
+      count += histogram[i];
+      if (count >= pixels * p) return i;
+    }
+    return 255;
+  };
+  const low = percentile(0.01);
+  const high = percentile(0.99);
+  // Already full range, or too flat to stretch without amplifying noise
+  if ((low <= 8 && high >= 247) || high - low < 24) return false;
+
+  const lookup = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) lookup[i] = ((i - low) * 255) / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lookup[data[i]];
+    data[i + 1] = lookup[data[i + 1]];
+    data[i + 2] = lookup[data[i + 2]];
+  }
+  ctx.putImageData(image, 0, 0);
+  return true;
+};
+
+/**
+ * Detects the skew angle and page crop of an image. The crop is found after straightening,
+ * so it lines up with the frame `renderAdjusted` produces.
+ */
+export const detectAdjustments = (image: ImageBitmap, options: PreprocessOptions, quarterTurns = 0): ImageAdjustments => {
+  let angle = 0;
+  if (options.autoDeskew) {
+    const working = renderAdjusted(image, { quarterTurns, angle: 0, crop: null }, ANALYSIS_DIMENSION);
+    // Measuring inside the page keeps a dark background from dominating the estimate
+    const page = detectPageBounds(working);
+    angle = -detectSkewAngle(working, page);
+  }
+  return { quarterTurns, angle, crop: options.autoCrop ? detectCrop(image, quarterTurns, angle) : null };
+};
+
+// Page bounds in the straightened frame; corners exposed by the rotation count as background
+export const detectCrop = (image: ImageBitmap, quarterTurns: number, angle: number): CropRect | null =>
+  detectPageBounds(renderAdjusted(image, { quarterTurns, angle, crop: null }, ANALYSIS_DIMENSION, "#000000"));
+
+// Keeps a crop on the same part of the image when it is turned a quarter clockwise
+export const rotateCropRect = (crop: CropRect | null, turns: number): CropRect | null => {
+  if (!crop) return null;
+  let rect = crop;
+  for (let i = 0; i < ((turns % 4) + 4) % 4; i++) {
+    rect = { x: 1 - rect.y - rect.height, y: rect.x, width: rect.height, height: rect.width };
+  }
+  return rect;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode image")), type, quality);
+  });
+
+/**
+ * Straightens, crops, enhances and downscales a photo before it is analyzed. The output is the
+ * image the model sees and the one shown in the preview, so bounding boxes stay aligned.
+ * Pass `adjustments` to apply a manual rotation and crop instead of detecting them.
+ */
+export const preprocessImage = async (
+  file: File,
+  options: PreprocessOptions,
+  adjustments?: ImageAdjustments
+): Promise<PreprocessResult> => {
+  const orientation = await readExifOrientation(file);
+  const image = await loadImage(file);
+  try {
+    const steps: string[] = [];
+    if (orientation > 1) steps.push("Rotated upright from camera orientation");
+
+    const applied = adjustments ?? detectAdjustments(image, options);
+    if (applied.quarterTurns % 4 !== 0) steps.push(`Rotated ${(applied.quarterTurns % 4) * 90}°`);
+    if (applied.angle !== 0) steps.push(`Straightened by ${Math.abs(applied.angle).toFixed(1)}°`);
+    if (applied.crop) steps.push("Cropped to the page");
+
+    const canvas = renderAdjusted(image, applied, options.maxDimension);
+    const frame = rotatedSize(image.width, image.height, applied.quarterTurns * 90 + applied.angle);
+    const crop = applied.crop ?? { width: 1, height: 1 };
+    if (Math.max(frame.width * crop.width, frame.height * crop.height) > options.maxDimension) {
+      steps.push(`Downscaled to ${canvas.width}×${canvas.height}`);
+    }
+    if (options.enhanceContrast && stretchContrast(canvas)) steps.push("Enhanced contrast");
+
+    const blob = await canvasToBlob(canvas, "image/jpeg", OUTPUT_QUALITY);
+    const name = file.name.replace(/\.[^.]+$/, "") + ".jpg";
+    return {
+      file: new File([blob], name, { type: "image/jpeg", lastModified: Date.now() }),
+      width: canvas.width,
+      height: canvas.height,
+      adjustments: applied,
+      steps,
+    };
+  } finally {
+    image.close();
+  }
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { DocumentTable, FieldData, PiiFinding } from "../types";
+import { maskRedactedFindings, maskRedactedTables, REDACTED_PLACEHOLDER } from "./redactionService";
+
+const fields: FieldData[] = [
+  { key: "iban", label: "IBAN", value: "DE89 3704 0044", type: "text", status: "filled", required: false, page: 1 },
+  { key: "name", label: "Name", value: "Jane Doe", type: "text", status: "filled", required: false, page: 1 },
+];
+
+const findings: PiiFinding[] = [
+  { id: "f1", category: "bank_account", severity: "high", description: "IBAN DE89 3704 0044 next to the name", page: 1, fieldKey: "iban" },
+  { id: "f2", category: "name", severity: "low", description: "Jane Doe signs with DE89 3704 0044", page: 1, fieldKey: "name" },
+];
+
+describe("maskRedactedFindings", () => {
+  it("masks redacted values in every description", () => {
+    const masked = maskRedactedFindings(findings, fields, ["f1"]);
+    expect(masked.map(f => f.description)).toEqual([
+      `IBAN ${REDACTED_PLACEHOLDER} next to the name`,
+      `Jane Doe signs with ${REDACTED_PLACEHOLDER}`,
+    ]);
+  });
+
+  it("leaves findings alone when nothing is redacted", () => {
+    expect(maskRedactedFindings(findings, fields, [])).toBe(findings);
+  });
+});
+
+describe("maskRedactedTables", () => {
+  it("masks redacted values inside cells", () => {
+    const tables: DocumentTable[] = [{
+      id: "t",
+      title: "Transactions",
+      columns: [{ key: "reference", label: "Reference", type: "text" }],
+      rows: [{ id: "r", cells: [{ value: "Transfer from de89 3704 0044" }], page: 1 }],
+    }];
+    expect(maskRedactedTables(tables, fields, findings, ["f1"])[0].rows[0].cells[0].value).toBe(`Transfer from ${REDACTED_PLACEHOLDER}`);
+  });
+});
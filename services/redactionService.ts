@@ -0,0 +1,143 @@
+import { ChatMessage, DocumentTable, FieldData, FieldEdit, PiiFinding, PiiSeverity } from "../types";
+
+export const REDACTED_PLACEHOLDER = "[REDACTED]";
+
+// Findings at these severities are selected for redaction by default
+export const DEFAULT_REDACTED_SEVERITIES: PiiSeverity[] = ['high', 'critical'];
+
+export interface RedactionRegion {
+  findingId: string;
+  page: number;
+  boundingBox: number[]; // [ymin, xmin, ymax, xmax] normalized (0-1)
+}
+
+export const getDefaultRedactions = (findings: PiiFinding[]): string[] =>
+  findings.filter(f => DEFAULT_REDACTED_SEVERITIES.includes(f.severity)).map(f => f.id);
+
+/**
+ * Resolves where each selected finding sits on the page.
+ * A finding without its own box uses the bounding box of its linked field.
+ */
+export const getRedactionRegions = (findings: PiiFinding[], fields: FieldData[], redactedIds: string[]): RedactionRegion[] => {
+  const regions: RedactionRegion[] = [];
+  for (const finding of findings) {
+    if (!redactedIds.includes(finding.id)) continue;
+    const field = finding.fieldKey ? fields.find(f => f.key === finding.fieldKey) : undefined;
+    const boundingBox = finding.boundingBox ?? field?.boundingBox;
+    if (!boundingBox || boundingBox.length !== 4) continue;
+    regions.push({
+      findingId: finding.id,
+      page: finding.boundingBox ? finding.page : field?.page ?? finding.page,
+      boundingBox,
+    });
+  }
+  return regions;
+};
+
+// Replaces the values of fields linked to redacted findings, for JSON and other data exports
+const getMaskedKeys = (findings: PiiFinding[], redactedIds: string[]) => new Set(
+  findings.filter(f => f.fieldKey && redactedIds.includes(f.id)).map(f => f.fieldKey as string)
+);
+
+const mask = (value: string) => value ? REDACTED_PLACEHOLDER : value;
+
+export const maskRedactedFields = (fields: FieldData[], findings: PiiFinding[], redactedIds: string[]): FieldData[] => {
+  const maskedKeys = getMaskedKeys(findings, redactedIds);
+  if (maskedKeys.size === 0) return fields;
+  return fields.map(f => {
+    if (!maskedKeys.has(f.key)) return f;
+    return { ...f, value: mask(f.value), ...(f.original && { original: { ...f.original, value: mask(f.original.value) } }) };
+  });
+};
+
+// The audit trail holds earlier values of the same fields, so they are masked too
+export const maskRedactedAuditLog = (log: FieldEdit[], findings: PiiFinding[], redactedIds: string[]): FieldEdit[] => {
+  const maskedKeys = getMaskedKeys(findings, redactedIds);
+  if (maskedKeys.size === 0) return log;
+  return log.map(e => maskedKeys.has(e.fieldKey) ? { ...e, previousValue: mask(e.previousValue), newValue: mask(e.newValue) } : e);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Every value a redacted field held (current, extracted and from the audit trail), matched anywhere in a text
+const getRedactedValuePattern = (
+  fields: FieldData[],
+  findings: PiiFinding[],
+  redactedIds: string[],
+  auditLog: FieldEdit[]
+): RegExp | null => {
+  const maskedKeys = getMaskedKeys(findings, redactedIds);
+  if (maskedKeys.size === 0) return null;
+  const values = new Set<string>();
+  for (const f of fields) {
+    if (!maskedKeys.has(f.key)) continue;
+    values.add(f.value.trim());
+    if (f.original) values.add(f.original.value.trim());
+  }
+  for (const e of auditLog) {
+    if (!maskedKeys.has(e.fieldKey)) continue;
+    values.add(e.previousValue.trim());
+    values.add(e.newValue.trim());
+  }
+  // Longest first, so a value that contains another is masked as a whole
+  const patterns = [...values].filter(Boolean).sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return patterns.length > 0 ? new RegExp(patterns.join("|"), "gi") : null;
+};
+
+/**
+ * Answers in the conversation quote field values, so the values of redacted fields
+ * are masked wherever they appear in the text.
+ */
+export const maskRedactedConversation = (
+  conversation: ChatMessage[],
+  fields: FieldData[],
+  findings: PiiFinding[],
+  redactedIds: string[],
+  auditLog: FieldEdit[] = []
+): ChatMessage[] => {
+  const pattern = getRedactedValuePattern(fields, findings, redactedIds, auditLog);
+  if (!pattern) return conversation;
+  return conversation.map(m => ({ ...m, text: m.text.replace(pattern, REDACTED_PLACEHOLDER) }));
+};
+
+// Finding descriptions may quote the value they are about, or one of another finding
+export const maskRedactedFindings = (
+  findings: PiiFinding[],
+  fields: FieldData[],
+  redactedIds: string[],
+  auditLog: FieldEdit[] = []
+): PiiFinding[] => {
+  const pattern = getRedactedValuePattern(fields, findings, redactedIds, auditLog);
+  if (!pattern) return findings;
+  return findings.map(f => ({ ...f, description: f.description.replace(pattern, REDACTED_PLACEHOLDER) }));
+};
+
+// Line items can repeat a redacted value, e.g. an account number in a transaction row
+export const maskRedactedTables = (
+  tables: DocumentTable[],
+  fields: FieldData[],
+  findings: PiiFinding[],
+  redactedIds: string[],
+  auditLog: FieldEdit[] = []
+): DocumentTable[] => {
+  const pattern = getRedactedValuePattern(fields, findings, redactedIds, auditLog);
+  if (!pattern) return tables;
+  return tables.map(table => ({
+    ...table,
+    rows: table.rows.map(row => ({
+      ...row,
+      cells: row.cells.map(cell => ({ ...cell, value: cell.value.replace(pattern, REDACTED_PLACEHOLDER) })),
+    })),
+  }));
+};
+
+// Paints opaque black boxes over the given regions of an already drawn page
+export const drawRedactions = (ctx: CanvasRenderingContext2D, regions: RedactionRegion[], width: number, height: number) => {
+  ctx.fillStyle = "#000000";
+  for (const region of regions) {
+    const [ymin, xmin, ymax, xmax] = region.boundingBox;
+    // Pad slightly so anti-aliased edges of the underlying text are covered too
+    const pad = 2;
+    ctx.fillRect(xmin * width - pad, ymin * height - pad, (xmax - xmin) * width + pad * 2, (ymax - ymin) * height + pad * 2);
+  }
+};
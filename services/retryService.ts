@@ -0,0 +1,72 @@
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first try
+  baseDelayMs: number; // Upper bound of the first backoff, doubled for every further retry
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+// Errors opt in to automatic retries by carrying these properties
+export interface RetryHint {
+  retryable?: boolean;
+  retryAfterMs?: number; // Minimum wait the server asked for, e.g. from a rate limit
+}
+
+export const isRetryable = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && (error as RetryHint).retryable === true;
+
+/**
+ * Exponential backoff with full jitter: a random wait up to base * 2^(retry - 1), capped at maxDelayMs.
+ * The randomness keeps clients that failed together from retrying in lockstep.
+ */
+export const backoffDelay = (retry: number, policy: RetryPolicy, random: () => number = Math.random): number =>
+  Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1)));
+
+// Resolves after `ms`, or rejects with the signal's reason as soon as it is aborted
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  signal?: AbortSignal; // Stops waiting between attempts; the attempt itself must watch it too
+  // Called before waiting for the next attempt
+  onRetry?: (nextAttempt: number, delayMs: number, error: unknown) => void;
+}
+
+/**
+ * Runs `attempt` until it succeeds, fails with an error that isn't retryable, or the policy's attempts are used up.
+ * Errors thrown after the signal was aborted are never retried.
+ */
+export const withRetry = async <T>(
+  attempt: (attemptNumber: number) => Promise<T>,
+  { policy = DEFAULT_RETRY_POLICY, signal, onRetry }: RetryOptions = {}
+): Promise<T> => {
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      return await attempt(attemptNumber);
+    } catch (error) {
+      if (signal?.aborted || !isRetryable(error) || attemptNumber >= policy.maxAttempts) throw error;
+      const delayMs = Math.max(backoffDelay(attemptNumber, policy), (error as RetryHint).retryAfterMs ?? 0);
+      onRetry?.(attemptNumber + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { BusinessRule, FieldData } from "../types";
+import { createRule, evaluateRules, parseRuleDefinition, RULE_EXAMPLES, rulesForDocument, unknownFieldKeys } from "./ruleService";
+
+const field = (key: string, value: string, type: FieldData["type"] = "text"): FieldData => ({
+  key, label: key, value, type, status: value ? "filled" : "empty", required: false, page: 1,
+});
+
+const rule = (definition: Pick<BusinessRule, "when" | "assert">, overrides: Partial<BusinessRule> = {}): BusinessRule => ({
+  ...createRule(), name: "Rule", message: "Broken", ...definition, ...overrides,
+});
+
+const example = (label: string) => rule(RULE_EXAMPLES.find(e => e.label === label)!.definition);
+
+describe("evaluateRules", () => {
+  it("compares dates read in the document's locale", () => {
+    const dateOrder = example("Date order");
+    const fields = [field("startDate", "01.03.2025", "date"), field("endDate", "15.02.2025", "date")];
+    expect(evaluateRules([dateOrder], fields, "de-DE")).toEqual([
+      { ruleId: dateOrder.id, ruleName: "Rule", severity: "error", message: "Broken", fieldKeys: ["endDate", "startDate"] },
+    ]);
+    expect(evaluateRules([dateOrder], fields, "en-US")).toEqual([]);
+  });
+
+  it("sums amounts within the tolerance", () => {
+    const sum = example("Sum");
+    const fields = (total: string) => [field("subtotal", "100,00 €", "currency"), field("tax", "19,00 €", "currency"), field("total", total, "currency")];
+    expect(evaluateRules([sum], fields("119,00 €"), "de-DE")).toEqual([]);
+    expect(evaluateRules([sum], fields("120,00 €"), "de-DE")).toHaveLength(1);
+  });
+
+  it("only checks the assertion when the condition holds", () => {
+    const conditional = example("Conditional required");
+    expect(evaluateRules([conditional], [field("married", "false", "checkbox"), field("spouseName", "")], "en-US")).toEqual([]);
+    expect(evaluateRules([conditional], [field("married", "yes", "checkbox"), field("spouseName", "")], "en-US")).toHaveLength(1);
+  });
+
+  it("never reports rules whose fields are empty or missing", () => {
+    const dateOrder = example("Date order");
+    expect(evaluateRules([dateOrder], [field("startDate", "2025-03-01", "date"), field("endDate", "", "date")], "en-US")).toEqual([]);
+    expect(evaluateRules([dateOrder], [field("start", "2025-03-01", "date")], "en-US")).toEqual([]);
+  });
+
+  it("subtracts dates to days", () => {
+    const notice = rule({ assert: { left: { subtract: ["endDate", "startDate"] }, op: ">=", right: 30 } });
+    expect(evaluateRules([notice], [field("startDate", "2025-03-01", "date"), field("endDate", "2025-03-11", "date")], "en-US")).toHaveLength(1);
+  });
+});
+
+describe("unknownFieldKeys", () => {
+  it("lists keys the document has no field for", () => {
+    const conditional = example("Conditional required");
+    expect(unknownFieldKeys(conditional, [field("married", "yes", "checkbox")])).toEqual(["spouseName"]);
+    expect(unknownFieldKeys(conditional, [field("married", "yes"), field("spouseName", "")])).toEqual([]);
+  });
+});
+
+describe("parseRuleDefinition", () => {
+  it("accepts every shipped example", () => {
+    for (const { definition } of RULE_EXAMPLES) {
+      expect(parseRuleDefinition(JSON.stringify(definition)).errors).toEqual([]);
+    }
+  });
+
+  it("reports invalid JSON and unknown operators", () => {
+    expect(parseRuleDefinition("{").definition).toBeNull();
+    expect(parseRuleDefinition(JSON.stringify({ assert: { left: "a", op: "~", right: "b" } })).definition).toBeNull();
+  });
+});
+
+describe("rulesForDocument", () => {
+  it("keeps enabled rules for the type and rules for every type", () => {
+    const all = rule({ assert: { field: "a", is: "filled" } });
+    const invoice = rule({ assert: { field: "a", is: "filled" } }, { documentType: "Invoice" });
+    const disabled = rule({ assert: { field: "a", is: "filled" } }, { enabled: false });
+    expect(rulesForDocument([all, invoice, disabled], "invoice")).toEqual([all, invoice]);
+    expect(rulesForDocument([all, invoice, disabled], "Lease")).toEqual([all]);
+  });
+});
@@ -0,0 +1,327 @@
+import { BusinessRule, FieldData, RuleComparator, RuleCondition, RuleOperand, RuleViolation } from "../types";
+import { RULE_STORE, withStore } from "./db";
+import { createId } from "./id";
+import { normalizeCurrency, normalizeDate, normalizeNumber } from "./localeService";
+import { normalizeText } from "./templateService";
+import { isCheckedValue } from "./validationService";
+
+export const listRules = async (): Promise<BusinessRule[]> => {
+  const rules = await withStore<BusinessRule[]>(RULE_STORE, "readonly", store => store.getAll());
+  return rules.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveRule = async (rule: BusinessRule): Promise<BusinessRule> => {
+  const saved = { ...rule, updatedAt: Date.now() };
+  await withStore(RULE_STORE, "readwrite", store => store.put(saved));
+  return saved;
+};
+
+export const deleteRule = async (id: string): Promise<void> => {
+  await withStore(RULE_STORE, "readwrite", store => store.delete(id));
+};
+
+export const createRule = (documentType = ""): BusinessRule => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    name: "",
+    documentType,
+    enabled: true,
+    severity: "error",
+    message: "",
+    assert: { left: "endDate", op: ">", right: "startDate" },
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Starting points offered in the rule editor, one per kind of check
+export const RULE_EXAMPLES: { label: string; definition: Pick<BusinessRule, "when" | "assert"> }[] = [
+  {
+    label: "Date order",
+    definition: { assert: { left: "endDate", op: ">", right: "startDate" } },
+  },
+  {
+    label: "Sum",
+    definition: { assert: { left: "total", op: "=", right: { add: ["subtotal", "tax"] }, tolerance: 0.01 } },
+  },
+  {
+    label: "Conditional required",
+    definition: { when: { field: "married", is: "checked" }, assert: { field: "spouseName", is: "filled" } },
+  },
+];
+
+const COMPARATORS: RuleComparator[] = ["=", "!=", "<", "<=", ">", ">="];
+const FIELD_STATES = ["filled", "empty", "checked", "unchecked"];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const checkOperand = (value: unknown, path: string, errors: string[]) => {
+  if (typeof value === "string") {
+    if (!value.trim()) errors.push(`${path}: field key is empty.`);
+    return;
+  }
+  if (typeof value === "number") return;
+  if (!isObject(value)) {
+    errors.push(`${path}: expected a field key, a number or an object.`);
+    return;
+  }
+  if ("value" in value) {
+    if (typeof value.value !== "string" && typeof value.value !== "number") errors.push(`${path}.value: expected text or a number.`);
+  } else if ("add" in value || "multiply" in value) {
+    const op = "add" in value ? "add" : "multiply";
+    const operands = value[op];
+    if (!Array.isArray(operands) || operands.length === 0) errors.push(`${path}.${op}: expected a list of operands.`);
+    else operands.forEach((operand, i) => checkOperand(operand, `${path}.${op}[${i}]`, errors));
+  } else if ("subtract" in value) {
+    if (!Array.isArray(value.subtract) || value.subtract.length !== 2) errors.push(`${path}.subtract: expected exactly two operands.`);
+    else value.subtract.forEach((operand, i) => checkOperand(operand, `${path}.subtract[${i}]`, errors));
+  } else {
+    errors.push(`${path}: expected "value", "add", "subtract" or "multiply".`);
+  }
+};
+
+const checkCondition = (value: unknown, path: string, errors: string[]) => {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected a condition object.`);
+    return;
+  }
+  if ("all" in value || "any" in value) {
+    const op = "all" in value ? "all" : "any";
+    const conditions = value[op];
+    if (!Array.isArray(conditions) || conditions.length === 0) errors.push(`${path}.${op}: expected a list of conditions.`);
+    else conditions.forEach((condition, i) => checkCondition(condition, `${path}.${op}[${i}]`, errors));
+  } else if ("not" in value) {
+    checkCondition(value.not, `${path}.not`, errors);
+  } else if ("field" in value) {
+    if (typeof value.field !== "string" || !value.field.trim()) errors.push(`${path}.field: expected a field key.`);
+    if (!FIELD_STATES.includes(value.is as string)) errors.push(`${path}.is: expected one of ${FIELD_STATES.join(", ")}.`);
+  } else if ("op" in value) {
+    if (!COMPARATORS.includes(value.op as RuleComparator)) errors.push(`${path}.op: expected one of ${COMPARATORS.join(" ")}.`);
+    checkOperand(value.left, `${path}.left`, errors);
+    checkOperand(value.right, `${path}.right`, errors);
+    if (value.tolerance !== undefined && (typeof value.tolerance !== "number" || value.tolerance < 0)) {
+      errors.push(`${path}.tolerance: expected a non-negative number.`);
+    }
+  } else {
+    errors.push(`${path}: expected a comparison ("left", "op", "right"), a field check ("field", "is"), or "all", "any" or "not".`);
+  }
+};
+
+/**
+ * Parses the JSON logic of a rule (`{ "when"?: ..., "assert": ... }`) as written in the editor.
+ * Returns the parsed definition, or every problem found with its path.
+ */
+export const parseRuleDefinition = (json: string):
+  { definition: Pick<BusinessRule, "when" | "assert">; errors: [] } | { definition: null; errors: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    return { definition: null, errors: [`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  if (!isObject(parsed)) return { definition: null, errors: ["Expected an object with an \"assert\" condition."] };
+
+  const errors: string[] = [];
+  const unknownKeys = Object.keys(parsed).filter(key => key !== "when" && key !== "assert");
+  if (unknownKeys.length > 0) errors.push(`Unknown keys: ${unknownKeys.join(", ")}.`);
+  if (!("assert" in parsed)) errors.push("Missing the \"assert\" condition.");
+  else checkCondition(parsed.assert, "assert", errors);
+  if (parsed.when !== undefined) checkCondition(parsed.when, "when", errors);
+  if (errors.length > 0) return { definition: null, errors };
+
+  const definition: Pick<BusinessRule, "when" | "assert"> = { assert: parsed.assert as RuleCondition };
+  if (parsed.when !== undefined) definition.when = parsed.when as RuleCondition;
+  return { definition, errors: [] };
+};
+
+// Field keys a condition reads, in order of first use
+export const referencedFieldKeys = (condition: RuleCondition): string[] => {
+  const keys = new Set<string>();
+  const visitOperand = (operand: RuleOperand) => {
+    if (typeof operand === "string") keys.add(operand);
+    else if (typeof operand === "number" || "value" in operand) return;
+    else if ("add" in operand) operand.add.forEach(visitOperand);
+    else if ("multiply" in operand) operand.multiply.forEach(visitOperand);
+    else operand.subtract.forEach(visitOperand);
+  };
+  const visit = (c: RuleCondition) => {
+    if ("all" in c) c.all.forEach(visit);
+    else if ("any" in c) c.any.forEach(visit);
+    else if ("not" in c) visit(c.not);
+    else if ("field" in c) keys.add(c.field);
+    else {
+      visitOperand(c.left);
+      visitOperand(c.right);
+    }
+  };
+  visit(condition);
+  return [...keys];
+};
+
+// Keys a rule refers to that the document has no field for; such a rule is never checked
+export const unknownFieldKeys = (rule: BusinessRule, fields: FieldData[]): string[] => {
+  const keys = new Set(fields.map(field => field.key));
+  const referenced = [...(rule.when ? referencedFieldKeys(rule.when) : []), ...referencedFieldKeys(rule.assert)];
+  return [...new Set(referenced)].filter(key => !keys.has(key));
+};
+
+// Enabled rules for a document type; rules without one apply everywhere
+export const rulesForDocument = (rules: BusinessRule[], documentType: string): BusinessRule[] =>
+  rules.filter(rule => rule.enabled && (!rule.documentType.trim() || normalizeText(rule.documentType) === normalizeText(documentType)));
+
+type RuleValue = { kind: "number"; value: number } | { kind: "date"; iso: string } | { kind: "text"; text: string };
+
+// Added to every tolerance, so 0.1 + 0.2 = 0.3 holds
+const FLOAT_EPSILON = 1e-9;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fieldValue = (field: FieldData, locale: string): RuleValue | null => {
+  const value = field.value.trim();
+  if (!value || field.status === "skipped") return null;
+  switch (field.type) {
+    case "date": {
+      const iso = normalizeDate(value, locale);
+      return iso ? { kind: "date", iso } : null;
+    }
+    case "number": {
+      const number = normalizeNumber(value, locale);
+      return number !== null ? { kind: "number", value: number } : null;
+    }
+    case "currency": {
+      const parsed = normalizeCurrency(value, locale);
+      return parsed ? { kind: "number", value: parsed.amount } : null;
+    }
+    case "checkbox":
+      return { kind: "text", text: isCheckedValue(value) ? "true" : "false" };
+    default:
+      return { kind: "text", text: value };
+  }
+};
+
+const asNumber = (value: RuleValue, locale: string): number | null =>
+  value.kind === "number" ? value.value : value.kind === "text" ? normalizeNumber(value.text, locale) : null;
+
+const asDate = (value: RuleValue, locale: string): string | null =>
+  value.kind === "date" ? value.iso : value.kind === "text" ? normalizeDate(value.text, locale) : null;
+
+const compare = (a: number | string, b: number | string, op: RuleComparator, tolerance: number): boolean => {
+  if (typeof a === "number" && typeof b === "number") {
+    const equal = Math.abs(a - b) <= tolerance + FLOAT_EPSILON;
+    switch (op) {
+      case "=": return equal;
+      case "!=": return !equal;
+      case "<": return a < b && !equal;
+      case "<=": return a < b || equal;
+      case ">": return a > b && !equal;
+      case ">=": return a > b || equal;
+    }
+  }
+  const order = String(a).localeCompare(String(b));
+  switch (op) {
+    case "=": return order === 0;
+    case "!=": return order !== 0;
+    case "<": return order < 0;
+    case "<=": return order <= 0;
+    case ">": return order > 0;
+    case ">=": return order >= 0;
+  }
+};
+
+/**
+ * Evaluates the rules that apply to a document. Conditions that read an empty, skipped, missing
+ * or unreadable field are treated as unknown and never produce a violation; single-field
+ * validation already reports those fields.
+ */
+export const evaluateRules = (rules: BusinessRule[], fields: FieldData[], locale: string): RuleViolation[] => {
+  const byKey = new Map(fields.map(field => [field.key, field]));
+
+  const resolve = (operand: RuleOperand): RuleValue | null => {
+    if (typeof operand === "number") return { kind: "number", value: operand };
+    if (typeof operand === "string") {
+      const field = byKey.get(operand);
+      return field ? fieldValue(field, locale) : null;
+    }
+    if ("value" in operand) {
+      return typeof operand.value === "number" ? { kind: "number", value: operand.value } : { kind: "text", text: operand.value };
+    }
+    if ("subtract" in operand) {
+      const left = resolve(operand.subtract[0]);
+      const right = resolve(operand.subtract[1]);
+      if (!left || !right) return null;
+      // Two dates subtract to the number of days between them
+      const leftDate = left.kind === "date" ? left.iso : null;
+      const rightDate = right.kind === "date" ? right.iso : right.kind === "text" && leftDate ? normalizeDate(right.text, locale) : null;
+      if (leftDate && rightDate) return { kind: "number", value: (Date.parse(leftDate) - Date.parse(rightDate)) / DAY_MS };
+      const a = asNumber(left, locale);
+      const b = asNumber(right, locale);
+      return a !== null && b !== null ? { kind: "number", value: a - b } : null;
+    }
+    const operands = "add" in operand ? operand.add : operand.multiply;
+    let result = "add" in operand ? 0 : 1;
+    for (const item of operands) {
+      const resolved = resolve(item);
+      const number = resolved && asNumber(resolved, locale);
+      if (number === null || number === undefined) return null;
+      result = "add" in operand ? result + number : result * number;
+    }
+    return { kind: "number", value: result };
+  };
+
+  // True, false, or null when a value it needs is unknown
+  const test = (condition: RuleCondition): boolean | null => {
+    if ("all" in condition || "any" in condition) {
+      const isAll = "all" in condition;
+      const results = (isAll ? condition.all : condition.any).map(test);
+      if (results.includes(!isAll)) return !isAll;
+      return results.includes(null) ? null : isAll;
+    }
+    if ("not" in condition) {
+      const result = test(condition.not);
+      return result === null ? null : !result;
+    }
+    if ("field" in condition) {
+      const field = byKey.get(condition.field);
+      if (!field) return null;
+      const value = field.status === "skipped" ? "" : field.value.trim();
+      switch (condition.is) {
+        case "filled": return field.type === "checkbox" ? isCheckedValue(value) : value !== "";
+        case "empty": return field.type === "checkbox" ? !isCheckedValue(value) : value === "";
+        case "checked": return isCheckedValue(value);
+        case "unchecked": return !isCheckedValue(value);
+      }
+    }
+    const left = resolve(condition.left);
+    const right = resolve(condition.right);
+    if (!left || !right) return null;
+    const tolerance = condition.tolerance ?? 0;
+    if (left.kind === "date" || right.kind === "date") {
+      const a = asDate(left, locale);
+      const b = asDate(right, locale);
+      // ISO dates compare correctly as strings
+      return a && b ? compare(a, b, condition.op, 0) : null;
+    }
+    if (left.kind === "number" || right.kind === "number") {
+      const a = asNumber(left, locale);
+      const b = asNumber(right, locale);
+      return a !== null && b !== null ? compare(a, b, condition.op, tolerance) : null;
+    }
+    return compare(left.text.toLowerCase(), right.text.toLowerCase(), condition.op, tolerance);
+  };
+
+  const violations: RuleViolation[] = [];
+  for (const rule of rules) {
+    if (rule.when && test(rule.when) !== true) continue;
+    if (test(rule.assert) !== false) continue;
+    const keys = [...(rule.when ? referencedFieldKeys(rule.when) : []), ...referencedFieldKeys(rule.assert)];
+    violations.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      message: rule.message.trim() || rule.name,
+      fieldKeys: [...new Set(keys)].filter(key => byKey.has(key)),
+    });
+  }
+  return violations;
+};
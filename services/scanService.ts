@@ -0,0 +1,195 @@
+import { otsuThreshold } from "./preprocessService";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Page corners in normalized (0-1) frame coordinates: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// Corners may drift this much (as a fraction of the frame) between frames and still count as steady
+export const STEADY_TOLERANCE = 0.015;
+const MIN_PAGE_AREA = 0.15;
+const MAX_PAGE_AREA = 0.95;
+
+const polygonArea = (points: Point[]) => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+const isConvex = (quad: Quad) => {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) continue;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+};
+
+/**
+ * Finds the page in a (small) video frame: the largest connected region of light pixels,
+ * with its corners taken as the extremes along both diagonals. Returns null when no page-sized
+ * region stands out from the background.
+ */
+export const detectDocumentQuad = (frame: ImageData): Quad | null => {
+  const { width, height, data } = frame;
+  const pixels = width * height;
+  const gray = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  const threshold = otsuThreshold(gray);
+
+  // Flood fill every light region and keep the largest
+  const labels = new Int32Array(pixels);
+  const queue = new Int32Array(pixels);
+  let bestLabel = 0;
+  let bestSize = 0;
+  let label = 0;
+  for (let start = 0; start < pixels; start++) {
+    if (labels[start] !== 0 || gray[start] <= threshold) continue;
+    label++;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+    while (head < tail) {
+      const idx = queue[head++];
+      const x = idx % width;
+      const visit = (n: number) => {
+        if (labels[n] !== 0 || gray[n] <= threshold) return;
+        labels[n] = label;
+        queue[tail++] = n;
+      };
+      if (x > 0) visit(idx - 1);
+      if (x < width - 1) visit(idx + 1);
+      if (idx >= width) visit(idx - width);
+      if (idx < pixels - width) visit(idx + width);
+    }
+    if (tail > bestSize) {
+      bestSize = tail;
+      bestLabel = label;
+    }
+  }
+  if (bestSize < pixels * MIN_PAGE_AREA) return null;
+
+  let topLeft = { x: 0, y: 0, score: Infinity };
+  let bottomRight = { x: 0, y: 0, score: -Infinity };
+  let topRight = { x: 0, y: 0, score: -Infinity };
+  let bottomLeft = { x: 0, y: 0, score: Infinity };
+  for (let idx = 0; idx < pixels; idx++) {
+    if (labels[idx] !== bestLabel) continue;
+    const x = idx % width;
+    const y = (idx - x) / width;
+    if (x + y < topLeft.score) topLeft = { x, y, score: x + y };
+    if (x + y > bottomRight.score) bottomRight = { x, y, score: x + y };
+    if (x - y > topRight.score) topRight = { x, y, score: x - y };
+    if (x - y < bottomLeft.score) bottomLeft = { x, y, score: x - y };
+  }
+
+  const normalize = (p: Point): Point => ({ x: p.x / (width - 1), y: p.y / (height - 1) });
+  const quad: Quad = [normalize(topLeft), normalize(topRight), normalize(bottomRight), normalize(bottomLeft)];
+  const area = polygonArea(quad);
+  // A region filling the whole frame means the page edges aren't visible
+  if (area < MIN_PAGE_AREA || area > MAX_PAGE_AREA || !isConvex(quad)) return null;
+  return quad;
+};
+
+export const isQuadSteady = (previous: Quad | null, current: Quad | null, tolerance = STEADY_TOLERANCE) =>
+  !!previous && !!current && current.every((p, i) => Math.hypot(p.x - previous[i].x, p.y - previous[i].y) <= tolerance);
+
+/**
+ * Solves the 3x3 projective transform (with h33 = 1) that maps each `from` point onto the
+ * matching `to` point, by Gaussian elimination on the 8 resulting equations.
+ */
+const solveHomography = (from: Point[], to: Point[]): number[] => {
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    rows.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  }
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    const p = rows[col][col];
+    if (Math.abs(p) < 1e-12) throw new Error("Page corners are degenerate");
+    for (let c = col; c < 9; c++) rows[col][c] /= p;
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+  return [...rows.map(row => row[8]), 1];
+};
+
+/**
+ * Flattens the page inside `quad` onto an upright rectangle, undoing the perspective of a photo
+ * taken at an angle. The output keeps the page's proportions, with its longest edge at most `maxDimension`.
+ */
+export const warpPerspective = (source: HTMLCanvasElement, quad: Quad, maxDimension: number): HTMLCanvasElement => {
+  const srcCtx = source.getContext("2d");
+  if (!srcCtx) throw new Error("Canvas 2D context is not available");
+  const { width: sw, height: sh } = source;
+  const corners = quad.map(p => ({ x: p.x * (sw - 1), y: p.y * (sh - 1) }));
+  const edge = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+  const pageWidth = Math.max(edge(corners[0], corners[1]), edge(corners[3], corners[2]));
+  const pageHeight = Math.max(edge(corners[0], corners[3]), edge(corners[1], corners[2]));
+  const scale = Math.min(1, maxDimension / Math.max(pageWidth, pageHeight));
+  const ow = Math.max(1, Math.round(pageWidth * scale));
+  const oh = Math.max(1, Math.round(pageHeight * scale));
+
+  // Maps output pixels back to the source, so every output pixel gets exactly one sample
+  const h = solveHomography(
+    [{ x: 0, y: 0 }, { x: ow - 1, y: 0 }, { x: ow - 1, y: oh - 1 }, { x: 0, y: oh - 1 }],
+    corners
+  );
+  const src = srcCtx.getImageData(0, 0, sw, sh).data;
+  const output = document.createElement("canvas");
+  output.width = ow;
+  output.height = oh;
+  const outCtx = output.getContext("2d");
+  if (!outCtx) throw new Error("Canvas 2D context is not available");
+  const image = outCtx.createImageData(ow, oh);
+  const out = image.data;
+
+  for (let v = 0; v < oh; v++) {
+    for (let u = 0; u < ow; u++) {
+      const w = h[6] * u + h[7] * v + h[8];
+      const x = Math.min(sw - 1, Math.max(0, (h[0] * u + h[1] * v + h[2]) / w));
+      const y = Math.min(sh - 1, Math.max(0, (h[3] * u + h[4] * v + h[5]) / w));
+      // Bilinear sampling keeps small print legible
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = x - x0;
+      const fy = y - y0;
+      const o = (v * ow + u) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = src[(y0 * sw + x0) * 4 + c] * (1 - fx) + src[(y0 * sw + x1) * 4 + c] * fx;
+        const bottom = src[(y1 * sw + x0) * 4 + c] * (1 - fx) + src[(y1 * sw + x1) * 4 + c] * fx;
+        out[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      out[o + 3] = 255;
+    }
+  }
+  outCtx.putImageData(image, 0, 0);
+  return output;
+};
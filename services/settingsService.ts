@@ -0,0 +1,185 @@
+import { AppSettings, ExtractionSettings, UploadFileType, UploadSettings } from "../types";
+import { MAX_UPLOAD_BYTES, UPLOAD_FILE_TYPES } from "./uploadService";
+
+export interface AnalysisModel {
+  id: string;
+  label: string;
+  // Thinking budgets the model accepts, besides DYNAMIC_THINKING_BUDGET
+  minThinkingBudget: number;
+  maxThinkingBudget: number;
+}
+
+// Models offered for extraction; the server refuses any other, so a shared file can't pick an arbitrary one
+export const ANALYSIS_MODELS: AnalysisModel[] = [
+  { id: "gemini-3-pro-preview", label: "Gemini 3 Pro (preview)", minThinkingBudget: 128, maxThinkingBudget: 32768 },
+  { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro", minThinkingBudget: 128, maxThinkingBudget: 32768 },
+  { id: "gemini-2.5-flash", label: "Gemini 2.5 Flash", minThinkingBudget: 0, maxThinkingBudget: 24576 },
+  { id: "gemini-2.5-flash-lite", label: "Gemini 2.5 Flash-Lite", minThinkingBudget: 0, maxThinkingBudget: 24576 },
+];
+
+export const DYNAMIC_THINKING_BUDGET = -1;
+export const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 2000;
+const MAX_SPELLING_EXCEPTIONS = 20;
+const MAX_SPELLING_EXCEPTION_LENGTH = 60;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  extraction: {
+    model: "gemini-3-pro-preview",
+    thinkingBudget: 2048,
+    spellingCorrection: true,
+    spellingExceptions: ["Names", "IDs", "Addresses", "License Numbers"],
+    customInstructions: "",
+  },
+  upload: {
+    maxFileSizeMb: MAX_UPLOAD_BYTES / 1024 / 1024,
+    allowedTypes: ["jpeg", "png", "webp", "pdf"],
+  },
+};
+
+const SETTINGS_KEY = "docusight.settings";
+// Written into exported files so later formats can be told apart
+const SETTINGS_FILE_VERSION = 1;
+
+export const findModel = (id: string) => ANALYSIS_MODELS.find(model => model.id === id);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const checkKeys = (value: Record<string, unknown>, allowed: string[], path: string, errors: string[]) => {
+  const unknown = Object.keys(value).filter(key => !allowed.includes(key));
+  if (unknown.length > 0) errors.push(`${path}: unknown keys ${unknown.join(", ")}.`);
+};
+
+// Values that are missing keep their default; invalid ones are reported and keep it too
+const parseExtraction = (value: unknown, path: string, errors: string[]): ExtractionSettings => {
+  const settings = { ...DEFAULT_SETTINGS.extraction };
+  if (value === undefined) return settings;
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object.`);
+    return settings;
+  }
+  checkKeys(value, Object.keys(settings), path, errors);
+
+  if (value.model !== undefined) {
+    if (typeof value.model === "string" && findModel(value.model)) settings.model = value.model;
+    else errors.push(`${path}.model: must be one of ${ANALYSIS_MODELS.map(m => m.id).join(", ")}.`);
+  }
+  if (value.thinkingBudget !== undefined) {
+    const model = findModel(settings.model) ?? ANALYSIS_MODELS[0];
+    const budget = value.thinkingBudget;
+    if (typeof budget === "number" && Number.isInteger(budget)
+      && (budget === DYNAMIC_THINKING_BUDGET || (budget >= model.minThinkingBudget && budget <= model.maxThinkingBudget))) {
+      settings.thinkingBudget = budget;
+    } else {
+      errors.push(`${path}.thinkingBudget: must be ${DYNAMIC_THINKING_BUDGET} (dynamic) or a whole number from ${model.minThinkingBudget} to ${model.maxThinkingBudget} for ${model.label}.`);
+    }
+  }
+  if (value.spellingCorrection !== undefined) {
+    if (typeof value.spellingCorrection === "boolean") settings.spellingCorrection = value.spellingCorrection;
+    else errors.push(`${path}.spellingCorrection: must be true or false.`);
+  }
+  if (value.spellingExceptions !== undefined) {
+    const exceptions = value.spellingExceptions;
+    if (Array.isArray(exceptions) && exceptions.length <= MAX_SPELLING_EXCEPTIONS
+      && exceptions.every(e => typeof e === "string" && e.trim() && e.length <= MAX_SPELLING_EXCEPTION_LENGTH)) {
+      settings.spellingExceptions = exceptions.map((e: string) => e.trim());
+    } else {
+      errors.push(`${path}.spellingExceptions: must be a list of up to ${MAX_SPELLING_EXCEPTIONS} non-empty names of at most ${MAX_SPELLING_EXCEPTION_LENGTH} characters.`);
+    }
+  }
+  if (value.customInstructions !== undefined) {
+    if (typeof value.customInstructions === "string" && value.customInstructions.length <= MAX_CUSTOM_INSTRUCTIONS_LENGTH) {
+      settings.customInstructions = value.customInstructions;
+    } else {
+      errors.push(`${path}.customInstructions: must be text of at most ${MAX_CUSTOM_INSTRUCTIONS_LENGTH} characters.`);
+    }
+  }
+  return settings;
+};
+
+const parseUpload = (value: unknown, path: string, errors: string[]): UploadSettings => {
+  const settings = { ...DEFAULT_SETTINGS.upload };
+  if (value === undefined) return settings;
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object.`);
+    return settings;
+  }
+  checkKeys(value, Object.keys(settings), path, errors);
+
+  const maxMb = MAX_UPLOAD_BYTES / 1024 / 1024;
+  if (value.maxFileSizeMb !== undefined) {
+    const size = value.maxFileSizeMb;
+    if (typeof size === "number" && size >= 1 && size <= maxMb) settings.maxFileSizeMb = size;
+    else errors.push(`${path}.maxFileSizeMb: must be a number from 1 to ${maxMb}.`);
+  }
+  if (value.allowedTypes !== undefined) {
+    const types = value.allowedTypes;
+    if (Array.isArray(types) && types.length > 0 && types.every(t => typeof t === "string" && t in UPLOAD_FILE_TYPES)) {
+      settings.allowedTypes = [...new Set(types as UploadFileType[])];
+    } else {
+      errors.push(`${path}.allowedTypes: must be a non-empty list of ${Object.keys(UPLOAD_FILE_TYPES).join(", ")}.`);
+    }
+  }
+  return settings;
+};
+
+/**
+ * Reads settings as stored or exported. Missing values fall back to the defaults;
+ * every invalid or unknown value is reported with its path.
+ */
+export const parseSettings = (value: unknown): { settings: AppSettings; errors: string[] } => {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return { settings: DEFAULT_SETTINGS, errors: ["Expected an object with \"extraction\" and \"upload\" settings."] };
+  }
+  checkKeys(value, ["version", "extraction", "upload"], "settings", errors);
+  if (value.version !== undefined && value.version !== SETTINGS_FILE_VERSION) {
+    errors.push(`settings.version: ${String(value.version)} is not supported.`);
+  }
+  return {
+    settings: {
+      extraction: parseExtraction(value.extraction, "extraction", errors),
+      upload: parseUpload(value.upload, "upload", errors),
+    },
+    errors,
+  };
+};
+
+// Used by the API server on the settings sent with an upload
+export const parseExtractionSettings = (value: unknown): { settings: ExtractionSettings; errors: string[] } => {
+  const errors: string[] = [];
+  return { settings: parseExtraction(value, "settings", errors), errors };
+};
+
+export const getSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    // Values that became invalid (e.g. a model that was retired) quietly fall back to their defaults
+    return stored ? parseSettings(JSON.parse(stored)).settings : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Failed to save settings", err);
+  }
+};
+
+export const exportSettingsJson = (settings: AppSettings): string =>
+  JSON.stringify({ version: SETTINGS_FILE_VERSION, ...settings }, null, 2);
+
+// Settings from a shared file; they are only applied when the whole file is valid
+export const importSettingsJson = (json: string): { settings: AppSettings; errors: [] } | { settings: null; errors: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    return { settings: null, errors: [`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  const { settings, errors } = parseSettings(parsed);
+  return errors.length > 0 ? { settings: null, errors } : { settings, errors: [] };
+};
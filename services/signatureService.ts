@@ -0,0 +1,105 @@
+export interface SignaturePoint {
+  x: number;
+  y: number;
+}
+
+export interface SignatureStroke {
+  color: string;
+  width: number;
+  points: SignaturePoint[];
+}
+
+const SAVED_SIGNATURE_KEY = "docusight.savedSignature";
+// Padding around the ink when cropping the exported image
+const EXPORT_PADDING = 8;
+
+/**
+ * Draws strokes as quadratic curves through the midpoints between samples,
+ * which smooths out the jitter of raw pointer input.
+ */
+export const drawStrokes = (ctx: CanvasRenderingContext2D, strokes: SignatureStroke[]) => {
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  for (const stroke of strokes) {
+    const { points } = stroke;
+    if (points.length === 0) continue;
+    ctx.strokeStyle = stroke.color;
+    ctx.fillStyle = stroke.color;
+    ctx.lineWidth = stroke.width;
+
+    // A single tap leaves a dot
+    if (points.length === 1) {
+      ctx.beginPath();
+      ctx.arc(points[0].x, points[0].y, stroke.width / 2, 0, Math.PI * 2);
+      ctx.fill();
+      continue;
+    }
+
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    for (let i = 1; i < points.length - 1; i++) {
+      const midX = (points[i].x + points[i + 1].x) / 2;
+      const midY = (points[i].y + points[i + 1].y) / 2;
+      ctx.quadraticCurveTo(points[i].x, points[i].y, midX, midY);
+    }
+    const last = points[points.length - 1];
+    ctx.lineTo(last.x, last.y);
+    ctx.stroke();
+  }
+};
+
+/**
+ * Renders the strokes to a transparent PNG cropped to the ink, so the signature
+ * fills the field's bounding box when composited onto the page.
+ */
+export const strokesToPng = (strokes: SignatureStroke[], scale = 2): string | null => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const stroke of strokes) {
+    for (const p of stroke.points) {
+      minX = Math.min(minX, p.x - stroke.width);
+      minY = Math.min(minY, p.y - stroke.width);
+      maxX = Math.max(maxX, p.x + stroke.width);
+      maxY = Math.max(maxY, p.y + stroke.width);
+    }
+  }
+  if (!Number.isFinite(minX)) return null;
+
+  const width = maxX - minX + EXPORT_PADDING * 2;
+  const height = maxY - minY + EXPORT_PADDING * 2;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(width * scale);
+  canvas.height = Math.ceil(height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  ctx.scale(scale, scale);
+  ctx.translate(EXPORT_PADDING - minX, EXPORT_PADDING - minY);
+  drawStrokes(ctx, strokes);
+  return canvas.toDataURL("image/png");
+};
+
+// A single signature can be remembered in this browser for reuse across documents
+export const getSavedSignature = (): string | null => {
+  try {
+    return localStorage.getItem(SAVED_SIGNATURE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveSignature = (dataUrl: string) => {
+  try {
+    localStorage.setItem(SAVED_SIGNATURE_KEY, dataUrl);
+  } catch (err) {
+    console.error("Failed to save signature", err);
+  }
+};
+
+export const clearSavedSignature = () => {
+  try {
+    localStorage.removeItem(SAVED_SIGNATURE_KEY);
+  } catch (err) {
+    console.error("Failed to clear saved signature", err);
+  }
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { DocumentTable } from "../types";
+import { columnTotal } from "./tableService";
+
+const table = (type: "number" | "currency", values: string[]): DocumentTable => ({
+  id: "t",
+  title: "Items",
+  columns: [{ key: "amount", label: "Amount", type }],
+  rows: values.map((value, idx) => ({ id: `r${idx}`, cells: [{ value }], page: 1 })),
+});
+
+describe("columnTotal", () => {
+  it("reads numbers in the document's locale", () => {
+    expect(columnTotal(table("number", ["1.234,5", "10"]), 0, "de-DE")).toBe(1244.5);
+    expect(columnTotal(table("number", ["1,234.5", "10"]), 0, "en-US")).toBe(1244.5);
+  });
+
+  it("sums currency amounts and skips empty cells", () => {
+    expect(columnTotal(table("currency", ["1.000,00 €", "", "€ 2,50"]), 0, "de-DE")).toBe(1002.5);
+  });
+
+  it("gives no total when a cell is not a number", () => {
+    expect(columnTotal(table("number", ["12", "twelve"]), 0, "en-US")).toBeNull();
+  });
+});
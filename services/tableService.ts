@@ -0,0 +1,52 @@
+import { DocumentTable, FieldData, TableColumn, TableRow } from "../types";
+import { createId } from "./id";
+import { normalizeCurrency, normalizeNumber } from "./localeService";
+
+export const createTableRow = (columns: TableColumn[], page = 1): TableRow => ({
+  id: createId(),
+  cells: columns.map(() => ({ value: "" })),
+  page,
+});
+
+// Identifies a cell wherever a field key is expected (preview overlays, ActiveField)
+export const tableCellKey = (tableId: string, rowId: string, columnKey: string) => `${tableId}:${rowId}:${columnKey}`;
+
+/**
+ * Cells with a bounding box as pseudo-fields, so the document preview can outline them
+ * alongside regular fields.
+ */
+export const tableCellFields = (tables: DocumentTable[]): FieldData[] =>
+  tables.flatMap(table => table.rows.flatMap((row, rowIdx) =>
+    table.columns.flatMap((column, colIdx): FieldData[] => {
+      const cell = row.cells[colIdx];
+      if (!cell?.boundingBox) return [];
+      return [{
+        key: tableCellKey(table.id, row.id, column.key),
+        label: `${table.title} ${rowIdx + 1}: ${column.label}`,
+        value: cell.value,
+        type: column.type,
+        status: cell.value.trim() ? 'filled' : 'empty',
+        required: false,
+        boundingBox: cell.boundingBox,
+        page: row.page,
+      }];
+    })
+  ));
+
+// Sum of a numeric or currency column read in the document's locale, or null if any non-empty cell is not a number
+export const columnTotal = (table: DocumentTable, columnIdx: number, locale: string): number | null => {
+  const column = table.columns[columnIdx];
+  if (column.type !== 'number' && column.type !== 'currency') return null;
+  const parse = column.type === 'currency'
+    ? (value: string) => normalizeCurrency(value, locale)?.amount ?? null
+    : (value: string) => normalizeNumber(value, locale);
+  let total = 0;
+  for (const row of table.rows) {
+    const value = row.cells[columnIdx]?.value.trim();
+    if (!value) continue;
+    const n = parse(value);
+    if (n === null) return null;
+    total += n;
+  }
+  return total;
+};
@@ -0,0 +1,145 @@
+import { DocumentAnalysis, DocumentTemplate, FieldData, TemplateField } from "../types";
+import { TEMPLATE_STORE, withStore } from "./db";
+import { createId } from "./id";
+
+export const listTemplates = async (): Promise<DocumentTemplate[]> => {
+  const templates = await withStore<DocumentTemplate[]>(TEMPLATE_STORE, "readonly", store => store.getAll());
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTemplate = async (template: DocumentTemplate): Promise<DocumentTemplate> => {
+  const saved = { ...template, updatedAt: Date.now() };
+  await withStore(TEMPLATE_STORE, "readwrite", store => store.put(saved));
+  return saved;
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  await withStore(TEMPLATE_STORE, "readwrite", store => store.delete(id));
+};
+
+// Captures the reviewed layout of a document; values are deliberately not stored
+export const createTemplateFromFields = (name: string, documentType: string, fields: FieldData[]): DocumentTemplate => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    name,
+    documentType,
+    fields: fields.map(({ key, label, type, required, boundingBox, page, constraints }) => ({
+      key, label, type, required, boundingBox, page, constraints
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const normalizeText = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Minimum score for matchTemplate to accept a template
+const MATCH_THRESHOLD = 0.5;
+
+/**
+ * Scores how well an analysis fits a template: half from the document type, half from shared field keys/labels.
+ * Used by providers that cannot classify the document up front.
+ */
+export const scoreTemplate = (template: DocumentTemplate, analysis: Pick<DocumentAnalysis, 'documentType' | 'fields'>): number => {
+  const typeScore = normalizeText(template.documentType) === normalizeText(analysis.documentType) ? 1 : 0;
+  if (template.fields.length === 0) return typeScore / 2;
+
+  const keys = new Set(analysis.fields.map(f => f.key));
+  const labels = new Set(analysis.fields.map(f => normalizeText(f.label)));
+  const shared = template.fields.filter(f => keys.has(f.key) || labels.has(normalizeText(f.label))).length;
+
+  return typeScore / 2 + (shared / template.fields.length) / 2;
+};
+
+export const matchTemplate = (
+  templates: DocumentTemplate[],
+  analysis: Pick<DocumentAnalysis, 'documentType' | 'fields'>
+): DocumentTemplate | null => {
+  let best: DocumentTemplate | null = null;
+  let bestScore = MATCH_THRESHOLD;
+  for (const template of templates) {
+    const score = scoreTemplate(template, analysis);
+    if (score >= bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const findTemplateField = (template: DocumentTemplate, field: FieldData): TemplateField | undefined =>
+  template.fields.find(t => t.key === field.key)
+  ?? template.fields.find(t => normalizeText(t.label) === normalizeText(field.label));
+
+/**
+ * Snaps an analysis onto a template so keys and layout are stable across runs:
+ * matched fields take the template's key, label, type, required flag and constraints,
+ * and template fields the model did not return are added as empty at their saved position.
+ * Keys stay unique and missingFields is recomputed, as normalizeAnalysis guarantees.
+ */
+export const applyTemplate = (analysis: DocumentAnalysis, template: DocumentTemplate): DocumentAnalysis => {
+  const used = new Set<string>();
+  const matches = analysis.fields.map(field => {
+    const match = findTemplateField(template, field);
+    if (!match || used.has(match.key)) return null;
+    used.add(match.key);
+    return match;
+  });
+
+  // Every template key ends up in the result, so unmatched fields must not reuse one
+  const usedKeys = new Set(template.fields.map(f => f.key));
+  const renamed = new Map<string, string>();
+  const fields: FieldData[] = analysis.fields.map((field, idx) => {
+    const match = matches[idx];
+    if (!match) {
+      let key = field.key;
+      if (usedKeys.has(key)) {
+        let n = 2;
+        while (usedKeys.has(`${field.key}${n}`)) n++;
+        key = `${field.key}${n}`;
+      }
+      usedKeys.add(key);
+      renamed.set(field.key, key);
+      return key === field.key ? field : { ...field, key };
+    }
+    renamed.set(field.key, match.key);
+    return {
+      ...field,
+      key: match.key,
+      label: match.label,
+      type: match.type,
+      required: match.required,
+      constraints: match.constraints ?? field.constraints,
+      boundingBox: field.boundingBox ?? match.boundingBox,
+      page: field.boundingBox ? field.page : match.page,
+    };
+  });
+
+  for (const templateField of template.fields) {
+    if (used.has(templateField.key)) continue;
+    fields.push({ ...templateField, value: "", status: "empty" });
+  }
+
+  return {
+    ...analysis,
+    documentType: template.documentType,
+    fields,
+    missingFields: fields.filter(f => f.required && f.status === "empty").map(f => f.key),
+    // Findings keep pointing at the same field after it was renamed
+    securityRisks: analysis.securityRisks.map(risk =>
+      risk.fieldKey && renamed.has(risk.fieldKey) ? { ...risk, fieldKey: renamed.get(risk.fieldKey) } : risk
+    ),
+    templateId: template.id,
+  };
+};
+
+// Prompt section describing the expected layout, so the model reuses the same keys
+export const describeTemplateForPrompt = (template: DocumentTemplate): string => {
+  const lines = template.fields.map(f => {
+    const box = f.boundingBox ? ` at [${f.boundingBox.map(n => n.toFixed(3)).join(", ")}] on page ${f.page}` : "";
+    return `- key "${f.key}": "${f.label}" (${f.type}${f.required ? ", required" : ""})${box}`;
+  });
+  return `This document is a known "${template.documentType}" form. Use EXACTLY these field keys, labels and types, one entry per key, and expect each value near the given bounding box:
+${lines.join("\n")}`;
+};
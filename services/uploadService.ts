@@ -0,0 +1,41 @@
+import { UploadFileType, UploadSettings } from "../types";
+import { isPreprocessable } from "./preprocessService";
+
+// Hard limit of the API server; the upload limit in the settings can only be lower
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+// Photos are downscaled in the browser before they are sent, so they may start out larger
+export const MAX_IMAGE_UPLOAD_BYTES = 40 * 1024 * 1024;
+
+export const UPLOAD_FILE_TYPES: Record<UploadFileType, { label: string; mimeType: string }> = {
+  pdf: { label: "PDF", mimeType: "application/pdf" },
+  jpeg: { label: "JPG", mimeType: "image/jpeg" },
+  png: { label: "PNG", mimeType: "image/png" },
+  webp: { label: "WebP", mimeType: "image/webp" },
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+
+export const maxUploadBytes = (limits: UploadSettings) => Math.min(MAX_UPLOAD_BYTES, limits.maxFileSizeMb * 1024 * 1024);
+
+// For the accept attribute of file inputs
+export const toAcceptAttribute = (limits: UploadSettings) =>
+  limits.allowedTypes.map(type => UPLOAD_FILE_TYPES[type].mimeType).join(",");
+
+// E.g. "JPG, PNG or PDF"
+export const describeAllowedTypes = (limits: UploadSettings) => {
+  const labels = limits.allowedTypes.map(type => UPLOAD_FILE_TYPES[type].label);
+  return labels.length > 1 ? `${labels.slice(0, -1).join(", ")} or ${labels[labels.length - 1]}` : labels.join("");
+};
+
+// Returns a message explaining why the file can't be uploaded, or null if it can
+export const validateUploadFile = (file: File, limits: UploadSettings): string | null => {
+  if (!limits.allowedTypes.some(type => UPLOAD_FILE_TYPES[type].mimeType === file.type)) {
+    return `${file.name}: please upload a ${describeAllowedTypes(limits)} file.`;
+  }
+  const limit = isPreprocessable(file) ? MAX_IMAGE_UPLOAD_BYTES : maxUploadBytes(limits);
+  if (file.size > limit) {
+    return `${file.name}: file size exceeds ${formatBytes(limit)}.`;
+  }
+  return null;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { FieldData } from "../types";
+import { isCheckedValue, validateField, validateFields } from "./validationService";
+
+const field = (overrides: Partial<FieldData>): FieldData => ({
+  key: "value", label: "Value", value: "", type: "text", status: "filled", required: false, page: 1, ...overrides,
+});
+
+describe("validateField", () => {
+  it("requires required fields and passes skipped ones", () => {
+    expect(validateField(field({ required: true, status: "empty" }), "en-US")).toBe("This field is required.");
+    expect(validateField(field({ required: true, status: "skipped" }), "en-US")).toBeNull();
+  });
+
+  it("treats placeholders and empty fields as blank", () => {
+    expect(validateField(field({ type: "email", value: "N/A", status: "empty" }), "en-US")).toBeNull();
+    expect(validateField(field({ type: "date", value: "n/a" }), "en-US")).toBeNull();
+    expect(validateField(field({ type: "currency", value: "-" }), "en-US")).toBeNull();
+    expect(validateField(field({ type: "date", value: "N/A", required: true }), "en-US")).toBe("This field is required.");
+  });
+
+  it("checks emails and phone numbers", () => {
+    expect(validateField(field({ type: "email", value: "ann@example.com" }), "en-US")).toBeNull();
+    expect(validateField(field({ type: "email", value: "ann@" }), "en-US")).not.toBeNull();
+    expect(validateField(field({ type: "phone", value: "12" }), "en-US")).not.toBeNull();
+  });
+
+  it("reads dates and numbers in the document's locale", () => {
+    expect(validateField(field({ type: "date", value: "4. März 2025" }), "de-DE")).toBeNull();
+    expect(validateField(field({ type: "date", value: "31.12.2025." }), "de-DE")).toBeNull();
+    expect(validateField(field({ type: "currency", value: "1.234,56 €" }), "de-DE")).toBeNull();
+    expect(validateField(field({ type: "date", value: "someday" }), "de-DE")).toBe("Enter a valid date (e.g. 2025-03-04).");
+  });
+
+  it("applies min and max to locale numbers and ISO bounds to dates", () => {
+    expect(validateField(field({ type: "number", value: "1.234", constraints: { max: 1000 } }), "de-DE")).toBe("Must be at most 1000.");
+    expect(validateField(field({ type: "number", value: "1,5", constraints: { max: 1000 } }), "de-DE")).toBeNull();
+    expect(validateField(field({ type: "date", value: "01.01.2024", constraints: { min: "2025-01-01" } }), "de-DE"))
+      .toBe("Date must be on or after 2025-01-01.");
+  });
+
+  it("checks allowed values, patterns and lengths", () => {
+    const constraints = { allowedValues: ["A", "B"] };
+    expect(validateField(field({ value: "a", constraints }), "en-US")).toBeNull();
+    expect(validateField(field({ value: "C", constraints }), "en-US")).toBe("Must be one of: A, B.");
+    expect(validateField(field({ value: "12", constraints: { pattern: "^\\d{3}$", patternMessage: "Three digits." } }), "en-US")).toBe("Three digits.");
+    expect(validateField(field({ value: "ab", constraints: { minLength: 3 } }), "en-US")).toBe("Must be at least 3 characters.");
+  });
+
+  it("requires a required checkbox to be checked", () => {
+    expect(validateField(field({ type: "checkbox", value: "false", required: true }), "en-US")).toBe("This box must be checked.");
+    expect(validateField(field({ type: "checkbox", value: "x", required: true }), "en-US")).toBeNull();
+  });
+});
+
+describe("validateFields", () => {
+  it("returns errors by field key", () => {
+    const errors = validateFields([
+      field({ key: "email", type: "email", value: "nope" }),
+      field({ key: "name", value: "Ann" }),
+    ], "en-US");
+    expect(Object.keys(errors)).toEqual(["email"]);
+  });
+});
+
+describe("isCheckedValue", () => {
+  it("accepts the usual checked spellings", () => {
+    expect(["true", "Yes", "checked", "x", "1"].every(isCheckedValue)).toBe(true);
+    expect(isCheckedValue("no")).toBe(false);
+  });
+});
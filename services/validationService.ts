@@ -0,0 +1,222 @@
+import { FieldConstraints, FieldData } from "../types";
+import { normalizeCurrency, normalizeDate, normalizeNumber } from "./localeService";
+
+// Map of field key -> human readable error message. Keys without errors are absent.
+export type ValidationErrors = Record<string, string>;
+
+const CHECKED_VALUES = ['true', 'yes', 'checked', 'x', '1'];
+const UNCHECKED_VALUES = ['false', 'no', 'unchecked', '', '0'];
+// What the model writes into blank fields (the prompt asks for 'N/A' or an empty string)
+const PLACEHOLDER_VALUES = ['n/a', 'na', '-', '–', '—', 'none'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+export const isCheckedValue = (value: string) => CHECKED_VALUES.includes(value.trim().toLowerCase());
+
+const isBlank = (field: FieldData, value: string) =>
+  !value || field.status === 'empty' || PLACEHOLDER_VALUES.includes(value.toLowerCase());
+
+const isValidCalendarDate = (year: number, month: number, day: number) => {
+  if (month < 1 || month > 12 || day < 1) return false;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const toIso = (year: number, month: number, day: number) =>
+  `${year.toString().padStart(4, '0')}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+
+/**
+ * Parses the date formats commonly found on forms into an ISO date (YYYY-MM-DD).
+ * Numeric day/month order is ambiguous; month-first is tried before day-first.
+ * Returns null for anything that is not a real calendar date.
+ */
+export const parseDate = (raw: string): string | null => {
+  const value = raw.trim();
+
+  // 2025-03-04
+  let m = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (m) {
+    const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+    return isValidCalendarDate(year, month, day) ? toIso(year, month, day) : null;
+  }
+
+  // 03/04/2025, 3.4.25
+  m = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (m) {
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    let year = Number(m[3]);
+    if (m[3].length === 2) year += year < 50 ? 2000 : 1900;
+    if (isValidCalendarDate(year, a, b)) return toIso(year, a, b);
+    if (isValidCalendarDate(year, b, a)) return toIso(year, b, a);
+    return null;
+  }
+
+  // March 4, 2025 / 4 March 2025
+  m = value.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i)
+    || value.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)\.?,?\s+(\d{4})$/i);
+  if (m) {
+    const monthName = /^\d/.test(m[1]) ? m[2] : m[1];
+    const day = Number(/^\d/.test(m[1]) ? m[1] : m[2]);
+    const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase()) + 1;
+    const year = Number(m[3]);
+    return month > 0 && isValidCalendarDate(year, month, day) ? toIso(year, month, day) : null;
+  }
+
+  return null;
+};
+
+/**
+ * Parses a plain or grouped number ("1234.5", "1,234.50", "1.234,50", "1 234").
+ * Returns null if the text contains anything else.
+ */
+export const parseNumber = (raw: string): number | null => {
+  let value = raw.trim().replace(/\s/g, '');
+  if (!/^[-+]?[\d.,]+$/.test(value) || !/\d/.test(value)) return null;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // Comma is the decimal separator unless it groups exactly three digits with no dot present
+    const decimals = value.length - lastComma - 1;
+    value = lastDot === -1 && decimals === 3 && value.indexOf(',') === lastComma && lastComma > 0
+      ? value.replace(/,/g, '')
+      : value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  if (!/^[-+]?\d+(\.\d+)?$/.test(value)) return null;
+  return Number(value);
+};
+
+// Accepts an amount with an optional currency symbol or ISO code before or after it ("$1,250.00", "1.234,56 €", "EUR 90")
+export const parseCurrency = (raw: string): number | null => {
+  const m = raw.trim().match(/^([-+])?\s*(?:[A-Z]{3}|[^\d\s.,+-]{1,3})?\s*([-+]?[\d.,\s]*\d[\d.,]*)\s*(?:[A-Z]{3}|[^\d\s.,]{1,3})?$/i);
+  if (!m) return null;
+  const amount = parseNumber(m[2]);
+  if (amount === null) return null;
+  return m[1] === '-' ? -amount : amount;
+};
+
+// Values are read the way the document's locale writes them ("4. März 2025", "1.234,50 €")
+const readAmount = (value: string, locale: string) => normalizeCurrency(value, locale)?.amount ?? null;
+
+const validatePhone = (value: string): string | null => {
+  if (!/^\+?[\d\s().-]+(\s*(x|ext\.?)\s*\d+)?$/i.test(value)) {
+    return 'Phone numbers may only contain digits, spaces, +, -, ( and ).';
+  }
+  const digits = value.replace(/(x|ext\.?)\s*\d+$/i, '').replace(/\D/g, '');
+  if (digits.length < 7 || digits.length > 15) {
+    return 'Phone number should have between 7 and 15 digits.';
+  }
+  return null;
+};
+
+const validateAddress = (value: string): string | null => {
+  const words = value.split(/[\s,]+/).filter(Boolean);
+  if (words.length < 2 || !/[a-z]/i.test(value)) {
+    return 'Enter a complete address (street and city at minimum).';
+  }
+  return null;
+};
+
+const validateType = (field: FieldData, value: string, locale: string): string | null => {
+  switch (field.type) {
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? null : 'Enter a valid email address (e.g. name@example.com).';
+    case 'phone':
+      return validatePhone(value);
+    case 'date':
+      return normalizeDate(value, locale) ? null : 'Enter a valid date (e.g. 2025-03-04).';
+    case 'number':
+      return normalizeNumber(value, locale) !== null ? null : 'Enter a number.';
+    case 'currency':
+      return readAmount(value, locale) !== null ? null : 'Enter an amount (e.g. $1,250.00).';
+    case 'address':
+      return validateAddress(value);
+    case 'checkbox':
+      return CHECKED_VALUES.includes(value.toLowerCase()) || UNCHECKED_VALUES.includes(value.toLowerCase())
+        ? null
+        : 'Checkbox value must be checked or unchecked.';
+    default:
+      return null;
+  }
+};
+
+const validateConstraints = (field: FieldData, value: string, constraints: FieldConstraints, locale: string): string | null => {
+  if (constraints.allowedValues && constraints.allowedValues.length > 0) {
+    const allowed = constraints.allowedValues.map(v => v.toLowerCase());
+    if (!allowed.includes(value.toLowerCase())) {
+      return `Must be one of: ${constraints.allowedValues.join(', ')}.`;
+    }
+  }
+
+  if (constraints.pattern) {
+    try {
+      if (!new RegExp(constraints.pattern).test(value)) {
+        return constraints.patternMessage || 'Value does not match the expected format.';
+      }
+    } catch {
+      console.warn(`Ignoring invalid pattern for field "${field.key}": ${constraints.pattern}`);
+    }
+  }
+
+  if (constraints.minLength !== undefined && value.length < constraints.minLength) {
+    return `Must be at least ${constraints.minLength} characters.`;
+  }
+  if (constraints.maxLength !== undefined && value.length > constraints.maxLength) {
+    return `Must be at most ${constraints.maxLength} characters.`;
+  }
+
+  if (field.type === 'date') {
+    const iso = normalizeDate(value, locale);
+    // Bounds come from templates, which store them as ISO dates
+    const min = constraints.min !== undefined ? parseDate(String(constraints.min)) : null;
+    const max = constraints.max !== undefined ? parseDate(String(constraints.max)) : null;
+    // ISO dates compare correctly as strings
+    if (iso && min && iso < min) return `Date must be on or after ${min}.`;
+    if (iso && max && iso > max) return `Date must be on or before ${max}.`;
+  } else if (field.type === 'number' || field.type === 'currency') {
+    const amount = field.type === 'number' ? normalizeNumber(value, locale) : readAmount(value, locale);
+    const min = constraints.min !== undefined ? Number(constraints.min) : null;
+    const max = constraints.max !== undefined ? Number(constraints.max) : null;
+    if (amount !== null && min !== null && amount < min) return `Must be at least ${min}.`;
+    if (amount !== null && max !== null && amount > max) return `Must be at most ${max}.`;
+  }
+
+  return null;
+};
+
+/**
+ * Validates a single field against its type and optional constraints, reading dates and
+ * numbers in the document's locale. Skipped fields always pass. Returns an error message or null.
+ */
+export const validateField = (field: FieldData, locale: string): string | null => {
+  if (field.status === 'skipped') return null;
+
+  const value = field.value.trim();
+
+  if (field.type === 'checkbox') {
+    if (field.required && !isCheckedValue(value)) return 'This box must be checked.';
+  } else if (isBlank(field, value)) {
+    return field.required ? 'This field is required.' : null;
+  }
+
+  // Uploaded images/signatures are data URLs; there is nothing further to check
+  if (field.type === 'image' || field.type === 'signature') return null;
+
+  return validateType(field, value, locale)
+    ?? (field.constraints ? validateConstraints(field, value, field.constraints, locale) : null);
+};
+
+export const validateFields = (fields: FieldData[], locale: string): ValidationErrors => {
+  const errors: ValidationErrors = {};
+  for (const field of fields) {
+    const error = validateField(field, locale);
+    if (error) errors[field.key] = error;
+  }
+  return errors;
+};
@@ -1,3 +1,21 @@
+// Optional per-field rules checked by services/validationService.ts on top of the type check
+export interface FieldConstraints {
+  min?: number | string; // Number/currency minimum, or an ISO date for date fields
+  max?: number | string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string; // RegExp source, e.g. "^[A-Z]{2}\\d{6}$"
+  patternMessage?: string; // Shown instead of the generic message when pattern fails
+  allowedValues?: string[]; // Case-insensitive whitelist
+}
+
+// Typed reading of a field's raw text in the document locale, computed by services/localeService.ts
+export type NormalizedValue =
+  | { kind: 'date'; iso: string } // YYYY-MM-DD
+  | { kind: 'number'; value: number }
+  | { kind: 'currency'; amount: number; currency: string | null } // ISO 4217, null if the symbol is unknown
+  | { kind: 'phone'; e164: string };
+
 export interface FieldData {
   key: string;
   value: string;
@@ -9,6 +27,51 @@ export interface FieldData {
   confidence?: number; // 0-1
   explanation?: string; // Why Gemini extracted this
   boundingBox?: number[]; // [ymin, xmin, ymax, xmax] normalized coordinates (0-1)
+  page: number; // 1-based page the boundingBox refers to (always 1 for images)
+  constraints?: FieldConstraints;
+  original?: { value: string; status: FieldData['status'] }; // Model output, kept when a reviewer edits the field
+  normalized?: NormalizedValue; // Only set on exported fields; the raw value stays authoritative
+}
+
+export type FieldEditAction = 'edit' | 'skip' | 'unskip' | 'revert' | 'undo' | 'redo';
+
+// One entry in the audit trail of human changes to a field
+export interface FieldEdit {
+  id: string;
+  fieldKey: string;
+  action: FieldEditAction;
+  timestamp: number;
+  previousValue: string;
+  newValue: string;
+  previousStatus: FieldData['status'];
+  newStatus: FieldData['status'];
+}
+
+export type PiiCategory =
+  | 'ssn'
+  | 'national_id'
+  | 'credit_card'
+  | 'bank_account'
+  | 'date_of_birth'
+  | 'address'
+  | 'phone'
+  | 'email'
+  | 'name'
+  | 'medical'
+  | 'credentials'
+  | 'other';
+
+export type PiiSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// A piece of sensitive data visible on the document that may need redacting
+export interface PiiFinding {
+  id: string; // Assigned client-side, stable for the lifetime of the analysis
+  category: PiiCategory;
+  severity: PiiSeverity;
+  description: string; // E.g. "Full SSN printed next to the applicant's name"
+  boundingBox?: number[]; // [ymin, xmin, ymax, xmax] normalized (0-1); falls back to the linked field's box
+  page: number; // 1-based
+  fieldKey?: string; // FieldData.key holding the same value, if any
 }
 
 export interface DocumentAnalysis {
@@ -16,8 +79,65 @@ export interface DocumentAnalysis {
   summary: string;
   fields: FieldData[];
   missingFields: string[]; // List of required fields that are empty
-  securityRisks: string[]; // E.g., visible credit card numbers
+  securityRisks: PiiFinding[]; // E.g., visible credit card numbers
   actionableInsights: string[]; // "Please sign page 2"
+  templateId?: string; // Set when a saved DocumentTemplate constrained the extraction
+  repairs?: string[]; // Problems in the model output fixed by services/normalizeAnalysis.ts
+  auditLog?: FieldEdit[]; // Human edits made during review, oldest first
+  conversation?: ChatMessage[]; // "Ask the document" questions and answers
+  tables?: DocumentTable[]; // Repeating line items, kept out of the flat field list
+  locale?: string; // BCP 47 tag the dates and numbers are written in, detected by the model or set by the reviewer
+}
+
+// What has been extracted so far while the model is still generating the analysis
+export interface PartialAnalysis {
+  documentType?: string;
+  summary?: string;
+  fields: FieldData[]; // Fields received in full, in the order the model returned them
+}
+
+export type TableColumnType = 'text' | 'number' | 'currency' | 'date';
+
+export interface TableColumn {
+  key: string;
+  label: string;
+  type: TableColumnType;
+}
+
+export interface TableCell {
+  value: string;
+  boundingBox?: number[]; // [ymin, xmin, ymax, xmax] normalized coordinates (0-1) on the row's page
+}
+
+export interface TableRow {
+  id: string;
+  cells: TableCell[]; // One per column, in column order
+  page: number;
+}
+
+// A table of line items (e.g. invoice positions or statement transactions)
+export interface DocumentTable {
+  id: string;
+  title: string;
+  columns: TableColumn[];
+  rows: TableRow[];
+}
+
+// A turn in the "Ask the document" chat. Answers cite the field keys they are based on.
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  citations?: string[];
+  timestamp: number;
+  error?: boolean; // The question could not be answered
+}
+
+// Field currently highlighted in both the preview and the Digital Form.
+// `source` records which side initiated the selection so the other side can follow.
+export interface ActiveField {
+  key: string;
+  source: 'preview' | 'form';
 }
 
 export enum AppState {
@@ -32,4 +152,190 @@ export interface UploadedFile {
   type: string;
   url: string; // Object URL for preview
   base64: string; // For API
-}
\ No newline at end of file
+}
+
+export type QueueItemStatus = 'queued' | 'analyzing' | 'done' | 'failed' | 'cancelled';
+
+// One uploaded document moving through the batch analysis queue
+export interface QueueItem {
+  id: string;
+  file: UploadedFile;
+  source: File; // Kept so failed items can be retried
+  status: QueueItemStatus;
+  result?: DocumentAnalysis;
+  partial?: PartialAnalysis; // Streamed progress while analyzing
+  attempt?: number; // 1-based try while analyzing; above 1 after automatic retries
+  error?: string; // Why it failed; while analyzing, the temporary error being retried
+  failure?: AnalysisFailure; // Set once the analysis has failed for good
+}
+
+// A past analysis persisted in IndexedDB, including the original upload and the latest edits
+export interface HistoryEntry {
+  id: string;
+  name: string; // User-editable, defaults to the file name
+  fileName: string;
+  fileType: string;
+  file: Blob;
+  analysis: DocumentAnalysis;
+  fields: FieldData[]; // Edited values; analysis.fields keeps the original model output
+  auditLog?: FieldEdit[];
+  conversation?: ChatMessage[];
+  tables?: DocumentTable[]; // Edited tables; analysis.tables keeps the original model output
+  locale?: string; // Chosen by the reviewer; analysis.locale keeps the detected one
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Layout of one field in a reusable template, learned from a reviewed analysis
+export type TemplateField = Pick<FieldData, 'key' | 'label' | 'type' | 'required' | 'boundingBox' | 'page' | 'constraints'>;
+
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  documentType: string;
+  fields: TemplateField[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A value in a business rule: a field key, a number, a literal, or arithmetic over other operands
+export type RuleOperand =
+  | string
+  | number
+  | { value: string | number }
+  | { add: RuleOperand[] }
+  | { subtract: [RuleOperand, RuleOperand] }
+  | { multiply: RuleOperand[] };
+
+export type RuleComparator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type RuleFieldState = 'filled' | 'empty' | 'checked' | 'unchecked';
+
+export type RuleCondition =
+  | { left: RuleOperand; op: RuleComparator; right: RuleOperand; tolerance?: number }
+  | { field: string; is: RuleFieldState }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export type RuleSeverity = 'error' | 'warning';
+
+// Cross-field check written as JSON; `assert` must hold whenever `when` does
+export interface BusinessRule {
+  id: string;
+  name: string;
+  documentType: string; // Empty applies the rule to every document
+  enabled: boolean;
+  severity: RuleSeverity;
+  message: string;
+  when?: RuleCondition;
+  assert: RuleCondition;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RuleViolation {
+  ruleId: string;
+  ruleName: string;
+  severity: RuleSeverity;
+  message: string;
+  fieldKeys: string[]; // Fields the rule refers to that exist in the document
+}
+
+export type FieldChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+// One field matched across two analyses of the same form
+export interface FieldDiff {
+  key: string; // Key in the newer analysis, or in the older one for removed fields
+  label: string;
+  change: FieldChange;
+  before?: FieldData;
+  after?: FieldData;
+  changedProperties: ('value' | 'status' | 'type' | 'required')[];
+}
+
+export interface AnalysisDiff {
+  documentTypeChanged: boolean;
+  fields: FieldDiff[];
+  missingFields: { added: string[]; removed: string[] }; // Keys that became / stopped being missing
+  securityRisks: { added: PiiFinding[]; removed: PiiFinding[] };
+}
+
+export type ApiErrorCode =
+  | 'bad_request'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'payload_too_large'
+  | 'unsupported_media_type'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'upstream_unavailable' // The model service is overloaded; worth retrying
+  | 'upstream_auth' // The server's model API key is missing or was rejected
+  | 'upstream_quota' // The server's model quota is used up
+  | 'upstream_timeout' // The model service took too long to answer
+  | 'upstream_unreachable' // The model service could not be reached
+  | 'invalid_settings' // The extraction settings sent with the upload were refused
+  | 'safety_blocked'
+  | 'malformed_output'
+  | 'internal_error';
+
+// Body of every failed response from the API server
+export interface ApiErrorResponse {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    retryAfterSeconds?: number; // Only for rate_limited
+  };
+}
+
+// How the model extracts documents; chosen in the settings panel and sent along with every upload
+export interface ExtractionSettings {
+  model: string; // One of ANALYSIS_MODELS in services/settingsService.ts
+  thinkingBudget: number; // Reasoning tokens; -1 lets the model decide
+  spellingCorrection: boolean;
+  spellingExceptions: string[]; // Kinds of values always extracted exactly as written, e.g. "Names"
+  customInstructions: string; // Appended to the extraction prompt
+}
+
+export type UploadFileType = 'pdf' | 'jpeg' | 'png' | 'webp';
+
+// Checked in the browser before a file is queued; the server still enforces its own maximum
+export interface UploadSettings {
+  maxFileSizeMb: number; // For PDFs and photos as sent; photos may be larger before they are downscaled
+  allowedTypes: UploadFileType[];
+}
+
+export interface AppSettings {
+  extraction: ExtractionSettings;
+  upload: UploadSettings;
+}
+
+// What went wrong with an analysis; decides the explanation and next step on the error screen
+export type AnalysisErrorKind =
+  | 'invalid_api_key'
+  | 'quota_exceeded'
+  | 'service_unavailable'
+  | 'safety_blocked'
+  | 'unsupported_file'
+  | 'file_too_large'
+  | 'malformed_output'
+  | 'invalid_settings'
+  | 'network'
+  | 'timeout'
+  | 'unknown';
+
+// A failed analysis as kept on its queue item, for the error screen and the copyable diagnostic
+export interface AnalysisFailure {
+  kind: AnalysisErrorKind;
+  message: string;
+  status?: number; // HTTP status of the failed request, if there was one
+  code?: ApiErrorCode;
+  attempts: number;
+  occurredAt: string; // ISO timestamp
+}
+
+// One line of the NDJSON stream /api/analyze returns to clients that accept application/x-ndjson
+export type AnalyzeStreamEvent =
+  | { type: 'progress'; documentType?: string; summary?: string; fields: FieldData[] } // Only fields not sent before
+  | { type: 'result'; analysis: DocumentAnalysis }
+  | ({ type: 'error' } & ApiErrorResponse);
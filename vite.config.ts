@@ -4,15 +4,24 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The API server (server/index.ts) holds GEMINI_API_KEY; it is never inlined into the client bundle
+    const proxy = {
+      '/api': `http://localhost:${env.API_PORT || 3001}`,
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER || 'server'),
+        // Overall limit per document in milliseconds, retries included; empty uses the default
+        'process.env.ANALYSIS_TIMEOUT_MS': JSON.stringify(env.ANALYSIS_TIMEOUT_MS || '')
       },
       resolve: {
         alias: {